@@ -1,141 +1,556 @@
-import { ConversionRates, FunnelStage, STAGE_ORDER } from "../entities";
-import { Break, BreakSeverity } from "../entities/Diagnosis";
-import { daysDiff } from "../../utils/time";
-
-export interface BreakDetectorConfig {
-  baselineWindowDays: number;
-  currentWindowDays: number;
-  minRelativeDrop: number;
-  minZScore: number;
-  minBaselineDataPoints: number;
-}
+import {
+  BreakDetectorConfig,
+  ConversionRates,
+  DataQualityFinding,
+  DataQualityIssue,
+  DetectorStrategy,
+  EffectiveDetectorConfig,
+  FunnelSnapshot,
+  TransitionKind,
+} from "../entities";
+import { Break, BreakDirection, BreakSeverity, BreakType } from "../entities/Diagnosis";
+import { dayNumber, daysDiff, weekdayOfDayNumber } from "../../utils/time";
+import { mean, normalCdf, normalQuantile, stddev, weekdayFactors } from "../../utils/stats";
+import { detectChangePoints } from "./ChangePointDetector";
+import { findingDates } from "./DataQualityChecker";
 
 export const DEFAULT_BREAK_DETECTOR_CONFIG: BreakDetectorConfig = {
+  detector: "window",
   baselineWindowDays: 14,
   currentWindowDays: 3,
   minRelativeDrop: 0.15,
   minZScore: 1.5,
   minBaselineDataPoints: 7,
+  significanceTest: "stddev",
+  seasonality: "none",
+  maxPValue: 0.05,
+  confidenceLevel: 0.95,
+  minWindowVolume: 30,
+  detectIncreases: false,
+  minRelativeIncrease: 0.15,
+  cusumThreshold: 5,
+  cusumDrift: 0.5,
 };
 
-interface RateDataPoint {
+/**
+ * Overrides for one funnel, or for the whole run. Keys of `transitions` are "from->to"
+ * for conversion series and the stage name for volume series.
+ */
+export interface ScopedDetectorConfig extends Partial<BreakDetectorConfig> {
+  transitions?: Record<string, Partial<BreakDetectorConfig>>;
+}
+
+/**
+ * Global settings plus per-funnel and per-transition overrides. A series resolves, most
+ * specific last: global, funnels[id], transitions[key], funnels[id].transitions[key].
+ */
+export interface LayeredDetectorConfig extends ScopedDetectorConfig {
+  funnels?: Record<string, ScopedDetectorConfig>;
+}
+
+/** Volume drops are judged on daily counts, so only the stddev test applies. */
+export const DEFAULT_VOLUME_DETECTOR_CONFIG: BreakDetectorConfig = {
+  ...DEFAULT_BREAK_DETECTOR_CONFIG,
+  minRelativeDrop: 0.30,
+  significanceTest: "stddev",
+};
+
+export interface RateDataPoint {
   date: string;
+  /** dayNumber(date), so window bounds need no date parsing. */
+  day: number;
+  weekday: number;
   rate: number;
+  fromCount: number;
+  toCount: number;
+  /** Flagged by a data-quality finding; never used as baseline. */
+  excludeFromBaseline: boolean;
+}
+
+/** Level comparison produced by a series detector, before drop/increase thresholds apply. */
+export interface SeriesShift {
+  detectedDate: string;
+  /** First day of the new level, when the detector can date it. */
+  onsetDate?: string;
+  /** Last day still at the new level, when the detector tracks it past detectedDate. */
+  lastSeenDate?: string;
+  baselineRate: number;
+  expectedRate: number;
+  currentRate: number;
+  zScore: number;
+  significant: boolean;
+  pValue?: number;
+  confidenceInterval?: { lower: number; upper: number };
 }
 
-/** Find conversion drops across all funnels and stage pairs. */
+type WindowTestResult = Omit<SeriesShift, "detectedDate" | "onsetDate" | "lastSeenDate">;
+
+/** Detection strategy for one date-sorted series; see DetectorStrategy. */
+export type SeriesDetector = (timeSeries: RateDataPoint[], config: BreakDetectorConfig) => SeriesShift[];
+
+const SERIES_DETECTORS: Record<DetectorStrategy, SeriesDetector> = {
+  window: detectWindowShifts,
+  cusum: detectChangePoints,
+};
+
+interface Transition {
+  fromStage: string;
+  toStage: string;
+  kind: TransitionKind;
+}
+
+/**
+ * Find conversion drops (and optionally increases) across all funnels and stage pairs.
+ * Days covered by stage-zero or impossible-rate findings are kept out of baselines; days after
+ * a source of either stage stopped reporting are left out of the series entirely.
+ * Each break carries its lifecycle as of the last data point of its series.
+ */
 export function detectBreaks(
   conversionRates: ConversionRates[],
-  config?: Partial<BreakDetectorConfig>
+  config?: LayeredDetectorConfig,
+  findings: DataQualityFinding[] = []
 ): Break[] {
-  const cfg = { ...DEFAULT_BREAK_DETECTOR_CONFIG, ...config };
-  const funnelIds = [...new Set(conversionRates.map((cr) => cr.funnelId))];
+  const base = { ...DEFAULT_BREAK_DETECTOR_CONFIG, ...settingsOf(config) };
+  const findingsByFunnel = groupByFunnel(findings);
   const allBreaks: Break[] = [];
 
-  for (const funnelId of funnelIds) {
-    const funnelRates = conversionRates
-      .filter((cr) => cr.funnelId === funnelId)
-      .sort((a, b) => a.date.localeCompare(b.date));
-
-    for (let i = 0; i < STAGE_ORDER.length - 1; i++) {
-      const fromStage = STAGE_ORDER[i];
-      const toStage = STAGE_ORDER[i + 1];
-
-      const timeSeries = extractTimeSeries(funnelRates, fromStage, toStage);
-      const breaks = detectBreaksInSeries(timeSeries, funnelId, fromStage, toStage, cfg);
+  for (const [funnelId, funnelRates] of groupByFunnel(conversionRates)) {
+    funnelRates.sort((a, b) => a.date.localeCompare(b.date));
+    const funnelFindings = findingsByFunnel.get(funnelId) ?? [];
+
+    for (const { transition, points } of extractTimeSeries(funnelRates)) {
+      const excluded = excludedDates(funnelFindings, transition.fromStage, transition.toStage);
+      const incomplete = sourceGoneDates(funnelFindings, transition.fromStage, transition.toStage);
+      const timeSeries = points
+        .filter((dp) => !incomplete.has(dp.date))
+        .map((dp) => ({ ...dp, excludeFromBaseline: excluded.has(dp.date) }));
+      const cfg = resolveDetectorConfig(base, config, funnelId, `${transition.fromStage}->${transition.toStage}`);
+      const breaks = detectBreaksInSeries(timeSeries, funnelId, transition, cfg, BreakType.CONVERSION);
       allBreaks.push(...breaks);
     }
   }
 
-  return deduplicateConsecutiveBreaks(allBreaks);
+  return allBreaks.sort((a, b) => a.detectedDate.localeCompare(b.detectedDate));
 }
 
-/** Build date/rate time series for one stage-to-stage transition. */
-function extractTimeSeries(
-  conversionRates: ConversionRates[],
-  fromStage: FunnelStage,
-  toStage: FunnelStage
-): RateDataPoint[] {
-  return conversionRates
-    .map((cr) => {
-      const rateEntry = cr.rates.find(
-        (r) => r.fromStage === fromStage && r.toStage === toStage
-      );
-      return {
-        date: cr.date,
-        rate: rateEntry?.rate ?? 0,
+/**
+ * Find abnormal drops in absolute stage counts, e.g. a paused campaign that keeps every rate flat.
+ * Days after a source of the stage stopped reporting are left out of its series entirely:
+ * the count is incomplete, so it neither feeds baselines nor raises breaks.
+ */
+export function detectVolumeBreaks(
+  snapshots: FunnelSnapshot[],
+  config?: LayeredDetectorConfig,
+  findings: DataQualityFinding[] = []
+): Break[] {
+  const base = { ...DEFAULT_VOLUME_DETECTOR_CONFIG, ...settingsOf(config) };
+  const findingsByFunnel = groupByFunnel(findings);
+  const allBreaks: Break[] = [];
+
+  for (const [funnelId, funnelSnapshots] of groupByFunnel(snapshots)) {
+    funnelSnapshots.sort((a, b) => a.date.localeCompare(b.date));
+    const funnelFindings = findingsByFunnel.get(funnelId) ?? [];
+    const days = funnelSnapshots.map((s) => dayNumber(s.date));
+    const stages = [...new Set(funnelSnapshots.flatMap((s) => Object.keys(s.stageCounts)))];
+
+    for (const stage of stages) {
+      const excluded = excludedDates(funnelFindings, stage, stage);
+      const incomplete = sourceGoneDates(funnelFindings, stage, stage);
+      const timeSeries: RateDataPoint[] = [];
+      funnelSnapshots.forEach((s, i) => {
+        if (incomplete.has(s.date)) return;
+        const count = s.stageCounts[stage] ?? 0;
+        timeSeries.push({
+          date: s.date,
+          day: days[i],
+          weekday: weekdayOfDayNumber(days[i]),
+          rate: count,
+          fromCount: count,
+          toCount: count,
+          excludeFromBaseline: excluded.has(s.date),
+        });
+      });
+      const transition: Transition = { fromStage: stage, toStage: stage, kind: TransitionKind.STAGE };
+      const cfg: EffectiveDetectorConfig = {
+        ...resolveDetectorConfig(base, config, funnelId, stage),
+        significanceTest: "stddev",
       };
-    })
-    .sort((a, b) => a.date.localeCompare(b.date));
+      allBreaks.push(...detectBreaksInSeries(timeSeries, funnelId, transition, cfg, BreakType.VOLUME));
+    }
+  }
+
+  return allBreaks.sort((a, b) => a.detectedDate.localeCompare(b.detectedDate));
 }
 
-/** Find breaks in one series using baseline vs current window and z-score. */
-function detectBreaksInSeries(
-  timeSeries: RateDataPoint[],
+/** Apply the override layers of `config` that match this funnel and series to `base`. */
+export function resolveDetectorConfig(
+  base: BreakDetectorConfig,
+  config: LayeredDetectorConfig | undefined,
   funnelId: string,
-  fromStage: FunnelStage,
-  toStage: FunnelStage,
-  config: BreakDetectorConfig
-): Break[] {
-  const breaks: Break[] = [];
-  const { baselineWindowDays, currentWindowDays, minRelativeDrop, minZScore, minBaselineDataPoints } = config;
+  seriesKey: string
+): EffectiveDetectorConfig {
+  const funnel = config?.funnels?.[funnelId];
+  const candidates: [string, Partial<BreakDetectorConfig> | undefined][] = [
+    [`funnels.${funnelId}`, funnel],
+    [`transitions.${seriesKey}`, config?.transitions?.[seriesKey]],
+    [`funnels.${funnelId}.transitions.${seriesKey}`, funnel?.transitions?.[seriesKey]],
+  ];
+
+  const effective: EffectiveDetectorConfig = { ...base, layers: [] };
+  for (const [layer, overrides] of candidates) {
+    if (!overrides) continue;
+    Object.assign(effective, settingsOf(overrides));
+    effective.layers.push(layer);
+  }
+  return effective;
+}
 
-  for (let i = 0; i < timeSeries.length; i++) {
-    const detectionDate = timeSeries[i].date;
+/** The detector settings of a layer, without its nested override maps. */
+function settingsOf(layer: LayeredDetectorConfig | undefined): Partial<BreakDetectorConfig> {
+  if (!layer) return {};
+  const { funnels: _funnels, transitions: _transitions, ...settings } = layer;
+  return settings;
+}
 
-    const currentPoints = timeSeries.filter((dp) => {
-      const diff = daysDiff(dp.date, detectionDate);
-      return diff >= 0 && diff < currentWindowDays;
-    });
+/** Items per funnelId, in order of first appearance. */
+function groupByFunnel<T extends { funnelId: string }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(item.funnelId);
+    if (group) group.push(item);
+    else groups.set(item.funnelId, [item]);
+  }
+  return groups;
+}
 
-    const baselinePoints = timeSeries.filter((dp) => {
-      const diff = daysDiff(dp.date, detectionDate);
-      return diff >= currentWindowDays && diff < baselineWindowDays + currentWindowDays;
-    });
+/** Dates whose stage counts are suspect for this transition (or stage, when from === to). */
+function excludedDates(
+  funnelFindings: DataQualityFinding[],
+  fromStage: string,
+  toStage: string
+): Set<string> {
+  const dates = new Set<string>();
+  for (const finding of funnelFindings) {
+    const affectsStage = finding.issue === DataQualityIssue.STAGE_ZERO &&
+      (finding.stage === fromStage || finding.stage === toStage);
+    const affectsTransition = finding.issue === DataQualityIssue.IMPOSSIBLE_RATE &&
+      finding.fromStage === fromStage && finding.toStage === toStage;
+    if (affectsStage || affectsTransition) {
+      findingDates(finding).forEach((d) => dates.add(d));
+    }
+  }
+  return dates;
+}
 
-    if (baselinePoints.length < minBaselineDataPoints) continue;
-    if (currentPoints.length === 0) continue;
+/**
+ * Dates after a source that reported either stage stopped reporting, when the stage counts
+ * are known to be incomplete. A finding without sourceStages covers every stage.
+ */
+function sourceGoneDates(
+  funnelFindings: DataQualityFinding[],
+  fromStage: string,
+  toStage: string
+): Set<string> {
+  const dates = new Set<string>();
+  for (const finding of funnelFindings) {
+    if (finding.issue !== DataQualityIssue.SOURCE_DISAPPEARED) continue;
+    const stages = finding.sourceStages;
+    if (stages && !stages.includes(fromStage) && !stages.includes(toStage)) continue;
+    findingDates(finding).forEach((d) => dates.add(d));
+  }
+  return dates;
+}
 
-    const baselineRates = baselinePoints.map((dp) => dp.rate);
-    const currentRates = currentPoints.map((dp) => dp.rate);
+/**
+ * One pass over a date-sorted funnel's rates: a series per stage pair, in funnel order.
+ * Days with no fromCount have no rate; pairs with no usable day still get an empty series.
+ */
+function extractTimeSeries(funnelRates: ConversionRates[]): { transition: Transition; points: RateDataPoint[] }[] {
+  const byPair = new Map<string, { transition: Transition; points: RateDataPoint[] }>();
+  for (const cr of funnelRates) {
+    const day = dayNumber(cr.date);
+    for (const { fromStage, toStage, kind, rate, fromCount, toCount } of cr.rates) {
+      const key = `${fromStage}->${toStage}`;
+      let series = byPair.get(key);
+      if (!series) {
+        series = { transition: { fromStage, toStage, kind }, points: [] };
+        byPair.set(key, series);
+      }
+      if (fromCount === 0) continue;
+      series.points.push({
+        date: cr.date,
+        day,
+        weekday: weekdayOfDayNumber(day),
+        rate,
+        fromCount,
+        toCount,
+        excludeFromBaseline: false,
+      });
+    }
+  }
+  return [...byPair.values()];
+}
 
-    const baselineMean = mean(baselineRates);
-    const baselineStdDev = stddev(baselineRates);
-    const currentMean = mean(currentRates);
+/**
+ * Run the configured detector on one series, keep shifts that clear the drop/increase
+ * thresholds, merge consecutive days into one break and attach its lifecycle.
+ */
+function detectBreaksInSeries(
+  timeSeries: RateDataPoint[],
+  funnelId: string,
+  transition: Transition,
+  config: EffectiveDetectorConfig,
+  breakType: BreakType
+): Break[] {
+  const breaks: Break[] = [];
 
-    if (baselineMean === 0) continue;
+  for (const shift of SERIES_DETECTORS[config.detector](timeSeries, config)) {
+    const { baselineRate, expectedRate, currentRate, zScore } = shift;
+    const absoluteDrop = expectedRate - currentRate;
+    const relativeDrop = absoluteDrop / expectedRate;
 
-    const effectiveStdDev = Math.max(baselineStdDev, 0.01);
-    const absoluteDrop = baselineMean - currentMean;
-    const relativeDrop = absoluteDrop / baselineMean;
-    const zScore = absoluteDrop / effectiveStdDev;
+    const isDrop = relativeDrop >= config.minRelativeDrop;
+    const isIncrease = config.detectIncreases && -relativeDrop >= config.minRelativeIncrease;
 
-    if (relativeDrop >= minRelativeDrop && Math.abs(zScore) >= minZScore) {
+    if ((isDrop || isIncrease) && shift.significant) {
       breaks.push({
+        breakType,
         funnelId,
-        fromStage,
-        toStage,
-        detectedDate: detectionDate,
-        baselineRate: baselineMean,
-        currentRate: currentMean,
+        fromStage: transition.fromStage,
+        toStage: transition.toStage,
+        transitionKind: transition.kind,
+        direction: isDrop ? BreakDirection.DROP : BreakDirection.INCREASE,
+        detectedDate: shift.detectedDate,
+        onsetDate: shift.onsetDate ?? shift.detectedDate,
+        lastSeenDate: shift.lastSeenDate ?? shift.detectedDate,
+        durationDays: 1,
+        active: true,
+        baselineRate,
+        expectedRate,
+        currentRate,
         absoluteDrop,
         relativeDrop,
         zScore,
-        severity: classifySeverity(relativeDrop, zScore),
+        severity: classifySeverity(Math.abs(relativeDrop), zScore),
+        ...(shift.pValue !== undefined && { pValue: shift.pValue }),
+        ...(shift.confidenceInterval && { confidenceInterval: shift.confidenceInterval }),
+        detectorConfig: config,
       });
     }
   }
 
-  return breaks;
+  return deduplicateConsecutiveBreaks(breaks).map((brk) => trackLifecycle(brk, timeSeries, config));
+}
+
+/**
+ * A break recovers on the first usable day after lastSeenDate whose rate is back within
+ * the drop (or increase) threshold of expectedRate; until then it stays active.
+ */
+function trackLifecycle(brk: Break, timeSeries: RateDataPoint[], config: BreakDetectorConfig): Break {
+  const recovery = timeSeries.find((dp) =>
+    dp.date > brk.lastSeenDate && !dp.excludeFromBaseline && isRecovered(brk, dp.rate, config)
+  );
+  const lastDate = timeSeries[timeSeries.length - 1].date;
+
+  return {
+    ...brk,
+    ...(recovery && { recoveryDate: recovery.date }),
+    durationDays: recovery
+      ? daysDiff(brk.onsetDate, recovery.date)
+      : daysDiff(brk.onsetDate, lastDate) + 1,
+    active: !recovery,
+  };
+}
+
+function isRecovered(brk: Break, rate: number, config: BreakDetectorConfig): boolean {
+  const relativeGap = (brk.expectedRate - rate) / brk.expectedRate;
+  return brk.direction === BreakDirection.DROP
+    ? relativeGap < config.minRelativeDrop
+    : -relativeGap < config.minRelativeIncrease;
+}
+
+/** Running totals of a window's counts: whole numbers, so days enter and leave it exactly. */
+interface WindowCounts {
+  count: number;
+  fromCount: number;
+  toCount: number;
+}
+
+/** Baseline window: its usable points, and their count totals overall and per weekday (index 0 = Sunday). */
+interface BaselineWindow {
+  points: RateDataPoint[];
+  total: WindowCounts;
+  byWeekday: WindowCounts[];
+}
+
+/**
+ * Compare each day's trailing current window with the baseline window before it.
+ * Both windows slide forward with the series by index, and baseline counts are updated
+ * as days enter and leave it, so the two-proportion test costs O(current window) per day.
+ * Rate means and spreads are recomputed over the baseline's points instead: running float
+ * sums of squares drift and cancel on large, steady counts, and weekday factors change with
+ * every window. The stddev test therefore costs O(baseline window) per day, O(n * w) per series.
+ */
+function detectWindowShifts(timeSeries: RateDataPoint[], config: BreakDetectorConfig): SeriesShift[] {
+  const shifts: SeriesShift[] = [];
+  const { baselineWindowDays, currentWindowDays, minBaselineDataPoints } = config;
+  const total = emptyCounts();
+  const byWeekday = Array.from({ length: 7 }, emptyCounts);
+
+  let currentStart = 0;
+  let baselineStart = 0;
+  let baselineEnd = 0;
+
+  for (let i = 0; i < timeSeries.length; i++) {
+    const day = timeSeries[i].day;
+
+    // Current window: (day - currentWindowDays, day]; baseline window: the baselineWindowDays before it
+    while (currentStart <= i && timeSeries[currentStart].day <= day - currentWindowDays) currentStart++;
+    while (baselineEnd < timeSeries.length && timeSeries[baselineEnd].day <= day - currentWindowDays) {
+      updateCounts(total, byWeekday, timeSeries[baselineEnd++], 1);
+    }
+    while (baselineStart < baselineEnd && timeSeries[baselineStart].day <= day - currentWindowDays - baselineWindowDays) {
+      updateCounts(total, byWeekday, timeSeries[baselineStart++], -1);
+    }
+
+    const currentPoints = timeSeries.slice(currentStart, i + 1);
+
+    if (total.count < minBaselineDataPoints) continue;
+    if (currentPoints.length === 0) continue;
+
+    const baseline: BaselineWindow = {
+      points: timeSeries.slice(baselineStart, baselineEnd).filter((dp) => !dp.excludeFromBaseline),
+      total,
+      byWeekday,
+    };
+    const test = config.significanceTest === "two-proportion"
+      ? testTwoProportions(baseline, currentPoints, config)
+      : testRateStdDev(baseline, currentPoints, config);
+    if (test) shifts.push({ detectedDate: timeSeries[i].date, ...test });
+  }
+
+  return shifts;
+}
+
+function emptyCounts(): WindowCounts {
+  return { count: 0, fromCount: 0, toCount: 0 };
+}
+
+/** Add (sign 1) or remove (sign -1) a point; flagged points never enter the baseline. */
+function updateCounts(total: WindowCounts, byWeekday: WindowCounts[], dp: RateDataPoint, sign: 1 | -1): void {
+  if (dp.excludeFromBaseline) return;
+  for (const counts of [total, byWeekday[dp.weekday]]) {
+    counts.count += sign;
+    counts.fromCount += sign * dp.fromCount;
+    counts.toCount += sign * dp.toCount;
+  }
 }
 
-/** Merge nearby breaks per funnel/stage; keep one peak break per cluster. */
+/**
+ * Mean of daily rates vs baseline spread, with a 0.01 stddev floor. With day-of-week
+ * seasonality, rates are divided by their weekday factor before comparing.
+ */
+function testRateStdDev(
+  baseline: BaselineWindow,
+  currentPoints: RateDataPoint[],
+  config: BreakDetectorConfig
+): WindowTestResult | null {
+  const baselineMean = mean(baseline.points.map((dp) => dp.rate));
+  if (baselineMean === 0) return null;
+
+  const seasonal = config.seasonality === "day-of-week";
+  const factors = seasonal ? weekdayFactors(baseline.points, baselineMean) : new Map<number, number>();
+  // Weekdays missing from the baseline (or at 0) count as 1
+  const factorOf = (dp: RateDataPoint) => factors.get(dp.weekday) || 1;
+
+  const currentMean = mean(currentPoints.map((dp) => dp.rate));
+  const expectedRate = seasonal
+    ? mean(currentPoints.map((dp) => baselineMean * factorOf(dp)))
+    : baselineMean;
+  const adjustedBaseline = baseline.points.map((dp) => dp.rate / factorOf(dp));
+  const adjustedCurrent = mean(currentPoints.map((dp) => dp.rate / factorOf(dp)));
+
+  const effectiveStdDev = Math.max(stddev(adjustedBaseline), 0.01);
+  const zScore = (baselineMean - adjustedCurrent) / effectiveStdDev;
+
+  return {
+    baselineRate: baselineMean,
+    expectedRate,
+    currentRate: currentMean,
+    zScore,
+    significant: Math.abs(zScore) >= config.minZScore,
+  };
+}
+
+/**
+ * Pooled-count two-proportion z-test; CI is for the absolute drop (expected - current).
+ * With day-of-week seasonality the expected proportion weights each current day's
+ * volume by the pooled baseline rate of its weekday.
+ */
+function testTwoProportions(
+  baseline: BaselineWindow,
+  currentPoints: RateDataPoint[],
+  config: BreakDetectorConfig
+): WindowTestResult | null {
+  const n1 = baseline.total.fromCount;
+  const n2 = sumFromCount(currentPoints);
+  if (n1 === 0 || n2 === 0) return null;
+  if (n1 < config.minWindowVolume || n2 < config.minWindowVolume) return null;
+
+  const p1 = baseline.total.toCount / n1;
+  const p2 = sumToCount(currentPoints) / n2;
+  if (p1 === 0) return null;
+
+  let expected = p1;
+  if (config.seasonality === "day-of-week") {
+    const pooledRateOf = (dp: RateDataPoint) => {
+      const w = baseline.byWeekday[dp.weekday];
+      return w.fromCount > 0 ? w.toCount / w.fromCount : p1;
+    };
+    expected = currentPoints.reduce((sum, dp) => sum + dp.fromCount * pooledRateOf(dp), 0) / n2;
+    if (expected === 0) return null;
+  }
+
+  const pooled = Math.min(1, (expected * n1 + p2 * n2) / (n1 + n2));
+  const pooledSe = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (pooledSe === 0) return null;
+
+  const zScore = (expected - p2) / pooledSe;
+  // One-sided in the observed direction: drops test the upper tail, increases the lower
+  const pValue = 1 - normalCdf(Math.abs(zScore));
+
+  const variance = (p: number, n: number) => {
+    const capped = Math.min(1, p);
+    return (capped * (1 - capped)) / n;
+  };
+  const margin = normalQuantile(1 - (1 - config.confidenceLevel) / 2) * Math.sqrt(variance(expected, n1) + variance(p2, n2));
+
+  return {
+    baselineRate: p1,
+    expectedRate: expected,
+    currentRate: p2,
+    zScore,
+    significant: pValue <= config.maxPValue,
+    pValue,
+    confidenceInterval: { lower: expected - p2 - margin, upper: expected - p2 + margin },
+  };
+}
+
+function sumFromCount(points: RateDataPoint[]): number {
+  return points.reduce((sum, dp) => sum + dp.fromCount, 0);
+}
+
+function sumToCount(points: RateDataPoint[]): number {
+  return points.reduce((sum, dp) => sum + dp.toCount, 0);
+}
+
+/** Merge nearby breaks per funnel/stage into the cluster's peak break, spanning its first onset to last sighting. */
 function deduplicateConsecutiveBreaks(breaks: Break[]): Break[] {
   if (breaks.length === 0) return [];
 
   const groups = new Map<string, Break[]>();
   for (const brk of breaks) {
-    const key = `${brk.funnelId}|${brk.fromStage}|${brk.toStage}`;
+    const key = `${brk.breakType}|${brk.funnelId}|${brk.fromStage}|${brk.toStage}|${brk.direction}`;
     if (!groups.has(key)) groups.set(key, []);
     groups.get(key)!.push(brk);
   }
@@ -155,45 +570,39 @@ function deduplicateConsecutiveBreaks(breaks: Break[]): Break[] {
       if (gap <= 1) {
         cluster.push(curr);
       } else {
-        deduplicated.push(pickPeakBreak(cluster));
+        deduplicated.push(mergeCluster(cluster));
         cluster = [curr];
       }
     }
 
-    deduplicated.push(pickPeakBreak(cluster));
+    deduplicated.push(mergeCluster(cluster));
   }
 
   return deduplicated.sort((a, b) => a.detectedDate.localeCompare(b.detectedDate));
 }
 
-/** Map relative drop and z-score to CRITICAL / SIGNIFICANT / WARNING. */
-function classifySeverity(relativeDrop: number, zScore: number): BreakSeverity {
-  if (relativeDrop > 0.40 || Math.abs(zScore) > 3.0) {
+/** Map relative change size and z-score to CRITICAL / SIGNIFICANT / WARNING. */
+function classifySeverity(relativeChange: number, zScore: number): BreakSeverity {
+  if (relativeChange > 0.40 || Math.abs(zScore) > 3.0) {
     return BreakSeverity.CRITICAL;
   }
-  if (relativeDrop > 0.20 || Math.abs(zScore) > 2.0) {
+  if (relativeChange > 0.20 || Math.abs(zScore) > 2.0) {
     return BreakSeverity.SIGNIFICANT;
   }
   return BreakSeverity.WARNING;
 }
 
+function mergeCluster(cluster: Break[]): Break {
+  return {
+    ...pickPeakBreak(cluster),
+    onsetDate: cluster.map((b) => b.onsetDate).reduce((a, b) => (b < a ? b : a)),
+    lastSeenDate: cluster.map((b) => b.lastSeenDate).reduce((a, b) => (b > a ? b : a)),
+  };
+}
+
 /** Break in cluster with largest |zScore|. */
 function pickPeakBreak(cluster: Break[]): Break {
   return cluster.reduce((best, curr) =>
     Math.abs(curr.zScore) > Math.abs(best.zScore) ? curr : best
   );
 }
-
-/** Arithmetic mean. */
-function mean(values: number[]): number {
-  if (values.length === 0) return 0;
-  return values.reduce((sum, v) => sum + v, 0) / values.length;
-}
-
-/** Sample standard deviation (n - 1). */
-function stddev(values: number[]): number {
-  if (values.length < 2) return 0;
-  const avg = mean(values);
-  const squaredDiffs = values.map((v) => (v - avg) ** 2);
-  return Math.sqrt(squaredDiffs.reduce((sum, v) => sum + v, 0) / (values.length - 1));
-}
@@ -0,0 +1,120 @@
+import { Change } from "../entities/Change";
+import { ConversionRates, FunnelSnapshot } from "../entities/Event";
+import { WILDCARD_FUNNEL_ID } from "../entities/Funnel";
+import { Break, BreakDirection, BreakType, CausalEstimate } from "../entities/Diagnosis";
+import { dayNumber } from "../../utils/time";
+
+/** Daily series of every funnel, which causal scoring draws control funnels from. */
+export interface FunnelObservations {
+  conversionRates: ConversionRates[];
+  snapshots: FunnelSnapshot[];
+}
+
+export interface CausalScoringConfig {
+  /** Days before the change date, and from it onwards, that are compared. */
+  windowDays: number;
+  /** Fewest control funnels with data in both windows for an estimate. */
+  minControlFunnels: number;
+}
+
+/**
+ * Daily values per funnel and series ("from->to" rates, bare stage volumes), keyed by
+ * dayNumber so each window lookup is direct instead of a date comparison per day.
+ */
+export type SeriesIndex = Map<string, Map<string, Map<number, number>>>;
+
+export function buildSeriesIndex(observations: FunnelObservations): SeriesIndex {
+  const index: SeriesIndex = new Map();
+  const record = (seriesKey: string, funnelId: string, date: string, value: number) => {
+    let funnels = index.get(seriesKey);
+    if (!funnels) index.set(seriesKey, (funnels = new Map()));
+    let series = funnels.get(funnelId);
+    if (!series) funnels.set(funnelId, (series = new Map()));
+    series.set(dayNumber(date), value);
+  };
+
+  for (const cr of observations.conversionRates) {
+    for (const { fromStage, toStage, rate, fromCount } of cr.rates) {
+      if (fromCount > 0) record(`${fromStage}->${toStage}`, cr.funnelId, cr.date, rate);
+    }
+  }
+  for (const snapshot of observations.snapshots) {
+    for (const [stage, count] of Object.entries(snapshot.stageCounts)) {
+      record(stage, snapshot.funnelId, snapshot.date, count);
+    }
+  }
+  return index;
+}
+
+/**
+ * Difference-in-differences of the break's series across the change date: its relative
+ * shift against the mean shift of funnels that did not receive the change. Funnels that
+ * logged the same change (date, category, description) are not controls, and "*" changes
+ * have none. Undefined without enough controls or data on both sides of the change.
+ */
+export function estimateCausalEffect(
+  change: Change,
+  brk: Break,
+  changes: Change[],
+  index: SeriesIndex,
+  config: CausalScoringConfig
+): CausalEstimate | undefined {
+  if (change.funnelId === WILDCARD_FUNNEL_ID) return undefined;
+
+  const seriesKey = brk.breakType === BreakType.VOLUME ? brk.fromStage : `${brk.fromStage}->${brk.toStage}`;
+  const funnels = index.get(seriesKey);
+  const treated = funnels?.get(brk.funnelId);
+  const changeDay = dayNumber(change.date);
+  const treatedShift = treated && relativeShift(treated, changeDay, config.windowDays);
+  if (!funnels || treatedShift === undefined) return undefined;
+
+  const received = new Set(
+    changes
+      .filter((c) => c.date === change.date && c.category === change.category && c.description === change.description)
+      .map((c) => c.funnelId)
+  );
+  received.add(brk.funnelId);
+
+  const controls: { funnelId: string; shift: number }[] = [];
+  for (const [funnelId, series] of funnels) {
+    if (received.has(funnelId)) continue;
+    const shift = relativeShift(series, changeDay, config.windowDays);
+    if (shift !== undefined) controls.push({ funnelId, shift });
+  }
+  if (controls.length === 0 || controls.length < config.minControlFunnels) return undefined;
+
+  return {
+    treatedShift,
+    controlShift: controls.reduce((sum, c) => sum + c.shift, 0) / controls.length,
+    controlFunnels: controls.map((c) => c.funnelId),
+  };
+}
+
+/**
+ * Share of the break's shift that the controls did not also see, in [0, 1]: 1 when
+ * controls stayed flat or moved the other way, 0 when they moved as much.
+ */
+export function calcCausalScore(estimate: CausalEstimate, direction: BreakDirection): number {
+  const sign = direction === BreakDirection.DROP ? -1 : 1;
+  const breakShift = sign * estimate.treatedShift;
+  if (breakShift <= 0) return 0;
+  const excessShift = sign * (estimate.treatedShift - estimate.controlShift);
+  return Math.min(1, Math.max(0, excessShift / breakShift));
+}
+
+/** mean(after) / mean(before) - 1, with the change date in the after window. */
+function relativeShift(series: Map<number, number>, changeDay: number, windowDays: number): number | undefined {
+  const before: number[] = [];
+  const after: number[] = [];
+  for (let offset = -windowDays; offset < windowDays; offset++) {
+    const value = series.get(changeDay + offset);
+    if (value === undefined) continue;
+    if (offset < 0) before.push(value);
+    else after.push(value);
+  }
+  if (before.length === 0 || after.length === 0) return undefined;
+
+  const beforeMean = before.reduce((sum, v) => sum + v, 0) / before.length;
+  if (beforeMean === 0) return undefined;
+  return after.reduce((sum, v) => sum + v, 0) / after.length / beforeMean - 1;
+}
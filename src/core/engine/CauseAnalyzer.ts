@@ -1,12 +1,23 @@
-import { Change, ChangeCategory } from "../entities/Change";
-import { FunnelStage } from "../entities/Event";
+import { CategoryTaxonomy, Change, ChangeCategory, parentCategory, rootCategory } from "../entities/Change";
+import { TransitionKind } from "../entities/Event";
+import { FunnelDefinition, resolveStageOrder, spannedTransitionKeys, WILDCARD_FUNNEL_ID } from "../entities/Funnel";
+import { GlobalIncident } from "../entities/Incident";
 import {
   Break,
+  BreakDirection,
+  BreakType,
   CauseCandidate,
   Diagnosis,
   DiagnosisStatus,
 } from "../entities/Diagnosis";
-import { daysDiff, now } from "../../utils/time";
+import { addDays, daysDiff, now } from "../../utils/time";
+import {
+  buildSeriesIndex,
+  calcCausalScore,
+  estimateCausalEffect,
+  FunnelObservations,
+  SeriesIndex,
+} from "./CausalScorer";
 
 export interface CauseAnalyzerConfig {
   maxTemporalDistanceDays: number;
@@ -15,6 +26,35 @@ export interface CauseAnalyzerConfig {
   severityWeight: number;
   stageMatchWeight: number;
   minConfidenceThreshold: number;
+  /**
+   * Relevance scores per category laid over the built-in matrix, e.g. for custom funnel
+   * stages: "from->to" keys for conversion breaks, bare stage names for volume breaks.
+   */
+  customStageRelevance: Record<string, Record<string, number>>;
+  /** Custom categories and subcategories with their relevance profiles; global only. */
+  categories: CategoryTaxonomy;
+  /** Relevance of category/transition pairs the matrix does not cover. */
+  fallbackRelevance: number;
+  /** Confidence added to "*" changes per additional funnel in the break's global incident. */
+  wildcardBoostPerFunnel: number;
+  maxWildcardBoost: number;
+  /**
+   * Share of confidence taken from the difference-in-differences causal score; 0 turns
+   * causal scoring off. Candidates without control funnels keep their other scores.
+   */
+  causalWeight: number;
+  /** Days on each side of a change date compared by causal scoring. */
+  causalWindowDays: number;
+  minControlFunnels: number;
+  /** A break recovering at most this many days after a change's revert credits the change. */
+  revertRecoveryDays: number;
+  revertRecoveryBoost: number;
+  /**
+   * Day changes are timed against: "detected" is the day the detector flagged the break,
+   * "onset" the start of its lifecycle, which reaches back to the first day of a merged
+   * cluster or to a change-point detector's estimate.
+   */
+  temporalAnchor: "detected" | "onset";
 }
 
 export const DEFAULT_CAUSE_ANALYZER_CONFIG: CauseAnalyzerConfig = {
@@ -24,8 +64,33 @@ export const DEFAULT_CAUSE_ANALYZER_CONFIG: CauseAnalyzerConfig = {
   severityWeight: 0.20,
   stageMatchWeight: 0.10,
   minConfidenceThreshold: 0.1,
+  customStageRelevance: {},
+  categories: {},
+  fallbackRelevance: 0.3,
+  wildcardBoostPerFunnel: 0.05,
+  maxWildcardBoost: 0.25,
+  causalWeight: 0,
+  causalWindowDays: 7,
+  minControlFunnels: 1,
+  revertRecoveryDays: 2,
+  revertRecoveryBoost: 0.2,
+  temporalAnchor: "detected",
 };
 
+/** Global settings plus per-funnel overrides; funnel relevance scores extend the global ones. */
+export interface LayeredCauseAnalyzerConfig extends Partial<CauseAnalyzerConfig> {
+  funnels?: Record<string, Partial<Omit<CauseAnalyzerConfig, "categories">>>;
+}
+
+/** Category relevance as scoring sees it, built-in scores merged with customStageRelevance. */
+export interface RelevanceMatrix {
+  /** "from->to" (and, for volume breaks, bare stage) scores per category. */
+  stages: Record<string, Record<string, number>>;
+  /** Volume breaks at stages without their own score. */
+  volume: Record<string, number>;
+  fallback: number;
+}
+
 const CATEGORY_STAGE_RELEVANCE: Record<ChangeCategory, Record<string, number>> = {
   [ChangeCategory.AD]: {
     "impression->click": 0.95,
@@ -65,25 +130,142 @@ const CATEGORY_STAGE_RELEVANCE: Record<ChangeCategory, Record<string, number>> =
   },
 };
 
+/** Relevance of each category to a drop in a stage's own volume; traffic-side changes dominate. */
+const VOLUME_CATEGORY_RELEVANCE: Record<ChangeCategory, number> = {
+  [ChangeCategory.AD]: 0.95,
+  [ChangeCategory.AUDIENCE]: 0.90,
+  [ChangeCategory.EXTERNAL]: 0.60,
+  [ChangeCategory.TRACKING]: 0.70,
+  [ChangeCategory.SITE]: 0.30,
+  [ChangeCategory.PRICING]: 0.20,
+};
+
+/** Upward anomalies are usually measurement problems (double-firing, duplicated events). */
+const INCREASE_TRACKING_RELEVANCE = 0.95;
+const INCREASE_OTHER_RELEVANCE_FACTOR = 0.5;
+
+/**
+ * Global incidents let "*" changes gain confidence when many funnels break together;
+ * observations of all funnels supply the control funnels when causalWeight is set.
+ */
 export function analyzeCauses(
   breaks: Break[],
   changes: Change[],
-  config?: Partial<CauseAnalyzerConfig>
+  config?: LayeredCauseAnalyzerConfig,
+  definitions: FunnelDefinition[] = [],
+  globalIncidents: GlobalIncident[] = [],
+  observations?: FunnelObservations
 ): Diagnosis[] {
-  const cfg = { ...DEFAULT_CAUSE_ANALYZER_CONFIG, ...config };
-  return breaks.map((brk) => diagnoseBreak(brk, changes, cfg));
+  const globalFunnelCounts = new Map(globalIncidents.map((g) => [g.id, g.funnelIds.length]));
+  const scoring = new Map<string, { cfg: CauseAnalyzerConfig; matrix: RelevanceMatrix }>();
+  let seriesIndex: SeriesIndex | undefined;
+  const reverts = indexReverts(changes);
+
+  return breaks.map((brk) => {
+    let funnelScoring = scoring.get(brk.funnelId);
+    if (!funnelScoring) {
+      const cfg = resolveCauseAnalyzerConfig(config, brk.funnelId);
+      funnelScoring = { cfg, matrix: buildRelevanceMatrix(cfg) };
+      scoring.set(brk.funnelId, funnelScoring);
+    }
+    const affectedFunnels = brk.globalIncidentId ? globalFunnelCounts.get(brk.globalIncidentId) ?? 1 : 1;
+    const stageOrder = resolveStageOrder(brk.funnelId, definitions);
+    if (funnelScoring.cfg.causalWeight > 0 && observations) {
+      seriesIndex ??= buildSeriesIndex(observations);
+    }
+    const causalIndex = funnelScoring.cfg.causalWeight > 0 ? seriesIndex : undefined;
+    return diagnoseBreak(brk, changes, reverts, funnelScoring.cfg, funnelScoring.matrix, stageOrder, affectedFunnels, causalIndex);
+  });
+}
+
+/**
+ * Diagnosis of an incident symptom: its causes are its root's, so none are ranked for it;
+ * it takes the root diagnosis's status and refers to it through the break's incidentId.
+ */
+export function diagnoseSymptom(brk: Break, rootDiagnosis: Diagnosis): Diagnosis {
+  const root = rootDiagnosis.break;
+  const rootChange = root.direction === BreakDirection.INCREASE ? "increase" : "drop";
+  return {
+    generatedAt: now(),
+    break: brk,
+    causes: [],
+    diagnosisStatus: rootDiagnosis.diagnosisStatus,
+    summary: `${describeBreak(brk)} Downstream symptom of the ${describeLocation(root)} ${rootChange} on ${root.detectedDate}; see its diagnosis for causes.`,
+  };
 }
 
-function diagnoseBreak(brk: Break, allChanges: Change[], config: CauseAnalyzerConfig): Diagnosis {
+/** Settings for one funnel, or the global ones when funnelId is omitted. */
+export function resolveCauseAnalyzerConfig(
+  config: LayeredCauseAnalyzerConfig | undefined,
+  funnelId?: string
+): CauseAnalyzerConfig {
+  const { funnels, ...global } = config ?? {};
+  const base = { ...DEFAULT_CAUSE_ANALYZER_CONFIG, ...global };
+  const funnel = funnelId === undefined ? undefined : funnels?.[funnelId];
+  if (!funnel) return base;
+
+  const customStageRelevance = { ...base.customStageRelevance };
+  for (const [category, scores] of Object.entries(funnel.customStageRelevance ?? {})) {
+    customStageRelevance[category] = { ...customStageRelevance[category], ...scores };
+  }
+  return { ...base, ...funnel, customStageRelevance };
+}
+
+/**
+ * Built-in profiles, then taxonomy categories (parents before their subcategories, which
+ * start from the parent's scores), each with its customStageRelevance laid over it.
+ */
+export function buildRelevanceMatrix(config: CauseAnalyzerConfig): RelevanceMatrix {
+  const stages: RelevanceMatrix["stages"] = {};
+  const volume: RelevanceMatrix["volume"] = {};
+  for (const category of Object.values(ChangeCategory)) {
+    stages[category] = { ...CATEGORY_STAGE_RELEVANCE[category], ...config.customStageRelevance[category] };
+    volume[category] = VOLUME_CATEGORY_RELEVANCE[category];
+  }
+
+  const depth = (category: string) => category.split("/").length;
+  const declared = Object.keys(config.categories).sort((a, b) => depth(a) - depth(b));
+  for (const category of declared) {
+    const definition = config.categories[category];
+    const parent = parentCategory(category);
+    stages[category] = {
+      ...(parent !== undefined ? stages[parent] : stages[category]),
+      ...definition.stageRelevance,
+      ...config.customStageRelevance[category],
+    };
+    const volumeRelevance = definition.volumeRelevance ?? (parent !== undefined ? volume[parent] : volume[category]);
+    if (volumeRelevance !== undefined) volume[category] = volumeRelevance;
+  }
+
+  for (const [category, scores] of Object.entries(config.customStageRelevance)) {
+    stages[category] ??= { ...scores };
+  }
+  return { stages, volume, fallback: config.fallbackRelevance };
+}
+
+function diagnoseBreak(
+  brk: Break,
+  allChanges: Change[],
+  reverts: Map<string, Change>,
+  config: CauseAnalyzerConfig,
+  matrix: RelevanceMatrix,
+  stageOrder: readonly string[],
+  affectedFunnels: number,
+  causalIndex?: SeriesIndex
+): Diagnosis {
   const candidateChanges = allChanges.filter((change) => {
-    const funnelMatch = change.funnelId === brk.funnelId || change.funnelId === "*";
+    const funnelMatch = change.funnelId === brk.funnelId || change.funnelId === WILDCARD_FUNNEL_ID;
     if (!funnelMatch) return false;
-    const gap = daysDiff(change.date, brk.detectedDate);
-    return gap >= 0 && gap <= config.maxTemporalDistanceDays;
+    return effectBoundaries(change, revertOf(change, reverts)).some((date) => {
+      const gap = daysDiff(date, anchorDate(brk, config));
+      return gap >= 0 && gap <= config.maxTemporalDistanceDays;
+    });
   });
 
   const causes: CauseCandidate[] = candidateChanges
-    .map((change) => scoreCandidate(change, brk, config))
+    .map((change) => scoreCandidate(
+      change, brk, allChanges, revertOf(change, reverts), config, matrix, stageOrder, affectedFunnels, causalIndex
+    ))
     .filter((c) => c.confidence >= config.minConfidenceThreshold)
     .sort((a, b) => b.confidence - a.confidence);
 
@@ -93,19 +275,54 @@ function diagnoseBreak(brk: Break, allChanges: Change[], config: CauseAnalyzerCo
   return { generatedAt: now(), break: brk, causes, diagnosisStatus, summary };
 }
 
-function scoreCandidate(change: Change, brk: Break, config: CauseAnalyzerConfig): CauseCandidate {
-  const temporalScore = calcTemporalScore(change.date, brk.detectedDate, config.maxTemporalDistanceDays);
-  const categoryRelevanceScore = calcCategoryRelevance(change.category, brk.fromStage, brk.toStage);
+function scoreCandidate(
+  change: Change,
+  brk: Break,
+  allChanges: Change[],
+  revert: Change | undefined,
+  config: CauseAnalyzerConfig,
+  matrix: RelevanceMatrix,
+  stageOrder: readonly string[],
+  affectedFunnels: number,
+  causalIndex?: SeriesIndex
+): CauseCandidate {
+  const temporalScore = Math.max(...effectBoundaries(change, revert)
+    .map((date) => calcTemporalScore(date, anchorDate(brk, config), config.maxTemporalDistanceDays)));
+  const stageRelevance = brk.breakType === BreakType.VOLUME
+    ? calcVolumeRelevance(change.category, brk.fromStage, matrix)
+    : calcCategoryRelevance(change.category, brk.fromStage, brk.toStage, stageOrder, matrix);
+  const categoryRelevanceScore = brk.direction === BreakDirection.INCREASE
+    ? adjustRelevanceForIncrease(change.category, stageRelevance)
+    : stageRelevance;
   const severityScore = calcSeverityScore(change.severity);
-  const stageMatchBonus = calcStageMatchBonus(change, brk);
+  const stageMatchBonus = calcStageMatchBonus(change, brk, stageOrder);
+  const wildcardBoost = change.funnelId === WILDCARD_FUNNEL_ID
+    ? Math.min(config.maxWildcardBoost, config.wildcardBoostPerFunnel * (affectedFunnels - 1))
+    : 0;
+  const revertBoost = revert && isRecoveryAfterRevert(brk, revert.date, config.revertRecoveryDays)
+    ? config.revertRecoveryBoost
+    : undefined;
+  const rolloutFactor = calcRolloutFactor(change.rolloutPercent, brk);
 
-  const confidence = Math.min(1.0, Math.max(0.0,
+  const baseConfidence = Math.min(1.0, Math.max(0.0,
     temporalScore * config.temporalWeight +
     categoryRelevanceScore * config.categoryWeight +
     severityScore * config.severityWeight +
-    stageMatchBonus * config.stageMatchWeight
+    stageMatchBonus * config.stageMatchWeight +
+    wildcardBoost +
+    (revertBoost ?? 0)
   ));
 
+  const causalEstimate = causalIndex && estimateCausalEffect(change, brk, allChanges, causalIndex, {
+    windowDays: config.causalWindowDays,
+    minControlFunnels: config.minControlFunnels,
+  });
+  const causalScore = causalEstimate && calcCausalScore(causalEstimate, brk.direction);
+  const blendedConfidence = causalScore === undefined
+    ? baseConfidence
+    : (1 - config.causalWeight) * baseConfidence + config.causalWeight * causalScore;
+  const confidence = blendedConfidence * (rolloutFactor ?? 1);
+
   return {
     changeId: change.id ?? "",
     changeDescription: change.description,
@@ -113,28 +330,127 @@ function scoreCandidate(change: Change, brk: Break, config: CauseAnalyzerConfig)
     changeDate: change.date,
     changeSeverity: change.severity,
     confidence,
-    scoreBreakdown: { temporalScore, categoryRelevanceScore, severityScore, stageMatchBonus },
+    scoreBreakdown: {
+      temporalScore,
+      categoryRelevanceScore,
+      severityScore,
+      stageMatchBonus,
+      wildcardBoost,
+      ...(causalScore !== undefined && { causalScore }),
+      ...(revertBoost !== undefined && { revertBoost }),
+      ...(rolloutFactor !== undefined && { rolloutFactor }),
+    },
+    ...(causalEstimate && { causalEstimate }),
+    ...(revert && { revertDate: revert.date }),
   };
 }
 
+/** The earliest change reverting each change id. */
+function indexReverts(changes: Change[]): Map<string, Change> {
+  const reverts = new Map<string, Change>();
+  for (const change of changes) {
+    if (change.revertsChangeId === undefined) continue;
+    const earlier = reverts.get(change.revertsChangeId);
+    if (!earlier || change.date < earlier.date) reverts.set(change.revertsChangeId, change);
+  }
+  return reverts;
+}
+
+function revertOf(change: Change, reverts: Map<string, Change>): Change | undefined {
+  return change.id !== undefined ? reverts.get(change.id) : undefined;
+}
+
+function anchorDate(brk: Break, config: CauseAnalyzerConfig): string {
+  return config.temporalAnchor === "onset" ? brk.onsetDate : brk.detectedDate;
+}
+
+/** Days the change's effect began and, once it ran out or was reverted, stopped. */
+function effectBoundaries(change: Change, revert: Change | undefined): string[] {
+  const stops = [change.endDate && addDays(change.endDate, 1), revert?.date]
+    .filter((date): date is string => !!date)
+    .sort();
+  return stops.length > 0 ? [change.date, stops[0]] : [change.date];
+}
+
+function isRecoveryAfterRevert(brk: Break, revertDate: string, maxDays: number): boolean {
+  if (!brk.recoveryDate || revertDate < brk.onsetDate) return false;
+  const gap = daysDiff(revertDate, brk.recoveryDate);
+  return gap >= 0 && gap <= maxDays;
+}
+
+/**
+ * How much of the break a partial rollout could explain: a change reaching 5% of traffic
+ * accounts for at most a 5% shift, however badly it broke. Unset for full rollouts.
+ */
+function calcRolloutFactor(rolloutPercent: number | undefined, brk: Break): number | undefined {
+  if (rolloutPercent === undefined || rolloutPercent >= 100) return undefined;
+  const shift = Math.abs(brk.relativeDrop);
+  return shift > 0 ? Math.min(1, rolloutPercent / 100 / shift) : 1;
+}
+
 function calcTemporalScore(changeDate: string, breakDate: string, maxDays: number): number {
   const gap = daysDiff(changeDate, breakDate);
   if (gap < 0 || gap > maxDays) return 0;
   return Math.exp(-0.5 * gap);
 }
 
-function calcCategoryRelevance(category: ChangeCategory, fromStage: FunnelStage, toStage: FunnelStage): number {
-  const key = `${fromStage}->${toStage}`;
-  return CATEGORY_STAGE_RELEVANCE[category]?.[key] ?? 0.3;
+/** Non-adjacent transitions without their own score take the most relevant spanned step. */
+function calcCategoryRelevance(
+  category: string,
+  fromStage: string,
+  toStage: string,
+  stageOrder: readonly string[],
+  matrix: RelevanceMatrix
+): number {
+  const profile = profileOf(category, matrix);
+  const lookup = (key: string): number | undefined => profile?.[key];
+
+  const direct = lookup(`${fromStage}->${toStage}`);
+  if (direct !== undefined) return direct;
+
+  const spanned = spannedTransitionKeys(fromStage, toStage, stageOrder)
+    .map(lookup)
+    .filter((score): score is number => score !== undefined);
+  return spanned.length > 0 ? Math.max(...spanned) : matrix.fallback;
+}
+
+/** Scores for volume breaks are keyed by the bare stage name. */
+function calcVolumeRelevance(category: string, stage: string, matrix: RelevanceMatrix): number {
+  return profileOf(category, matrix)?.[stage] ?? volumeOf(category, matrix) ?? matrix.fallback;
+}
+
+/** Undeclared subcategories, e.g. of stored changes, score like their nearest known ancestor. */
+function profileOf(category: string, matrix: RelevanceMatrix): Record<string, number> | undefined {
+  for (let c: string | undefined = category; c !== undefined; c = parentCategory(c)) {
+    if (matrix.stages[c]) return matrix.stages[c];
+  }
+  return undefined;
+}
+
+function volumeOf(category: string, matrix: RelevanceMatrix): number | undefined {
+  for (let c: string | undefined = category; c !== undefined; c = parentCategory(c)) {
+    if (matrix.volume[c] !== undefined) return matrix.volume[c];
+  }
+  return undefined;
+}
+
+function adjustRelevanceForIncrease(category: string, stageRelevance: number): number {
+  if (rootCategory(category) === ChangeCategory.TRACKING) return Math.max(stageRelevance, INCREASE_TRACKING_RELEVANCE);
+  return stageRelevance * INCREASE_OTHER_RELEVANCE_FACTOR;
 }
 
 function calcSeverityScore(severity: number): number {
   return (Math.min(5, Math.max(1, severity)) - 1) / 4;
 }
 
-function calcStageMatchBonus(change: Change, brk: Break): number {
+function calcStageMatchBonus(change: Change, brk: Break, stageOrder: readonly string[]): number {
   if (!change.affectedStages || change.affectedStages.length === 0) return 0;
-  return change.affectedStages.some((s) => s === brk.fromStage || s === brk.toStage) ? 0.2 : 0;
+  const fromIdx = stageOrder.indexOf(brk.fromStage);
+  const toIdx = stageOrder.indexOf(brk.toStage);
+  const breakStages = fromIdx >= 0 && toIdx > fromIdx
+    ? stageOrder.slice(fromIdx, toIdx + 1)
+    : [brk.fromStage, brk.toStage];
+  return change.affectedStages.some((s) => breakStages.includes(s)) ? 0.2 : 0;
 }
 
 function determineStatus(causes: CauseCandidate[]): DiagnosisStatus {
@@ -143,13 +459,25 @@ function determineStatus(causes: CauseCandidate[]): DiagnosisStatus {
   return DiagnosisStatus.UNCERTAIN;
 }
 
+function describeLocation(brk: Break): string {
+  if (brk.transitionKind === TransitionKind.STAGE) return `${brk.fromStage} stage`;
+  if (brk.transitionKind === TransitionKind.ADJACENT) return `${brk.fromStage} -> ${brk.toStage}`;
+  return `${brk.fromStage} -> ${brk.toStage} (${brk.transitionKind.replace(/_/g, "-")})`;
+}
+
+function describeBreak(brk: Break): string {
+  const changePct = (Math.abs(brk.relativeDrop) * 100).toFixed(1);
+  const change = brk.direction === BreakDirection.INCREASE ? "increase" : "drop";
+  return `[${brk.severity.toUpperCase()}] ${changePct}% ${brk.breakType} ${change} detected in "${brk.funnelId}" at ${describeLocation(brk)} on ${brk.detectedDate}.`;
+}
+
 function generateSummary(brk: Break, causes: CauseCandidate[], status: DiagnosisStatus): string {
-  const dropPct = (brk.relativeDrop * 100).toFixed(1);
-  const transition = `${brk.fromStage} -> ${brk.toStage}`;
-  const header = `[${brk.severity.toUpperCase()}] ${dropPct}% conversion drop detected in "${brk.funnelId}" at ${transition} on ${brk.detectedDate}.`;
+  const isIncrease = brk.direction === BreakDirection.INCREASE;
+  const header = describeBreak(brk);
 
   if (status === DiagnosisStatus.UNKNOWN) {
-    return `${header} No candidate causes found within the analysis window.`;
+    const hint = isIncrease ? " Check tracking for duplicated or double-fired events." : "";
+    return `${header} No candidate causes found within the analysis window.${hint}`;
   }
 
   const topCause = causes[0];
@@ -0,0 +1,152 @@
+import { BreakDetectorConfig } from "../entities";
+import { RateDataPoint, SeriesShift } from "./BreakDetector";
+import { BreakDirection } from "../entities/Diagnosis";
+import { mean, stddev, weekdayFactors } from "../../utils/stats";
+
+interface ChangePoint {
+  /** Index of the first point of the new level. */
+  onset: number;
+  /** Index at which the cumulative sum crossed the threshold. */
+  alarm: number;
+  /** Index where the pre-change segment starts. */
+  segmentStart: number;
+  direction: BreakDirection;
+}
+
+/**
+ * Two-sided tabular CUSUM. Each segment is standardized against its first
+ * minBaselineDataPoints usable days; once a sum crosses cusumThreshold the onset is
+ * the best two-level split of the segment up to the alarm, and monitoring restarts
+ * from that onset. Consecutive change points in the same direction (a gradual
+ * decline) form one shift: the level before the first against the level after the last.
+ * Upward change points are always tracked so a drop ends where the level recovers;
+ * detectBreaks only reports them as breaks when detectIncreases is on.
+ */
+export function detectChangePoints(timeSeries: RateDataPoint[], config: BreakDetectorConfig): SeriesShift[] {
+  const points = timeSeries.filter((dp) => !dp.excludeFromBaseline);
+  const changePoints: ChangePoint[] = [];
+
+  let segmentStart = 0;
+  while (segmentStart < points.length) {
+    const changePoint = findNextChangePoint(points, segmentStart, config);
+    if (!changePoint) break;
+    changePoints.push(changePoint);
+    segmentStart = changePoint.onset;
+  }
+
+  const shifts: SeriesShift[] = [];
+  let first = 0;
+  while (first < changePoints.length) {
+    let last = first;
+    while (last + 1 < changePoints.length && changePoints[last + 1].direction === changePoints[first].direction) {
+      last++;
+    }
+    const { onset, alarm, segmentStart: start } = changePoints[first];
+    const afterStart = changePoints[last].onset;
+    const afterEnd = last + 1 < changePoints.length ? changePoints[last + 1].onset : points.length;
+    const shift = compareLevels(points.slice(start, onset), points.slice(afterStart, afterEnd), config);
+    if (shift) {
+      shifts.push({
+        detectedDate: points[alarm].date,
+        onsetDate: points[onset].date,
+        lastSeenDate: points[afterEnd - 1].date,
+        ...shift,
+      });
+    }
+    first = last + 1;
+  }
+
+  return shifts;
+}
+
+/** Scan from segmentStart for the first downward or upward alarm. */
+function findNextChangePoint(
+  points: RateDataPoint[],
+  segmentStart: number,
+  config: BreakDetectorConfig
+): ChangePoint | null {
+  const referenceEnd = segmentStart + config.minBaselineDataPoints;
+  if (referenceEnd > points.length) return null;
+
+  const reference = points.slice(segmentStart, referenceEnd);
+  const { level, factorOf, spread } = describeLevel(reference, config);
+  if (level === 0) return null;
+
+  const values = points.map((dp) => dp.rate / factorOf(dp));
+  let lower = 0;
+  let upper = 0;
+
+  for (let i = referenceEnd; i < points.length; i++) {
+    const z = (values[i] - level) / spread;
+
+    lower = Math.max(0, lower - z - config.cusumDrift);
+    if (lower > config.cusumThreshold) {
+      const onset = refineOnset(values, segmentStart, i);
+      return { onset, alarm: i, segmentStart, direction: BreakDirection.DROP };
+    }
+
+    upper = Math.max(0, upper + z - config.cusumDrift);
+    if (upper > config.cusumThreshold) {
+      const onset = refineOnset(values, segmentStart, i);
+      return { onset, alarm: i, segmentStart, direction: BreakDirection.INCREASE };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split point that best separates values[segmentStart..alarm] into two levels
+ * (largest n1*n2/(n1+n2) * squared mean difference). May fall inside the reference
+ * days when the previous level was shorter than minBaselineDataPoints.
+ */
+function refineOnset(values: number[], segmentStart: number, alarm: number): number {
+  let best = alarm;
+  let bestScore = -1;
+  for (let split = segmentStart + 1; split <= alarm; split++) {
+    const before = values.slice(segmentStart, split);
+    const after = values.slice(split, alarm + 1);
+    const score = (before.length * after.length) / (before.length + after.length) * (mean(before) - mean(after)) ** 2;
+    if (score > bestScore) {
+      best = split;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Before/after level comparison in the same terms as the window stddev test. */
+function compareLevels(
+  before: RateDataPoint[],
+  after: RateDataPoint[],
+  config: BreakDetectorConfig
+): Omit<SeriesShift, "detectedDate" | "onsetDate" | "lastSeenDate"> | null {
+  if (before.length === 0 || after.length === 0) return null;
+
+  const { level, factorOf, spread } = describeLevel(before, config);
+  if (level === 0) return null;
+
+  const adjustedAfter = mean(after.map((dp) => dp.rate / factorOf(dp)));
+  const zScore = (level - adjustedAfter) / spread;
+
+  return {
+    baselineRate: level,
+    expectedRate: config.seasonality === "day-of-week"
+      ? mean(after.map((dp) => level * factorOf(dp)))
+      : level,
+    currentRate: mean(after.map((dp) => dp.rate)),
+    zScore,
+    significant: Math.abs(zScore) >= config.minZScore,
+  };
+}
+
+/** Mean level, weekday factors (identity without seasonality) and floored deseasonalized spread. */
+function describeLevel(points: RateDataPoint[], config: BreakDetectorConfig) {
+  const level = mean(points.map((dp) => dp.rate));
+  const factors = config.seasonality === "day-of-week" && level > 0
+    ? weekdayFactors(points, level)
+    : new Map<number, number>();
+  const factorOf = (dp: RateDataPoint) => factors.get(dp.weekday) || 1;
+  const spread = Math.max(stddev(points.map((dp) => dp.rate / factorOf(dp))), 0.01);
+  return { level, factorOf, spread };
+}
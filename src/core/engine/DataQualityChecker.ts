@@ -0,0 +1,219 @@
+import {
+  ConversionRates,
+  DataQualityFinding,
+  DataQualityIssue,
+  Event,
+  FunnelSnapshot,
+} from "../entities";
+import { addDays, daysDiff } from "../../utils/time";
+
+export interface DataQualityConfig {
+  /** Consecutive zero days before a previously active stage counts as stuck. */
+  minZeroRunDays: number;
+  /** Days a source must have reported before its absence is flagged. */
+  minSourceActiveDays: number;
+}
+
+export const DEFAULT_DATA_QUALITY_CONFIG: DataQualityConfig = {
+  minZeroRunDays: 2,
+  minSourceActiveDays: 3,
+};
+
+interface DateRun {
+  startDate: string;
+  endDate: string;
+  days: number;
+}
+
+/** Find tracking gaps and impossible counts that should not be read as funnel behaviour. */
+export function checkDataQuality(
+  events: Event[],
+  snapshots: FunnelSnapshot[],
+  conversionRates: ConversionRates[],
+  config?: Partial<DataQualityConfig>
+): DataQualityFinding[] {
+  const cfg = { ...DEFAULT_DATA_QUALITY_CONFIG, ...config };
+
+  const findings = [
+    ...findMissingDates(snapshots),
+    ...findZeroStages(snapshots, cfg),
+    ...findImpossibleRates(conversionRates),
+    ...findDisappearedSources(events, cfg),
+  ];
+
+  return findings.sort((a, b) => {
+    if (a.funnelId !== b.funnelId) return a.funnelId.localeCompare(b.funnelId);
+    return a.startDate.localeCompare(b.startDate);
+  });
+}
+
+/** Dates covered by a finding, inclusive. */
+export function findingDates(finding: DataQualityFinding): string[] {
+  const dates: string[] = [];
+  for (let d = finding.startDate; d <= finding.endDate; d = addDays(d, 1)) {
+    dates.push(d);
+  }
+  return dates;
+}
+
+/** Calendar gaps between a funnel's first and last reported day. */
+function findMissingDates(snapshots: FunnelSnapshot[]): DataQualityFinding[] {
+  const findings: DataQualityFinding[] = [];
+
+  for (const [funnelId, funnelSnapshots] of groupByFunnel(snapshots)) {
+    for (let i = 1; i < funnelSnapshots.length; i++) {
+      const prev = funnelSnapshots[i - 1].date;
+      const curr = funnelSnapshots[i].date;
+      const gap = daysDiff(prev, curr);
+      if (gap <= 1) continue;
+
+      const startDate = addDays(prev, 1);
+      const endDate = addDays(curr, -1);
+      findings.push({
+        issue: DataQualityIssue.MISSING_DATES,
+        funnelId,
+        startDate,
+        endDate,
+        message: `No data from ${startDate} to ${endDate} (${gap - 1} day${gap - 1 === 1 ? "" : "s"})`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/** Stages that reported before and then sit at zero for minZeroRunDays or more. */
+function findZeroStages(snapshots: FunnelSnapshot[], config: DataQualityConfig): DataQualityFinding[] {
+  const findings: DataQualityFinding[] = [];
+
+  for (const [funnelId, funnelSnapshots] of groupByFunnel(snapshots)) {
+    const stages = [...new Set(funnelSnapshots.flatMap((s) => Object.keys(s.stageCounts)))];
+
+    for (const stage of stages) {
+      const firstActive = funnelSnapshots.findIndex((s) => (s.stageCounts[stage] ?? 0) > 0);
+      if (firstActive < 0) continue;
+
+      const runs = collectRuns(funnelSnapshots.slice(firstActive), (s) => (s.stageCounts[stage] ?? 0) === 0);
+      for (const run of runs.filter((r) => r.days >= config.minZeroRunDays)) {
+        findings.push({
+          issue: DataQualityIssue.STAGE_ZERO,
+          funnelId,
+          stage,
+          startDate: run.startDate,
+          endDate: run.endDate,
+          message: `Stage "${stage}" reported 0 for ${run.days} days (${run.startDate} to ${run.endDate})`,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/** Days where a later stage outnumbers a reporting earlier one, e.g. a double-firing pixel. */
+function findImpossibleRates(conversionRates: ConversionRates[]): DataQualityFinding[] {
+  const findings: DataQualityFinding[] = [];
+
+  for (const [funnelId, funnelRates] of groupByFunnel(conversionRates)) {
+    const transitions = new Map<string, { fromStage: string; toStage: string }>();
+    for (const cr of funnelRates) {
+      for (const { fromStage, toStage } of cr.rates) {
+        transitions.set(`${fromStage}->${toStage}`, { fromStage, toStage });
+      }
+    }
+
+    for (const { fromStage, toStage } of transitions.values()) {
+      const runs = collectRuns(funnelRates, (cr) => {
+        const entry = cr.rates.find((r) => r.fromStage === fromStage && r.toStage === toStage);
+        return entry !== undefined && entry.fromCount > 0 && entry.toCount > entry.fromCount;
+      });
+      for (const run of runs) {
+        findings.push({
+          issue: DataQualityIssue.IMPOSSIBLE_RATE,
+          funnelId,
+          fromStage,
+          toStage,
+          startDate: run.startDate,
+          endDate: run.endDate,
+          message: `"${toStage}" exceeded "${fromStage}" on ${run.days} day${run.days === 1 ? "" : "s"} (${run.startDate} to ${run.endDate})`,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/** Sources that reported for a while and then stopped while the funnel kept reporting. */
+function findDisappearedSources(events: Event[], config: DataQualityConfig): DataQualityFinding[] {
+  const findings: DataQualityFinding[] = [];
+
+  for (const [funnelId, funnelEvents] of groupByFunnel(events)) {
+    const funnelLastDate = funnelEvents.reduce((max, e) => (e.date > max ? e.date : max), "");
+    const sourceDates = new Map<string, Set<string>>();
+    const sourceStages = new Map<string, Set<string>>();
+    for (const e of funnelEvents) {
+      if (!e.source) continue;
+      if (!sourceDates.has(e.source)) {
+        sourceDates.set(e.source, new Set());
+        sourceStages.set(e.source, new Set());
+      }
+      sourceDates.get(e.source)!.add(e.date);
+      sourceStages.get(e.source)!.add(e.stage);
+    }
+
+    for (const [source, dates] of sourceDates) {
+      if (dates.size < config.minSourceActiveDays) continue;
+      const sourceLastDate = [...dates].sort().pop()!;
+      if (sourceLastDate >= funnelLastDate) continue;
+
+      const startDate = addDays(sourceLastDate, 1);
+      findings.push({
+        issue: DataQualityIssue.SOURCE_DISAPPEARED,
+        funnelId,
+        source,
+        sourceStages: [...sourceStages.get(source)!],
+        startDate,
+        endDate: funnelLastDate,
+        message: `Source "${source}" stopped reporting after ${sourceLastDate}`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/** Runs of consecutive entries (in date order) matching the predicate. */
+function collectRuns<T extends { date: string }>(items: T[], predicate: (item: T) => boolean): DateRun[] {
+  const runs: DateRun[] = [];
+  let current: DateRun | null = null;
+
+  for (const item of items) {
+    if (predicate(item)) {
+      if (current) {
+        current.endDate = item.date;
+        current.days++;
+      } else {
+        current = { startDate: item.date, endDate: item.date, days: 1 };
+      }
+    } else if (current) {
+      runs.push(current);
+      current = null;
+    }
+  }
+  if (current) runs.push(current);
+
+  return runs;
+}
+
+function groupByFunnel<T extends { funnelId: string; date: string }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    if (!groups.has(item.funnelId)) groups.set(item.funnelId, []);
+    groups.get(item.funnelId)!.push(item);
+  }
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.date.localeCompare(b.date));
+  }
+  return groups;
+}
@@ -1,18 +1,39 @@
 import {
   Event,
-  FunnelStage,
   FunnelSnapshot,
   ConversionRates,
-  STAGE_ORDER,
+  FunnelDefinition,
+  TransitionKind,
+  resolveStageOrder,
 } from "../entities";
 
-export function buildSnapshots(events: Event[]): FunnelSnapshot[] {
-  const grouped = new Map<string, Map<FunnelStage, number>>();
+export interface TransitionSpec {
+  fromStage: string;
+  toStage: string;
+  /** Restrict to one funnel; applies to every funnel containing both stages when omitted. */
+  funnelId?: string;
+}
+
+export interface TransitionConfig {
+  extraTransitions: TransitionSpec[];
+  includeEndToEnd: boolean;
+}
+
+export const DEFAULT_TRANSITION_CONFIG: TransitionConfig = {
+  extraTransitions: [],
+  includeEndToEnd: false,
+};
+
+export function buildSnapshots(
+  events: Event[],
+  definitions: FunnelDefinition[] = []
+): FunnelSnapshot[] {
+  const grouped = new Map<string, Map<string, number>>();
 
   for (const event of events) {
     const key = `${event.funnelId}|${event.date}`;
     if (!grouped.has(key)) {
-      grouped.set(key, new Map<FunnelStage, number>());
+      grouped.set(key, new Map<string, number>());
     }
     const stageCounts = grouped.get(key)!;
     const existing = stageCounts.get(event.stage) ?? 0;
@@ -23,8 +44,8 @@ export function buildSnapshots(events: Event[]): FunnelSnapshot[] {
 
   for (const [key, stageCounts] of grouped) {
     const [funnelId, date] = key.split("|");
-    const counts = {} as Record<FunnelStage, number>;
-    for (const stage of STAGE_ORDER) {
+    const counts: Record<string, number> = {};
+    for (const stage of resolveStageOrder(funnelId, definitions)) {
       counts[stage] = stageCounts.get(stage) ?? 0;
     }
     snapshots.push({ date, funnelId, stageCounts: counts });
@@ -38,18 +59,23 @@ export function buildSnapshots(events: Event[]): FunnelSnapshot[] {
   return snapshots;
 }
 
-export function calculateConversionRates(snapshots: FunnelSnapshot[]): ConversionRates[] {
+export function calculateConversionRates(
+  snapshots: FunnelSnapshot[],
+  definitions: FunnelDefinition[] = [],
+  config?: Partial<TransitionConfig>
+): ConversionRates[] {
+  const cfg = { ...DEFAULT_TRANSITION_CONFIG, ...config };
+
   return snapshots.map((snapshot) => {
+    const stageOrder = resolveStageOrder(snapshot.funnelId, definitions);
     const rates: ConversionRates["rates"] = [];
 
-    for (let i = 0; i < STAGE_ORDER.length - 1; i++) {
-      const fromStage = STAGE_ORDER[i];
-      const toStage = STAGE_ORDER[i + 1];
-      const fromCount = snapshot.stageCounts[fromStage];
-      const toCount = snapshot.stageCounts[toStage];
+    for (const { fromStage, toStage, kind } of resolveTransitions(snapshot.funnelId, stageOrder, cfg)) {
+      const fromCount = snapshot.stageCounts[fromStage] ?? 0;
+      const toCount = snapshot.stageCounts[toStage] ?? 0;
       const rate = fromCount > 0 ? toCount / fromCount : 0;
 
-      rates.push({ fromStage, toStage, rate, fromCount, toCount });
+      rates.push({ fromStage, toStage, kind, rate, fromCount, toCount });
     }
 
     return {
@@ -59,3 +85,46 @@ export function calculateConversionRates(snapshots: FunnelSnapshot[]): Conversio
     };
   });
 }
+
+/** Adjacent pairs first, then configured extra pairs that fit the funnel's stage order. */
+function resolveTransitions(
+  funnelId: string,
+  stageOrder: readonly string[],
+  config: TransitionConfig
+): { fromStage: string; toStage: string; kind: TransitionKind }[] {
+  const transitions: { fromStage: string; toStage: string; kind: TransitionKind }[] = [];
+  const seen = new Set<string>();
+
+  const add = (fromIdx: number, toIdx: number) => {
+    if (fromIdx < 0 || toIdx <= fromIdx) return;
+    const key = `${fromIdx}->${toIdx}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    transitions.push({
+      fromStage: stageOrder[fromIdx],
+      toStage: stageOrder[toIdx],
+      kind: classifyTransition(fromIdx, toIdx, stageOrder.length),
+    });
+  };
+
+  for (let i = 0; i < stageOrder.length - 1; i++) {
+    add(i, i + 1);
+  }
+
+  for (const spec of config.extraTransitions) {
+    if (spec.funnelId !== undefined && spec.funnelId !== funnelId) continue;
+    add(stageOrder.indexOf(spec.fromStage), stageOrder.indexOf(spec.toStage));
+  }
+
+  if (config.includeEndToEnd) {
+    add(0, stageOrder.length - 1);
+  }
+
+  return transitions;
+}
+
+function classifyTransition(fromIdx: number, toIdx: number, stageCount: number): TransitionKind {
+  if (toIdx - fromIdx === 1) return TransitionKind.ADJACENT;
+  if (fromIdx === 0 && toIdx === stageCount - 1) return TransitionKind.END_TO_END;
+  return TransitionKind.SKIP;
+}
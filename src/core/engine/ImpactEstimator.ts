@@ -0,0 +1,142 @@
+import { FunnelSnapshot } from "../entities/Event";
+import { FunnelDefinition, resolveStageOrder } from "../entities/Funnel";
+import { Break, BreakDirection, BreakImpact, BreakSeverity, BreakType } from "../entities/Diagnosis";
+import { addDays } from "../../utils/time";
+
+export interface ImpactConfig {
+  /**
+   * Value of one conversion into a stage, e.g. { purchase: 80 } for an average order value
+   * or { lead: 12 } for a lead value. Only the deepest valued stage is counted.
+   */
+  stageValues: Record<string, number>;
+  /** Days before onset whose stage counts give the downstream conversion rates. */
+  baselineWindowDays: number;
+}
+
+export const DEFAULT_IMPACT_CONFIG: ImpactConfig = {
+  stageValues: {},
+  baselineWindowDays: 14,
+};
+
+/** Global settings plus per-funnel overrides; funnel stage values extend the global ones. */
+export interface LayeredImpactConfig extends Partial<ImpactConfig> {
+  funnels?: Record<string, Partial<ImpactConfig>>;
+}
+
+/** detected keeps detection order; impact ranks by lost revenue, then lost final-stage conversions. */
+export type BreakRanking = "detected" | "severity" | "impact";
+
+const SEVERITY_RANK: Record<BreakSeverity, number> = {
+  [BreakSeverity.CRITICAL]: 2,
+  [BreakSeverity.SIGNIFICANT]: 1,
+  [BreakSeverity.WARNING]: 0,
+};
+
+export function resolveImpactConfig(config: LayeredImpactConfig | undefined, funnelId: string): ImpactConfig {
+  const { funnels, ...global } = config ?? {};
+  const base = { ...DEFAULT_IMPACT_CONFIG, ...global };
+  const funnel = funnels?.[funnelId];
+  if (!funnel) return base;
+  return { ...base, ...funnel, stageValues: { ...base.stageValues, ...funnel.stageValues } };
+}
+
+/**
+ * Attach the estimated impact to every drop. Each day from onset until recovery loses
+ * expected minus actual conversions (the expected rate applied to that day's fromCount,
+ * or the expected volume); the total is carried to later stages at the rates seen over
+ * the baseline window before onset.
+ */
+export function estimateImpact(
+  breaks: Break[],
+  snapshots: FunnelSnapshot[],
+  definitions: FunnelDefinition[] = [],
+  config?: LayeredImpactConfig
+): Break[] {
+  const byFunnel = new Map<string, FunnelSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const funnelSnapshots = byFunnel.get(snapshot.funnelId);
+    if (funnelSnapshots) funnelSnapshots.push(snapshot);
+    else byFunnel.set(snapshot.funnelId, [snapshot]);
+  }
+
+  return breaks.map((brk) => {
+    if (brk.direction !== BreakDirection.DROP) return brk;
+    const cfg = resolveImpactConfig(config, brk.funnelId);
+    const stageOrder = resolveStageOrder(brk.funnelId, definitions);
+    const impact = calcImpact(brk, byFunnel.get(brk.funnelId) ?? [], stageOrder, cfg);
+    return { ...brk, impact };
+  });
+}
+
+/** Comparator ordering breaks most important first. */
+export function compareBreaks(ranking: BreakRanking): (a: Break, b: Break) => number {
+  const bySeverity = (a: Break, b: Break) =>
+    SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || Math.abs(b.relativeDrop) - Math.abs(a.relativeDrop);
+
+  switch (ranking) {
+    case "detected":
+      return (a, b) => a.detectedDate.localeCompare(b.detectedDate);
+    case "severity":
+      return bySeverity;
+    case "impact":
+      return (a, b) =>
+        (b.impact?.lostRevenue ?? 0) - (a.impact?.lostRevenue ?? 0) ||
+        finalStageLoss(b.impact) - finalStageLoss(a.impact) ||
+        bySeverity(a, b);
+  }
+}
+
+/** Lost conversions at the last stage the impact reaches. */
+export function finalStageLoss(impact: BreakImpact | undefined): number {
+  const losses = Object.values(impact?.lostByStage ?? {});
+  return losses.length > 0 ? losses[losses.length - 1] : 0;
+}
+
+function calcImpact(
+  brk: Break,
+  snapshots: FunnelSnapshot[],
+  stageOrder: readonly string[],
+  config: ImpactConfig
+): BreakImpact {
+  const stage = brk.breakType === BreakType.VOLUME ? brk.fromStage : brk.toStage;
+  const baselineStart = addDays(brk.onsetDate, -config.baselineWindowDays);
+
+  let days = 0;
+  let lost = 0;
+  const baselineCounts: Record<string, number> = {};
+  for (const { date, stageCounts } of snapshots) {
+    if (date >= brk.onsetDate && (!brk.recoveryDate || date < brk.recoveryDate)) {
+      const actual = stageCounts[stage] ?? 0;
+      const expected = brk.breakType === BreakType.VOLUME
+        ? brk.expectedRate
+        : brk.expectedRate * (stageCounts[brk.fromStage] ?? 0);
+      lost += expected - actual;
+      days++;
+    } else if (date >= baselineStart && date < brk.onsetDate) {
+      for (const [name, count] of Object.entries(stageCounts)) {
+        baselineCounts[name] = (baselineCounts[name] ?? 0) + count;
+      }
+    }
+  }
+  const lostConversions = Math.max(0, lost);
+
+  const lostByStage: Record<string, number> = { [stage]: lostConversions };
+  const stageBaseline = baselineCounts[stage] ?? 0;
+  const stageIndex = stageOrder.indexOf(stage);
+  if (stageIndex >= 0 && stageBaseline > 0) {
+    for (const downstream of stageOrder.slice(stageIndex + 1)) {
+      lostByStage[downstream] = lostConversions * ((baselineCounts[downstream] ?? 0) / stageBaseline);
+    }
+  }
+
+  const revenueStage = Object.keys(lostByStage).reverse().find((name) => config.stageValues[name] !== undefined);
+  return {
+    days,
+    lostConversions,
+    lostByStage,
+    ...(revenueStage !== undefined && {
+      lostRevenue: lostByStage[revenueStage] * config.stageValues[revenueStage],
+      revenueStage,
+    }),
+  };
+}
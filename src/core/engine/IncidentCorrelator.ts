@@ -0,0 +1,172 @@
+import {
+  Break,
+  BreakSeverity,
+  BreakType,
+  FunnelDefinition,
+  GlobalIncident,
+  Incident,
+  IncidentRole,
+  resolveStageOrder,
+} from "../entities";
+import { daysDiff } from "../../utils/time";
+
+export interface IncidentConfig {
+  /** Breaks whose onset falls within this many days of an incident's first onset join it. */
+  maxOnsetGapDays: number;
+  /** Distinct funnels breaking on the same transition needed for a global incident. */
+  minGlobalFunnels: number;
+}
+
+export const DEFAULT_INCIDENT_CONFIG: IncidentConfig = {
+  maxOnsetGapDays: 3,
+  minGlobalFunnels: 2,
+};
+
+const SEVERITY_RANK: Record<BreakSeverity, number> = {
+  [BreakSeverity.WARNING]: 0,
+  [BreakSeverity.SIGNIFICANT]: 1,
+  [BreakSeverity.CRITICAL]: 2,
+};
+
+/**
+ * Group breaks of the same funnel and direction whose onsets are close together into
+ * incidents. Each break is returned once, tagged with its incident and role.
+ */
+export function correlateBreaks(
+  breaks: Break[],
+  definitions: FunnelDefinition[] = [],
+  config?: Partial<IncidentConfig>
+): Incident[] {
+  const cfg = { ...DEFAULT_INCIDENT_CONFIG, ...config };
+  const groups = new Map<string, Break[]>();
+  for (const brk of breaks) {
+    const key = `${brk.funnelId}|${brk.direction}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(brk);
+  }
+
+  const incidents: Incident[] = [];
+
+  for (const [, groupBreaks] of groups) {
+    groupBreaks.sort((a, b) => a.onsetDate.localeCompare(b.onsetDate));
+    const stageOrder = resolveStageOrder(groupBreaks[0].funnelId, definitions);
+
+    let cluster: Break[] = [groupBreaks[0]];
+    for (let i = 1; i < groupBreaks.length; i++) {
+      const brk = groupBreaks[i];
+      if (daysDiff(cluster[0].onsetDate, brk.onsetDate) <= cfg.maxOnsetGapDays) {
+        cluster.push(brk);
+      } else {
+        incidents.push(buildIncident(cluster, stageOrder));
+        cluster = [brk];
+      }
+    }
+    incidents.push(buildIncident(cluster, stageOrder));
+  }
+
+  return incidents.sort((a, b) => a.onsetDate.localeCompare(b.onsetDate) || a.funnelId.localeCompare(b.funnelId));
+}
+
+/**
+ * Group breaks on the same transition (or stage volume) and direction across funnels
+ * whose onsets are close together. Clusters touching at least minGlobalFunnels funnels
+ * become global incidents; every break is returned, tagged when it belongs to one.
+ */
+export function correlateAcrossFunnels(
+  breaks: Break[],
+  config?: Partial<IncidentConfig>
+): { breaks: Break[]; globalIncidents: GlobalIncident[] } {
+  const cfg = { ...DEFAULT_INCIDENT_CONFIG, ...config };
+  const groups = new Map<string, Break[]>();
+  for (const brk of breaks) {
+    const key = `${brk.breakType}|${brk.fromStage}|${brk.toStage}|${brk.direction}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(brk);
+  }
+
+  const globalIncidents: GlobalIncident[] = [];
+  const tagged = new Map<Break, Break>();
+
+  const flush = (cluster: Break[]) => {
+    const funnelIds = [...new Set(cluster.map((b) => b.funnelId))].sort();
+    if (funnelIds.length < cfg.minGlobalFunnels) return;
+    const first = cluster[0];
+    const id = `global:${first.breakType}:${first.fromStage}->${first.toStage}:${first.direction}:${first.onsetDate}`;
+    const members = cluster.map((b) => ({ ...b, globalIncidentId: id }));
+    cluster.forEach((b, i) => tagged.set(b, members[i]));
+    globalIncidents.push({
+      id,
+      breakType: first.breakType,
+      fromStage: first.fromStage,
+      toStage: first.toStage,
+      direction: first.direction,
+      onsetDate: first.onsetDate,
+      severity: highestSeverity(cluster),
+      active: cluster.some((b) => b.active),
+      funnelIds,
+      breaks: members,
+    });
+  };
+
+  for (const [, groupBreaks] of groups) {
+    const sorted = [...groupBreaks].sort((a, b) => a.onsetDate.localeCompare(b.onsetDate));
+    let cluster: Break[] = [sorted[0]];
+    for (let i = 1; i < sorted.length; i++) {
+      if (daysDiff(cluster[0].onsetDate, sorted[i].onsetDate) <= cfg.maxOnsetGapDays) {
+        cluster.push(sorted[i]);
+      } else {
+        flush(cluster);
+        cluster = [sorted[i]];
+      }
+    }
+    flush(cluster);
+  }
+
+  return {
+    breaks: breaks.map((b) => tagged.get(b) ?? b),
+    globalIncidents: globalIncidents.sort((a, b) => a.onsetDate.localeCompare(b.onsetDate)),
+  };
+}
+
+function buildIncident(cluster: Break[], stageOrder: readonly string[]): Incident {
+  const ordered = [...cluster].sort((a, b) => compareUpstream(a, b, stageOrder));
+  const onsetDate = cluster[0].onsetDate;
+  const id = `${ordered[0].funnelId}:${ordered[0].direction}:${onsetDate}`;
+  const tag = (brk: Break, incidentRole: IncidentRole): Break => ({ ...brk, incidentId: id, incidentRole });
+
+  return {
+    id,
+    funnelId: ordered[0].funnelId,
+    direction: ordered[0].direction,
+    onsetDate,
+    severity: highestSeverity(cluster),
+    active: cluster.some((b) => b.active),
+    root: tag(ordered[0], IncidentRole.ROOT),
+    symptoms: ordered.slice(1).map((b) => tag(b, IncidentRole.SYMPTOM)),
+  };
+}
+
+function highestSeverity(breaks: Break[]): BreakSeverity {
+  return breaks.reduce<BreakSeverity>(
+    (max, b) => (SEVERITY_RANK[b.severity] > SEVERITY_RANK[max] ? b.severity : max),
+    BreakSeverity.WARNING
+  );
+}
+
+/**
+ * Upstream first: by the first stage whose count a break moves (toStage; volume
+ * breaks have toStage === fromStage), then rate before volume at that stage, then
+ * the narrowest rate (latest fromStage), then earliest onset.
+ */
+function compareUpstream(a: Break, b: Break, stageOrder: readonly string[]): number {
+  return stageIndex(a.toStage, stageOrder) - stageIndex(b.toStage, stageOrder)
+    || Number(a.breakType === BreakType.VOLUME) - Number(b.breakType === BreakType.VOLUME)
+    || stageIndex(b.fromStage, stageOrder) - stageIndex(a.fromStage, stageOrder)
+    || a.onsetDate.localeCompare(b.onsetDate);
+}
+
+/** Unknown stages sort after every known one. */
+function stageIndex(stage: string, stageOrder: readonly string[]): number {
+  const idx = stageOrder.indexOf(stage);
+  return idx < 0 ? stageOrder.length : idx;
+}
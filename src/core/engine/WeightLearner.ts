@@ -0,0 +1,233 @@
+import { BreakDirection, BreakType, LabeledCause } from "../entities";
+import { CauseAnalyzerConfig, DEFAULT_CAUSE_ANALYZER_CONFIG } from "./CauseAnalyzer";
+
+export interface WeightLearnerConfig {
+  /** Gradient descent steps of the logistic regression. */
+  iterations: number;
+  learningRate: number;
+  /** L2 penalty on the feature coefficients. */
+  l2: number;
+  /** Cross-validation folds over diagnoses; capped at the number of diagnoses. */
+  folds: number;
+  /** Pseudo-candidates pulling a relevance cell's confirmation rate towards the overall rate. */
+  relevancePriorStrength: number;
+}
+
+export const DEFAULT_WEIGHT_LEARNER_CONFIG: WeightLearnerConfig = {
+  iterations: 2000,
+  learningRate: 0.5,
+  l2: 0.01,
+  folds: 5,
+  relevancePriorStrength: 5,
+};
+
+export type LearnedScoringConfig = Pick<
+  CauseAnalyzerConfig,
+  "temporalWeight" | "categoryWeight" | "severityWeight" | "stageMatchWeight" | "customStageRelevance"
+>;
+
+export interface RankingMetrics {
+  /** Diagnoses with a confirmed cause that were ranked. */
+  diagnoses: number;
+  /** Share of them whose first-ranked cause is confirmed. */
+  top1: number;
+  /** Share of them with a confirmed cause among the first three. */
+  top3: number;
+}
+
+export interface WeightLearningResult {
+  /** Fitted on every example; usable as causeAnalyzer settings. */
+  config: LearnedScoringConfig;
+  /**
+   * Held-out ranking of the learned scoring against the ranking the diagnoses were
+   * reported with. folds is 1 when there were too few diagnoses to hold any out.
+   */
+  validation: { folds: number; learned: RankingMetrics; baseline: RankingMetrics };
+  examples: number;
+}
+
+interface ScoringModel {
+  /** temporal, category, severity, stage match; non-negative, summing to 1. */
+  weights: number[];
+  /** Learned relevance per category and "from->to" (or volume stage) cell. */
+  relevance: Map<string, number>;
+}
+
+/**
+ * Fit cause-scoring weights and a category relevance matrix to reviewed causes.
+ *
+ * Relevance: each category/transition cell's confirmation rate, smoothed towards the
+ * overall rate, scales the relevance the cell was scored with (drops only; increases are
+ * scored through the tracking override). Weights: a logistic regression of the label on
+ * the scoreBreakdown features, with negative coefficients dropped and the rest
+ * normalised to sum to 1 like the defaults.
+ */
+export function learnWeights(labels: LabeledCause[], config?: Partial<WeightLearnerConfig>): WeightLearningResult {
+  const cfg = { ...DEFAULT_WEIGHT_LEARNER_CONFIG, ...config };
+  const groups = groupByDiagnosis(labels);
+  const evaluable = groups.filter((g) => g.some((c) => c.label === 1));
+  if (evaluable.length === 0) {
+    throw new Error("Cannot learn weights: no diagnosis has a confirmed cause");
+  }
+
+  const folds = Math.min(cfg.folds, groups.length);
+  let learned: RankingMetrics;
+  if (folds < 2) {
+    const model = fitModel(labels, cfg);
+    learned = evaluateRanking(evaluable, (c) => scoreWith(model, c));
+  } else {
+    const heldOutScores = new Map<LabeledCause, number>();
+    for (let fold = 0; fold < folds; fold++) {
+      const model = fitModel(groups.filter((_, i) => i % folds !== fold).flat(), cfg);
+      for (const c of groups.filter((_, i) => i % folds === fold).flat()) {
+        heldOutScores.set(c, scoreWith(model, c));
+      }
+    }
+    learned = evaluateRanking(evaluable, (c) => heldOutScores.get(c)!);
+  }
+
+  const model = fitModel(labels, cfg);
+  const [temporalWeight, categoryWeight, severityWeight, stageMatchWeight] = model.weights.map(round);
+
+  return {
+    config: {
+      temporalWeight,
+      categoryWeight,
+      severityWeight,
+      stageMatchWeight,
+      customStageRelevance: toCustomStageRelevance(model.relevance),
+    },
+    validation: {
+      folds: Math.max(folds, 1),
+      learned,
+      baseline: evaluateRanking(evaluable, (c) => -c.rank),
+    },
+    examples: labels.length,
+  };
+}
+
+/** Diagnoses in id order, each with its candidates. */
+function groupByDiagnosis(labels: LabeledCause[]): LabeledCause[][] {
+  const groups = new Map<string, LabeledCause[]>();
+  for (const label of labels) {
+    const group = groups.get(label.diagnosisId);
+    if (group) group.push(label);
+    else groups.set(label.diagnosisId, [label]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => Number(a) - Number(b) || a.localeCompare(b))
+    .map(([, group]) => group);
+}
+
+function fitModel(examples: LabeledCause[], cfg: WeightLearnerConfig): ScoringModel {
+  const relevance = learnRelevance(examples, cfg.relevancePriorStrength);
+  const features = examples.map((c) => featuresOf(c, relevance));
+  const coefficients = fitLogistic(features, examples.map((c) => c.label), cfg);
+
+  const positive = coefficients.map((w) => Math.max(0, w));
+  const total = positive.reduce((sum, w) => sum + w, 0);
+  const weights = total > 0
+    ? positive.map((w) => w / total)
+    : [
+      DEFAULT_CAUSE_ANALYZER_CONFIG.temporalWeight,
+      DEFAULT_CAUSE_ANALYZER_CONFIG.categoryWeight,
+      DEFAULT_CAUSE_ANALYZER_CONFIG.severityWeight,
+      DEFAULT_CAUSE_ANALYZER_CONFIG.stageMatchWeight,
+    ];
+  return { weights, relevance };
+}
+
+function learnRelevance(examples: LabeledCause[], priorStrength: number): Map<string, number> {
+  const drops = examples.filter((c) => c.direction === BreakDirection.DROP);
+  const relevance = new Map<string, number>();
+  if (drops.length === 0) return relevance;
+
+  const overallRate = drops.filter((c) => c.label === 1).length / drops.length;
+  if (overallRate === 0) return relevance;
+
+  const cells = new Map<string, { confirmed: number; count: number; scoredWith: number }>();
+  for (const c of drops) {
+    const key = cellKey(c);
+    const cell = cells.get(key) ?? { confirmed: 0, count: 0, scoredWith: 0 };
+    cell.confirmed += c.label;
+    cell.count += 1;
+    cell.scoredWith += c.categoryRelevanceScore;
+    cells.set(key, cell);
+  }
+
+  for (const [key, cell] of cells) {
+    const smoothedRate = (cell.confirmed + priorStrength * overallRate) / (cell.count + priorStrength);
+    const prior = cell.scoredWith / cell.count;
+    relevance.set(key, Math.min(1, prior * (smoothedRate / overallRate)));
+  }
+  return relevance;
+}
+
+function featuresOf(c: LabeledCause, relevance: Map<string, number>): number[] {
+  const learnedRelevance = c.direction === BreakDirection.DROP ? relevance.get(cellKey(c)) : undefined;
+  return [c.temporalScore, learnedRelevance ?? c.categoryRelevanceScore, c.severityScore, c.stageMatchBonus];
+}
+
+/** Batch gradient descent on the log loss; returns the feature coefficients without the intercept. */
+function fitLogistic(features: number[][], labels: number[], cfg: WeightLearnerConfig): number[] {
+  const n = features.length;
+  const dims = features[0]?.length ?? 0;
+  const weights = new Array<number>(dims).fill(0);
+  let intercept = 0;
+
+  for (let iter = 0; iter < cfg.iterations; iter++) {
+    const gradient = new Array<number>(dims).fill(0);
+    let interceptGradient = 0;
+    for (let i = 0; i < n; i++) {
+      const z = intercept + features[i].reduce((sum, x, j) => sum + x * weights[j], 0);
+      const error = 1 / (1 + Math.exp(-z)) - labels[i];
+      for (let j = 0; j < dims; j++) gradient[j] += error * features[i][j];
+      interceptGradient += error;
+    }
+    for (let j = 0; j < dims; j++) {
+      weights[j] -= cfg.learningRate * (gradient[j] / n + cfg.l2 * weights[j]);
+    }
+    intercept -= cfg.learningRate * (interceptGradient / n);
+  }
+  return weights;
+}
+
+function scoreWith(model: ScoringModel, c: LabeledCause): number {
+  return featuresOf(c, model.relevance).reduce((sum, x, j) => sum + x * model.weights[j], 0) + c.wildcardBoost;
+}
+
+/** Rank each diagnosis's candidates by score (ties keep the reported order). */
+function evaluateRanking(groups: LabeledCause[][], score: (c: LabeledCause) => number): RankingMetrics {
+  let top1 = 0;
+  let top3 = 0;
+  for (const group of groups) {
+    const ranked = [...group].sort((a, b) => score(b) - score(a) || a.rank - b.rank);
+    if (ranked[0].label === 1) top1++;
+    if (ranked.slice(0, 3).some((c) => c.label === 1)) top3++;
+  }
+  return {
+    diagnoses: groups.length,
+    top1: groups.length > 0 ? top1 / groups.length : 0,
+    top3: groups.length > 0 ? top3 / groups.length : 0,
+  };
+}
+
+/** Volume breaks are keyed by bare stage, as in customStageRelevance. */
+function cellKey(c: LabeledCause): string {
+  const transition = c.breakType === BreakType.VOLUME ? c.fromStage : `${c.fromStage}->${c.toStage}`;
+  return `${c.changeCategory}|${transition}`;
+}
+
+function toCustomStageRelevance(relevance: Map<string, number>): CauseAnalyzerConfig["customStageRelevance"] {
+  const custom: CauseAnalyzerConfig["customStageRelevance"] = {};
+  for (const [key, value] of relevance) {
+    const separator = key.indexOf("|");
+    const category = key.slice(0, separator);
+    (custom[category] ??= {})[key.slice(separator + 1)] = round(value);
+  }
+  return custom;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
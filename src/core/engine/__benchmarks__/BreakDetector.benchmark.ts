@@ -0,0 +1,54 @@
+// Times detectBreaks on a large synthetic history; run with `npm run benchmark`.
+// Kept out of the test suite: its run time depends on the machine.
+import { detectBreaks } from "../BreakDetector";
+import { ConversionRates, STAGE_ORDER, TransitionKind } from "../../entities";
+
+const FUNNELS = 1000;
+const DAYS = 730;
+const DROP_FROM_DAY = DAYS - 5;
+
+/** Two years of daily rates per funnel; every tenth funnel loses 40% of landings for the last 5 days. */
+function generateHistory(): ConversionRates[] {
+  const base = Date.UTC(2023, 0, 1);
+  const dates = Array.from({ length: DAYS }, (_, d) => new Date(base + d * 86_400_000).toISOString().slice(0, 10));
+  const history: ConversionRates[] = [];
+
+  for (let f = 0; f < FUNNELS; f++) {
+    const dropped = f % 10 === 0;
+    for (let d = 0; d < DAYS; d++) {
+      const wobble = 1 + (((d * 7 + f) % 11) - 5) / 200;
+      const rates = [];
+      let fromCount = 10000;
+      for (let s = 0; s < STAGE_ORDER.length - 1; s++) {
+        let rate = [0.12, 0.75, 0.17, 0.3][s] * wobble;
+        if (dropped && s === 1 && d >= DROP_FROM_DAY) rate *= 0.6;
+        const toCount = Math.round(fromCount * rate);
+        rates.push({
+          fromStage: STAGE_ORDER[s],
+          toStage: STAGE_ORDER[s + 1],
+          kind: TransitionKind.ADJACENT,
+          rate: toCount / fromCount,
+          fromCount,
+          toCount,
+        });
+        fromCount = toCount;
+      }
+      history.push({ date: dates[d], funnelId: `funnel-${f}`, rates });
+    }
+  }
+
+  return history;
+}
+
+const history = generateHistory();
+
+const started = Date.now();
+const breaks = detectBreaks(history);
+const elapsedMs = Date.now() - started;
+
+const landingFunnels = new Set(
+  breaks.filter((b) => b.fromStage === "click" && b.toStage === "landing").map((b) => b.funnelId)
+);
+console.log(`Scanned ${FUNNELS} funnels x ${DAYS} days in ${(elapsedMs / 1000).toFixed(1)}s`);
+console.log(`Click -> landing breaks in ${landingFunnels.size} funnels (expected ${FUNNELS / 10})`);
+if (landingFunnels.size !== FUNNELS / 10) process.exitCode = 1;
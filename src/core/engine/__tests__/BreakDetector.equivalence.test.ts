@@ -0,0 +1,96 @@
+import fs from "fs";
+import path from "path";
+import { detectBreaks, detectVolumeBreaks } from "../BreakDetector";
+import { buildSnapshots, calculateConversionRates } from "../FunnelAnalyzer";
+import { checkDataQuality } from "../DataQualityChecker";
+import { Break, Event, STAGE_ORDER } from "../../entities";
+
+/** Breaks found by the per-window scan that filtered the whole series for every day. */
+const REFERENCE = path.join(__dirname, "fixtures/window-scan-reference.json");
+
+const FUNNELS = 6;
+const DAYS = 420;
+
+/** Deterministic uniform [0, 1) numbers (mulberry32). */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fourteen months of daily events. Even funnels have millions of near-constant
+ * impressions, where running sums of squares cancel worst; odd ones are small and noisy
+ * with weekend dips. Every funnel has drop and surge episodes and days with a zeroed stage.
+ */
+function generateEvents(): Event[] {
+  const next = random(42);
+  const base = Date.UTC(2023, 0, 1);
+  const events: Event[] = [];
+
+  for (let f = 0; f < FUNNELS; f++) {
+    const steady = f % 2 === 0;
+    const episodes = new Map<number, { transition: number; factor: number }>();
+    for (let start = 20 + Math.floor(next() * 40); start < DAYS; start += 40 + Math.floor(next() * 60)) {
+      const episode = { transition: Math.floor(next() * 4), factor: next() < 0.7 ? 0.55 : 1.5 };
+      const length = 3 + Math.floor(next() * 8);
+      for (let d = start; d < start + length; d++) episodes.set(d, episode);
+    }
+
+    for (let d = 0; d < DAYS; d++) {
+      const date = new Date(base + d * 86_400_000);
+      const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+      const noise = () => 1 + (next() - 0.5) * (steady ? 0.0005 : 0.1);
+      let count = Math.round((steady ? 5_000_000 : 20_000) * noise());
+      const zeroed = next() < 0.01 ? 1 + Math.floor(next() * 4) : -1;
+
+      STAGE_ORDER.forEach((stage, s) => {
+        if (s > 0) {
+          let rate = [0.12, 0.75, 0.17, 0.3][s - 1] * noise();
+          if (!steady && weekend) rate *= 0.85;
+          const episode = episodes.get(d);
+          if (episode?.transition === s - 1) rate = Math.min(1, rate * episode.factor);
+          count = Math.round(count * rate);
+        }
+        events.push({
+          date: date.toISOString().slice(0, 10),
+          funnelId: `funnel-${f}`,
+          stage,
+          count: s === zeroed ? 0 : count,
+          source: "test",
+        });
+      });
+    }
+  }
+
+  return events;
+}
+
+function detectAll(): Record<string, Break[]> {
+  const events = generateEvents();
+  const snapshots = buildSnapshots(events);
+  const rates = calculateConversionRates(snapshots);
+  const findings = checkDataQuality(events, snapshots, rates);
+
+  return {
+    stddev: detectBreaks(rates, {}, findings),
+    twoProportion: detectBreaks(rates, { significanceTest: "two-proportion", seasonality: "day-of-week", detectIncreases: true }, findings),
+    seasonal: detectBreaks(rates, { seasonality: "day-of-week", baselineWindowDays: 28, minRelativeDrop: 0.1 }, findings),
+    volume: detectVolumeBreaks(snapshots, {}, findings),
+  };
+}
+
+describe("BreakDetector window scan", () => {
+  it("should find exactly the breaks of the per-window scan on a long history", () => {
+    const reference = JSON.parse(fs.readFileSync(REFERENCE, "utf-8")) as Record<string, Break[]>;
+
+    const actual = detectAll();
+
+    for (const breaks of Object.values(reference)) expect(breaks.length).toBeGreaterThan(0);
+    expect(actual).toEqual(reference);
+  });
+});
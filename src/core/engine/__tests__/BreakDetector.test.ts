@@ -1,7 +1,8 @@
-import { detectBreaks } from "../BreakDetector";
+import { detectBreaks, detectVolumeBreaks } from "../BreakDetector";
 import { buildSnapshots, calculateConversionRates } from "../FunnelAnalyzer";
-import { Event, FunnelStage, ConversionRates } from "../../entities";
-import { Break, BreakSeverity } from "../../entities/Diagnosis";
+import { Event, FunnelStage, ConversionRates, FunnelDefinition, TransitionKind } from "../../entities";
+import { Break, BreakDirection, BreakSeverity, BreakType } from "../../entities/Diagnosis";
+import { daysBetween } from "../../../utils/time";
 
 function generateStableEvents(
   funnelId: string,
@@ -48,6 +49,41 @@ function generateEventsWithDrop(
   return [...normal, ...dropped];
 }
 
+function generateClickLandingSeries(
+  funnelId: string,
+  days: number,
+  dropFromDay: number,
+  clicks: number,
+  landingBefore: number,
+  landingAfter: number
+): Event[] {
+  const events: Event[] = [];
+  for (let d = 0; d < days; d++) {
+    const date = new Date("2025-01-01");
+    date.setDate(date.getDate() + d);
+    const dateStr = date.toISOString().split("T")[0];
+    events.push({ date: dateStr, funnelId, stage: FunnelStage.CLICK, count: clicks });
+    events.push({ date: dateStr, funnelId, stage: FunnelStage.LANDING, count: d < dropFromDay ? landingBefore : landingAfter });
+  }
+  return events;
+}
+
+/** B2B-style series: landing rate 75% on weekdays, 45% on weekends, starting on a Monday. */
+function generateWeeklyCycleEvents(days: number, weekdayDropFromDay?: number): Event[] {
+  const events: Event[] = [];
+  for (let d = 0; d < days; d++) {
+    const date = new Date("2025-01-06");
+    date.setDate(date.getDate() + d);
+    const dateStr = date.toISOString().split("T")[0];
+    const isWeekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+    let landing = isWeekend ? 450 : 750;
+    if (!isWeekend && weekdayDropFromDay !== undefined && d >= weekdayDropFromDay) landing = 600;
+    events.push({ date: dateStr, funnelId: "b2b", stage: FunnelStage.CLICK, count: 1000 });
+    events.push({ date: dateStr, funnelId: "b2b", stage: FunnelStage.LANDING, count: landing });
+  }
+  return events;
+}
+
 describe("BreakDetector", () => {
   describe("detectBreaks", () => {
     it("should detect a significant conversion drop", () => {
@@ -251,5 +287,327 @@ describe("BreakDetector", () => {
       expect(funnelABreaks.length).toBeGreaterThan(0);
       expect(funnelBBreaks).toHaveLength(0);
     });
+
+    it("should catch a non-adjacent drop made of small adjacent drops", () => {
+      const events = generateEventsWithDrop(
+        "test-funnel",
+        18,
+        5,
+        "2025-01-01",
+        {
+          [FunnelStage.IMPRESSION]: 10000,
+          [FunnelStage.CLICK]: 1200,
+          [FunnelStage.LANDING]: 900,
+          [FunnelStage.LEAD]: 150,
+          [FunnelStage.PURCHASE]: 45,
+        },
+        {
+          // ~10% drop at every step, ~19% from click to lead
+          [FunnelStage.IMPRESSION]: 10000,
+          [FunnelStage.CLICK]: 1080,
+          [FunnelStage.LANDING]: 729,
+          [FunnelStage.LEAD]: 109,
+          [FunnelStage.PURCHASE]: 30,
+        }
+      );
+
+      const rates = calculateConversionRates(buildSnapshots(events), [], {
+        extraTransitions: [{ fromStage: FunnelStage.CLICK, toStage: FunnelStage.LEAD }],
+      });
+      const breaks = detectBreaks(rates);
+
+      expect(breaks.filter((b: Break) => b.transitionKind === TransitionKind.ADJACENT)).toHaveLength(0);
+      const clickToLead = breaks.find((b: Break) => b.transitionKind === TransitionKind.SKIP);
+      expect(clickToLead).toBeDefined();
+      expect(clickToLead!.fromStage).toBe(FunnelStage.CLICK);
+      expect(clickToLead!.toStage).toBe(FunnelStage.LEAD);
+    });
+
+    it("should detect breaks on custom funnel stages", () => {
+      const definitions: FunnelDefinition[] = [
+        { funnelId: "saas", stages: ["visit", "signup", "paid"] },
+      ];
+      const events: Event[] = [];
+      for (let d = 0; d < 23; d++) {
+        const date = new Date("2025-01-01");
+        date.setDate(date.getDate() + d);
+        const dateStr = date.toISOString().split("T")[0];
+        const variation = 1 + ((d * 7) % 10 - 5) / 100;
+        events.push({ date: dateStr, funnelId: "saas", stage: "visit", count: 5000 });
+        events.push({ date: dateStr, funnelId: "saas", stage: "signup", count: Math.round((d < 18 ? 500 : 200) * variation) });
+        events.push({ date: dateStr, funnelId: "saas", stage: "paid", count: 50 });
+      }
+
+      const rates = calculateConversionRates(buildSnapshots(events, definitions), definitions);
+      const breaks = detectBreaks(rates);
+
+      expect(breaks.some((b: Break) => b.fromStage === "visit" && b.toStage === "signup")).toBe(true);
+      expect(breaks.every((b: Break) => b.fromStage !== FunnelStage.IMPRESSION)).toBe(true);
+    });
+  });
+  describe("two-proportion test", () => {
+    const config = { significanceTest: "two-proportion" as const, minRelativeDrop: 0.1 };
+
+    function clickToLanding(breaks: Break[], funnelId: string): Break | undefined {
+      return breaks.find(
+        (b: Break) => b.funnelId === funnelId && b.fromStage === FunnelStage.CLICK && b.toStage === FunnelStage.LANDING
+      );
+    }
+
+    it("should report p-value and confidence interval on a high-volume drop", () => {
+      const events = generateClickLandingSeries("big", 23, 18, 1000, 800, 700);
+      const breaks = detectBreaks(calculateConversionRates(buildSnapshots(events)), config);
+
+      const brk = clickToLanding(breaks, "big");
+      expect(brk).toBeDefined();
+      expect(brk!.baselineRate).toBeCloseTo(0.8);
+      expect(brk!.currentRate).toBeCloseTo(0.7);
+      expect(brk!.pValue).toBeLessThan(0.001);
+      expect(brk!.confidenceInterval!.lower).toBeGreaterThan(0);
+      expect(brk!.confidenceInterval!.lower).toBeLessThan(brk!.absoluteDrop);
+      expect(brk!.confidenceInterval!.upper).toBeGreaterThan(brk!.absoluteDrop);
+    });
+
+    it("should not flag the same relative drop on a low-volume funnel", () => {
+      const events = generateClickLandingSeries("small", 23, 18, 10, 8, 7);
+      const rates = calculateConversionRates(buildSnapshots(events));
+
+      expect(clickToLanding(detectBreaks(rates, { minRelativeDrop: 0.1 }), "small")).toBeDefined();
+      expect(clickToLanding(detectBreaks(rates, config), "small")).toBeUndefined();
+    });
+
+    it("should leave pValue unset in stddev mode", () => {
+      const events = generateClickLandingSeries("big", 23, 18, 1000, 800, 700);
+      const brk = clickToLanding(detectBreaks(calculateConversionRates(buildSnapshots(events)), { minRelativeDrop: 0.1 }), "big");
+
+      expect(brk).toBeDefined();
+      expect(brk!.pValue).toBeUndefined();
+      expect(brk!.confidenceInterval).toBeUndefined();
+    });
+  });
+
+  describe("minimum volume guard", () => {
+    it("should skip windows with too little traffic for the two-proportion test", () => {
+      const events = generateClickLandingSeries("tiny", 23, 18, 80, 80, 4);
+      const rates = calculateConversionRates(buildSnapshots(events));
+
+      expect(detectBreaks(rates, { significanceTest: "two-proportion", minWindowVolume: 0 }).length).toBeGreaterThan(0);
+      expect(detectBreaks(rates, { significanceTest: "two-proportion", minWindowVolume: 300 })).toHaveLength(0);
+    });
+
+    it("should not apply to the stddev test", () => {
+      const events = generateClickLandingSeries("tiny", 23, 18, 8, 8, 4);
+      const rates = calculateConversionRates(buildSnapshots(events));
+
+      expect(detectBreaks(rates).length).toBeGreaterThan(0);
+    });
+  });
+  describe("day-of-week seasonality", () => {
+    it("should flag the weekend dip with a flat baseline but not with a day-of-week baseline", () => {
+      const rates = calculateConversionRates(buildSnapshots(generateWeeklyCycleEvents(35)));
+
+      const flat = detectBreaks(rates, { currentWindowDays: 2 });
+      const seasonal = detectBreaks(rates, { currentWindowDays: 2, seasonality: "day-of-week" });
+
+      expect(flat.length).toBeGreaterThan(0);
+      expect(seasonal).toHaveLength(0);
+    });
+
+    it("should catch a weekday drop hidden by the weekly cycle", () => {
+      // Drop starts Wednesday of week 4 (day 23)
+      const rates = calculateConversionRates(buildSnapshots(generateWeeklyCycleEvents(26, 23)));
+
+      const flat = detectBreaks(rates);
+      const seasonal = detectBreaks(rates, { seasonality: "day-of-week" });
+
+      expect(flat).toHaveLength(0);
+      expect(seasonal).toHaveLength(1);
+      expect(seasonal[0].expectedRate).toBeCloseTo(0.75);
+      expect(seasonal[0].currentRate).toBeCloseTo(0.6);
+      expect(seasonal[0].relativeDrop).toBeCloseTo(0.2);
+      expect(seasonal[0].baselineRate).toBeLessThan(seasonal[0].expectedRate);
+    });
+
+    it("should use weekday-pooled expected rates in the two-proportion test", () => {
+      const rates = calculateConversionRates(buildSnapshots(generateWeeklyCycleEvents(26, 23)));
+
+      const breaks = detectBreaks(rates, { seasonality: "day-of-week", significanceTest: "two-proportion" });
+
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0].expectedRate).toBeCloseTo(0.75);
+      expect(breaks[0].pValue).toBeLessThan(0.001);
+    });
+
+    it("should set expectedRate to the flat baseline without seasonality", () => {
+      const events = generateClickLandingSeries("big", 23, 18, 1000, 800, 600);
+      const breaks = detectBreaks(calculateConversionRates(buildSnapshots(events)));
+
+      expect(breaks[0].expectedRate).toBe(breaks[0].baselineRate);
+    });
+  });
+  describe("upward anomalies", () => {
+    // Pixel double-firing: landings jump above clicks (rate > 100%)
+    const events = generateClickLandingSeries("meta", 23, 18, 1000, 800, 1600);
+
+    it("should ignore increases by default", () => {
+      const breaks = detectBreaks(calculateConversionRates(buildSnapshots(events)));
+      expect(breaks).toHaveLength(0);
+    });
+
+    it("should flag an abnormal increase when enabled", () => {
+      const breaks = detectBreaks(calculateConversionRates(buildSnapshots(events)), { detectIncreases: true });
+
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0].direction).toBe(BreakDirection.INCREASE);
+      expect(breaks[0].currentRate).toBeGreaterThan(1);
+      expect(breaks[0].relativeDrop).toBeLessThan(0);
+      expect(breaks[0].severity).toBe(BreakSeverity.CRITICAL);
+    });
+
+    it("should report a small p-value for an increase in the two-proportion test", () => {
+      const breaks = detectBreaks(calculateConversionRates(buildSnapshots(events)), {
+        detectIncreases: true,
+        significanceTest: "two-proportion",
+      });
+
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0].pValue).toBeLessThan(0.001);
+    });
+
+    it("should mark ordinary drops with the drop direction", () => {
+      const dropEvents = generateClickLandingSeries("big", 23, 18, 1000, 800, 500);
+      const breaks = detectBreaks(calculateConversionRates(buildSnapshots(dropEvents)), { detectIncreases: true });
+
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0].direction).toBe(BreakDirection.DROP);
+    });
+  });
+  describe("break lifecycle", () => {
+    function rates(events: Event[]): ConversionRates[] {
+      return calculateConversionRates(buildSnapshots(events));
+    }
+
+    it("should keep an ongoing drop active through the last data point", () => {
+      const breaks = detectBreaks(rates(generateClickLandingSeries("f", 23, 18, 1000, 800, 500)));
+
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0].active).toBe(true);
+      expect(breaks[0].recoveryDate).toBeUndefined();
+      expect(breaks[0].onsetDate <= breaks[0].detectedDate).toBe(true);
+      expect(breaks[0].lastSeenDate).toBe("2025-01-23");
+      expect(breaks[0].durationDays).toBe(daysBetween(breaks[0].onsetDate, "2025-01-23") + 1);
+    });
+
+    it("should mark a drop recovered once the rate is back within threshold", () => {
+      // Landing rate falls on days 18-23 and returns to 80% from day 24
+      const events = generateClickLandingSeries("f", 32, 18, 1000, 800, 500).map((e) =>
+        e.stage === FunnelStage.LANDING && e.date >= "2025-01-25" ? { ...e, count: 800 } : e
+      );
+      const breaks = detectBreaks(rates(events));
+
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0].active).toBe(false);
+      expect(breaks[0].recoveryDate! > breaks[0].lastSeenDate).toBe(true);
+      expect(breaks[0].recoveryDate! >= "2025-01-25").toBe(true);
+      expect(breaks[0].durationDays).toBe(daysBetween(breaks[0].onsetDate, breaks[0].recoveryDate!));
+    });
+
+    it("should stay active when the drop becomes the new baseline", () => {
+      const breaks = detectBreaks(rates(generateClickLandingSeries("f", 50, 18, 1000, 800, 500)));
+
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0].lastSeenDate < "2025-02-19").toBe(true);
+      expect(breaks[0].active).toBe(true);
+    });
+  });
+
+  describe("layered config", () => {
+    // Both funnels lose 10% of landings from day 18
+    const rates = calculateConversionRates(buildSnapshots([
+      ...generateClickLandingSeries("brand", 23, 18, 1000, 800, 720),
+      ...generateClickLandingSeries("longtail", 23, 18, 1000, 800, 720),
+    ]));
+
+    it("should apply per-funnel overrides only to that funnel", () => {
+      expect(detectBreaks(rates)).toHaveLength(0);
+
+      const breaks = detectBreaks(rates, { funnels: { brand: { minRelativeDrop: 0.05 } } });
+
+      expect(breaks.length).toBeGreaterThan(0);
+      expect(breaks.every((b) => b.funnelId === "brand")).toBe(true);
+      expect(breaks[0].detectorConfig!.minRelativeDrop).toBe(0.05);
+      expect(breaks[0].detectorConfig!.layers).toEqual(["funnels.brand"]);
+    });
+
+    it("should let transition overrides win over funnel overrides", () => {
+      const funnelThenTransition = detectBreaks(rates, {
+        funnels: { brand: { minRelativeDrop: 0.05 } },
+        transitions: { "click->landing": { minRelativeDrop: 0.3 } },
+      });
+      expect(funnelThenTransition).toHaveLength(0);
+
+      const breaks = detectBreaks(rates, {
+        minRelativeDrop: 0.3,
+        funnels: { longtail: { transitions: { "click->landing": { minRelativeDrop: 0.05 } } } },
+      });
+      expect(breaks.every((b) => b.funnelId === "longtail")).toBe(true);
+      expect(breaks[0].detectorConfig!.layers).toEqual(["funnels.longtail", "funnels.longtail.transitions.click->landing"]);
+    });
+
+    it("should report the global settings when no override applies", () => {
+      const breaks = detectBreaks(rates, { minRelativeDrop: 0.05, funnels: { other: { minRelativeDrop: 0.5 } } });
+
+      expect(new Set(breaks.map((b) => b.funnelId))).toEqual(new Set(["brand", "longtail"]));
+      expect(breaks.every((b) => b.detectorConfig!.minRelativeDrop === 0.05 && b.detectorConfig!.layers.length === 0)).toBe(true);
+    });
+
+    it("should key volume overrides by stage", () => {
+      const snapshots = buildSnapshots(generateClickLandingSeries("brand", 23, 18, 1000, 800, 720));
+
+      expect(detectVolumeBreaks(snapshots)).toHaveLength(0);
+
+      const breaks = detectVolumeBreaks(snapshots, { transitions: { landing: { minRelativeDrop: 0.05 } } });
+      expect(breaks.map((b) => b.fromStage)).toEqual([FunnelStage.LANDING]);
+      expect(breaks[0].detectorConfig!.significanceTest).toBe("stddev");
+    });
+  });
+
+  describe("detectVolumeBreaks", () => {
+    const normal = {
+      [FunnelStage.IMPRESSION]: 10000,
+      [FunnelStage.CLICK]: 1200,
+      [FunnelStage.LANDING]: 900,
+      [FunnelStage.LEAD]: 150,
+      [FunnelStage.PURCHASE]: 45,
+    };
+    // Campaign paused: every stage falls 80%, every conversion rate stays flat
+    const paused = {
+      [FunnelStage.IMPRESSION]: 2000,
+      [FunnelStage.CLICK]: 240,
+      [FunnelStage.LANDING]: 180,
+      [FunnelStage.LEAD]: 30,
+      [FunnelStage.PURCHASE]: 9,
+    };
+
+    it("should flag stage volume drops that leave conversion rates flat", () => {
+      const snapshots = buildSnapshots(generateEventsWithDrop("test-funnel", 18, 5, "2025-01-01", normal, paused));
+
+      expect(detectBreaks(calculateConversionRates(snapshots))).toHaveLength(0);
+
+      const breaks = detectVolumeBreaks(snapshots);
+      const impression = breaks.find((b: Break) => b.fromStage === FunnelStage.IMPRESSION);
+
+      expect(breaks.every((b: Break) => b.breakType === BreakType.VOLUME)).toBe(true);
+      expect(impression).toBeDefined();
+      expect(impression!.toStage).toBe(FunnelStage.IMPRESSION);
+      expect(impression!.transitionKind).toBe(TransitionKind.STAGE);
+      expect(impression!.relativeDrop).toBeGreaterThan(0.5);
+      expect(impression!.severity).toBe(BreakSeverity.CRITICAL);
+    });
+
+    it("should not flag stable volumes", () => {
+      const snapshots = buildSnapshots(generateStableEvents("test-funnel", 23, "2025-01-01", normal));
+      expect(detectVolumeBreaks(snapshots)).toHaveLength(0);
+    });
   });
 });
@@ -0,0 +1,157 @@
+import { buildSeriesIndex, calcCausalScore, estimateCausalEffect, FunnelObservations } from "../CausalScorer";
+import { Change, ChangeCategory } from "../../entities/Change";
+import { ConversionRates, FunnelSnapshot, TransitionKind } from "../../entities/Event";
+import { Break, BreakDirection, BreakSeverity, BreakType } from "../../entities/Diagnosis";
+import { addDays } from "../../../utils/time";
+
+const CHANGE_DATE = "2025-01-15";
+const CONFIG = { windowDays: 7, minControlFunnels: 1 };
+
+/** click->landing rates: `before` for the 7 days up to the change date, `after` from it on. */
+function rateSeries(funnelId: string, before: number, after: number): ConversionRates[] {
+  const series: ConversionRates[] = [];
+  for (let offset = -7; offset < 7; offset++) {
+    const rate = offset < 0 ? before : after;
+    series.push({
+      date: addDays(CHANGE_DATE, offset),
+      funnelId,
+      rates: [{ fromStage: "click", toStage: "landing", kind: TransitionKind.ADJACENT, rate, fromCount: 1000, toCount: rate * 1000 }],
+    });
+  }
+  return series;
+}
+
+function volumeSeries(funnelId: string, before: number, after: number): FunnelSnapshot[] {
+  const series: FunnelSnapshot[] = [];
+  for (let offset = -7; offset < 7; offset++) {
+    series.push({ date: addDays(CHANGE_DATE, offset), funnelId, stageCounts: { click: offset < 0 ? before : after } });
+  }
+  return series;
+}
+
+function makeBreak(overrides: Partial<Break> = {}): Break {
+  return {
+    breakType: BreakType.CONVERSION,
+    funnelId: "treated",
+    fromStage: "click",
+    toStage: "landing",
+    transitionKind: TransitionKind.ADJACENT,
+    direction: BreakDirection.DROP,
+    detectedDate: "2025-01-17",
+    onsetDate: "2025-01-16",
+    lastSeenDate: "2025-01-17",
+    durationDays: 2,
+    active: true,
+    baselineRate: 0.8,
+    expectedRate: 0.8,
+    currentRate: 0.4,
+    absoluteDrop: 0.4,
+    relativeDrop: 0.5,
+    zScore: 4,
+    severity: BreakSeverity.CRITICAL,
+    ...overrides,
+  };
+}
+
+function makeChange(overrides: Partial<Change> = {}): Change {
+  return {
+    date: CHANGE_DATE,
+    funnelId: "treated",
+    category: ChangeCategory.SITE,
+    description: "Deployed new landing page",
+    severity: 4,
+    ...overrides,
+  };
+}
+
+function observe(conversionRates: ConversionRates[], snapshots: FunnelSnapshot[] = []): FunnelObservations {
+  return { conversionRates, snapshots };
+}
+
+describe("CausalScorer", () => {
+  describe("estimateCausalEffect", () => {
+    it("should compare the break's shift with control funnels across the change date", () => {
+      const index = buildSeriesIndex(observe([
+        ...rateSeries("treated", 0.8, 0.4),
+        ...rateSeries("control-a", 0.6, 0.6),
+        ...rateSeries("control-b", 0.5, 0.45),
+      ]));
+      const change = makeChange();
+
+      const estimate = estimateCausalEffect(change, makeBreak(), [change], index, CONFIG)!;
+
+      expect(estimate.treatedShift).toBeCloseTo(-0.5);
+      expect(estimate.controlShift).toBeCloseTo(-0.05);
+      expect(estimate.controlFunnels.sort()).toEqual(["control-a", "control-b"]);
+    });
+
+    it("should not use funnels that received the same change as controls", () => {
+      const index = buildSeriesIndex(observe([
+        ...rateSeries("treated", 0.8, 0.4),
+        ...rateSeries("sibling", 0.8, 0.4),
+        ...rateSeries("control", 0.6, 0.6),
+      ]));
+      const change = makeChange();
+      const changes = [change, makeChange({ funnelId: "sibling" })];
+
+      const estimate = estimateCausalEffect(change, makeBreak(), changes, index, CONFIG)!;
+
+      expect(estimate.controlFunnels).toEqual(["control"]);
+    });
+
+    it("should have no estimate for wildcard changes", () => {
+      const index = buildSeriesIndex(observe([...rateSeries("treated", 0.8, 0.4), ...rateSeries("control", 0.6, 0.6)]));
+      const change = makeChange({ funnelId: "*" });
+
+      expect(estimateCausalEffect(change, makeBreak(), [change], index, CONFIG)).toBeUndefined();
+    });
+
+    it("should have no estimate with fewer control funnels than required", () => {
+      const index = buildSeriesIndex(observe([...rateSeries("treated", 0.8, 0.4), ...rateSeries("control", 0.6, 0.6)]));
+      const change = makeChange();
+
+      expect(estimateCausalEffect(change, makeBreak(), [change], index, { ...CONFIG, minControlFunnels: 2 })).toBeUndefined();
+    });
+
+    it("should have no estimate without data before the change", () => {
+      const rates = [...rateSeries("treated", 0.8, 0.4), ...rateSeries("control", 0.6, 0.6)]
+        .filter((cr) => cr.date >= CHANGE_DATE);
+      const change = makeChange();
+
+      expect(estimateCausalEffect(change, makeBreak(), [change], buildSeriesIndex(observe(rates)), CONFIG)).toBeUndefined();
+    });
+
+    it("should compare stage volumes for volume breaks", () => {
+      const index = buildSeriesIndex(observe([], [...volumeSeries("treated", 1000, 400), ...volumeSeries("control", 800, 800)]));
+      const change = makeChange({ category: ChangeCategory.AD });
+      const brk = makeBreak({ breakType: BreakType.VOLUME, fromStage: "click", toStage: "click", transitionKind: TransitionKind.STAGE });
+
+      const estimate = estimateCausalEffect(change, brk, [change], index, CONFIG)!;
+
+      expect(estimate.treatedShift).toBeCloseTo(-0.6);
+      expect(estimate.controlShift).toBeCloseTo(0);
+    });
+  });
+
+  describe("calcCausalScore", () => {
+    it("should be 1 when controls stayed flat", () => {
+      expect(calcCausalScore({ treatedShift: -0.5, controlShift: 0, controlFunnels: ["c"] }, BreakDirection.DROP)).toBe(1);
+    });
+
+    it("should be 0 when controls dropped as much", () => {
+      expect(calcCausalScore({ treatedShift: -0.5, controlShift: -0.5, controlFunnels: ["c"] }, BreakDirection.DROP)).toBe(0);
+    });
+
+    it("should be the share of the drop not seen in controls", () => {
+      expect(calcCausalScore({ treatedShift: -0.5, controlShift: -0.2, controlFunnels: ["c"] }, BreakDirection.DROP)).toBeCloseTo(0.6);
+    });
+
+    it("should score increases against rises in the controls", () => {
+      expect(calcCausalScore({ treatedShift: 0.4, controlShift: 0.1, controlFunnels: ["c"] }, BreakDirection.INCREASE)).toBeCloseTo(0.75);
+    });
+
+    it("should be 0 when the series did not move in the break's direction", () => {
+      expect(calcCausalScore({ treatedShift: 0.1, controlShift: 0, controlFunnels: ["c"] }, BreakDirection.DROP)).toBe(0);
+    });
+  });
+});
@@ -1,15 +1,26 @@
-import { analyzeCauses } from "../CauseAnalyzer";
+import { analyzeCauses, buildRelevanceMatrix, resolveCauseAnalyzerConfig } from "../CauseAnalyzer";
 import { Change, ChangeCategory } from "../../entities/Change";
-import { FunnelStage } from "../../entities/Event";
-import { Break, BreakSeverity, CauseCandidate, DiagnosisStatus } from "../../entities/Diagnosis";
+import { ConversionRates, FunnelStage, TransitionKind } from "../../entities/Event";
+import { Break, BreakDirection, BreakSeverity, BreakType, CauseCandidate, DiagnosisStatus } from "../../entities/Diagnosis";
+import { GlobalIncident } from "../../entities/Incident";
+import { addDays } from "../../../utils/time";
 
 function makeBreak(overrides: Partial<Break> = {}): Break {
+  const detectedDate = overrides.detectedDate ?? "2025-01-15";
   return {
+    breakType: BreakType.CONVERSION,
     funnelId: "test-funnel",
     fromStage: FunnelStage.CLICK,
     toStage: FunnelStage.LANDING,
-    detectedDate: "2025-01-15",
+    transitionKind: TransitionKind.ADJACENT,
+    direction: BreakDirection.DROP,
+    detectedDate,
+    onsetDate: detectedDate,
+    lastSeenDate: detectedDate,
+    durationDays: 1,
+    active: true,
     baselineRate: 0.75,
+    expectedRate: 0.75,
     currentRate: 0.45,
     absoluteDrop: 0.30,
     relativeDrop: 0.40,
@@ -209,6 +220,195 @@ describe("CauseAnalyzer", () => {
     });
   });
 
+  describe("category relevance", () => {
+    it("should use custom stage relevance for custom funnel transitions", () => {
+      const brk = makeBreak({ fromStage: "trial", toStage: "paid" });
+      const changes: Change[] = [
+        makeChange({ date: "2025-01-15", category: ChangeCategory.PRICING, description: "Price change" }),
+        makeChange({ date: "2025-01-15", category: ChangeCategory.AD, description: "Ad change" }),
+      ];
+
+      const diagnoses = analyzeCauses([brk], changes, {
+        customStageRelevance: { [ChangeCategory.PRICING]: { "trial->paid": 0.9 } },
+      });
+      const pricing = diagnoses[0].causes.find((c: CauseCandidate) => c.changeDescription === "Price change")!;
+      const ad = diagnoses[0].causes.find((c: CauseCandidate) => c.changeDescription === "Ad change")!;
+
+      expect(pricing.scoreBreakdown.categoryRelevanceScore).toBe(0.9);
+      expect(ad.scoreBreakdown.categoryRelevanceScore).toBe(0.3);
+    });
+
+    it("should score non-adjacent transitions by their most relevant spanned step", () => {
+      const brk = makeBreak({
+        fromStage: FunnelStage.IMPRESSION,
+        toStage: FunnelStage.PURCHASE,
+        transitionKind: TransitionKind.END_TO_END,
+      });
+      const changes: Change[] = [
+        makeChange({ date: "2025-01-15", category: ChangeCategory.PRICING, description: "Price change", affectedStages: ["lead"] }),
+      ];
+
+      const diagnoses = analyzeCauses([brk], changes);
+      const cause = diagnoses[0].causes[0];
+
+      expect(cause.scoreBreakdown.categoryRelevanceScore).toBe(0.95);
+      expect(cause.scoreBreakdown.stageMatchBonus).toBe(0.2);
+      expect(diagnoses[0].summary).toContain("impression -> purchase (end-to-end)");
+    });
+
+    it("should apply per-funnel relevance and weights only to that funnel", () => {
+      const changes: Change[] = [
+        makeChange({ funnelId: "*", category: ChangeCategory.PRICING, description: "Price change" }),
+      ];
+      const config = {
+        customStageRelevance: { [ChangeCategory.PRICING]: { "trial->paid": 0.9 } },
+        funnels: {
+          checkout: {
+            categoryWeight: 0.5,
+            customStageRelevance: { [ChangeCategory.PRICING]: { "landing->lead": 0.05 } },
+          },
+        },
+      };
+      const landingToLead = { fromStage: FunnelStage.LANDING, toStage: FunnelStage.LEAD };
+
+      const [checkout, other] = analyzeCauses(
+        [makeBreak({ ...landingToLead, funnelId: "checkout" }), makeBreak({ ...landingToLead, funnelId: "other" })],
+        changes,
+        config
+      );
+
+      expect(checkout.causes[0].scoreBreakdown.categoryRelevanceScore).toBe(0.05);
+      expect(other.causes[0].scoreBreakdown.categoryRelevanceScore).toBe(0.5);
+      expect(resolveCauseAnalyzerConfig(config, "checkout").customStageRelevance[ChangeCategory.PRICING]).toEqual({
+        "trial->paid": 0.9,
+        "landing->lead": 0.05,
+      });
+      expect(resolveCauseAnalyzerConfig(config, "other").categoryWeight).toBe(0.30);
+    });
+
+    it("should score uncovered pairs with the configured fallback", () => {
+      const brk = makeBreak({ fromStage: "trial", toStage: "paid" });
+      const [diagnosis] = analyzeCauses([brk], [makeChange({ date: "2025-01-15" })], { fallbackRelevance: 0.6 });
+
+      expect(diagnosis.causes[0].scoreBreakdown.categoryRelevanceScore).toBe(0.6);
+    });
+
+    it("should build the effective matrix from built-in and custom scores", () => {
+      const matrix = buildRelevanceMatrix(resolveCauseAnalyzerConfig({
+        customStageRelevance: { [ChangeCategory.AD]: { "impression->click": 0.5, lead: 0.4 } },
+      }));
+
+      expect(matrix.stages[ChangeCategory.AD]["impression->click"]).toBe(0.5);
+      expect(matrix.stages[ChangeCategory.AD]["click->landing"]).toBe(0.60);
+      expect(matrix.stages[ChangeCategory.AD].lead).toBe(0.4);
+      expect(matrix.volume[ChangeCategory.AD]).toBe(0.95);
+      expect(matrix.fallback).toBe(0.3);
+    });
+  });
+
+  describe("volume breaks", () => {
+    it("should rank ad and audience changes above site and pricing for a stage volume drop", () => {
+      const brk = makeBreak({
+        breakType: BreakType.VOLUME,
+        fromStage: FunnelStage.IMPRESSION,
+        toStage: FunnelStage.IMPRESSION,
+        transitionKind: TransitionKind.STAGE,
+        baselineRate: 10000,
+        expectedRate: 10000,
+        currentRate: 2000,
+        absoluteDrop: 8000,
+        relativeDrop: 0.8,
+      });
+      const changes: Change[] = [
+        makeChange({ date: "2025-01-15", category: ChangeCategory.SITE, severity: 3, description: "Site change" }),
+        makeChange({ date: "2025-01-15", category: ChangeCategory.AD, severity: 3, description: "Campaign paused" }),
+        makeChange({ date: "2025-01-15", category: ChangeCategory.AUDIENCE, severity: 3, description: "Audience narrowed" }),
+        makeChange({ date: "2025-01-15", category: ChangeCategory.PRICING, severity: 3, description: "Price change" }),
+      ];
+
+      const diagnoses = analyzeCauses([brk], changes);
+      const ranked = diagnoses[0].causes.map((c: CauseCandidate) => c.changeDescription);
+
+      expect(ranked).toEqual(["Campaign paused", "Audience narrowed", "Site change", "Price change"]);
+      expect(diagnoses[0].summary).toContain("80.0% volume drop detected");
+      expect(diagnoses[0].summary).toContain("at impression stage");
+    });
+  });
+
+  describe("upward anomalies", () => {
+    const increase = makeBreak({
+      direction: BreakDirection.INCREASE,
+      currentRate: 1.5,
+      absoluteDrop: -0.75,
+      relativeDrop: -1.0,
+    });
+
+    it("should rank a tracking change above a site change for an increase", () => {
+      const changes: Change[] = [
+        makeChange({ date: "2025-01-15", category: ChangeCategory.SITE, severity: 4, description: "Landing redesign" }),
+        makeChange({ date: "2025-01-15", category: ChangeCategory.TRACKING, severity: 3, description: "Pixel update" }),
+      ];
+
+      const diagnoses = analyzeCauses([increase], changes);
+      const causes = diagnoses[0].causes;
+
+      expect(causes[0].changeDescription).toBe("Pixel update");
+      expect(causes[0].scoreBreakdown.categoryRelevanceScore).toBe(0.95);
+      expect(causes[1].scoreBreakdown.categoryRelevanceScore).toBeCloseTo(0.45);
+    });
+
+    it("should describe the anomaly as an increase in the summary", () => {
+      const diagnoses = analyzeCauses([increase], []);
+
+      expect(diagnoses[0].summary).toContain("100.0% conversion increase detected");
+      expect(diagnoses[0].summary).toContain("Check tracking");
+    });
+  });
+
+  describe("category taxonomy", () => {
+    const categories = {
+      email: { stageRelevance: { "click->landing": 0.7 }, volumeRelevance: 0.8 },
+      "site/checkout": { stageRelevance: { "lead->purchase": 0.95, "click->landing": 0.2 } },
+      "tracking/pixel": {},
+    };
+
+    it("should score custom categories with their own profile", () => {
+      const [diagnosis] = analyzeCauses([makeBreak()], [makeChange({ category: "email" })], { categories });
+
+      expect(diagnosis.causes[0].changeCategory).toBe("email");
+      expect(diagnosis.causes[0].scoreBreakdown.categoryRelevanceScore).toBe(0.7);
+    });
+
+    it("should start subcategories from their parent's profile", () => {
+      const matrix = buildRelevanceMatrix(resolveCauseAnalyzerConfig({
+        categories,
+        customStageRelevance: { "site/checkout": { "landing->lead": 0.6 } },
+      }));
+
+      expect(matrix.stages["site/checkout"]).toEqual({
+        "impression->click": 0.05,
+        "click->landing": 0.2,
+        "landing->lead": 0.6,
+        "lead->purchase": 0.95,
+      });
+      expect(matrix.volume["site/checkout"]).toBe(0.30);
+      expect(matrix.volume.email).toBe(0.8);
+    });
+
+    it("should score undeclared subcategories like their parent", () => {
+      const [diagnosis] = analyzeCauses([makeBreak()], [makeChange({ category: "site/cart" })]);
+
+      expect(diagnosis.causes[0].scoreBreakdown.categoryRelevanceScore).toBe(0.90);
+    });
+
+    it("should treat tracking subcategories as tracking for increases", () => {
+      const increase = makeBreak({ direction: BreakDirection.INCREASE, currentRate: 1.5, absoluteDrop: -0.75, relativeDrop: -1.0 });
+      const [diagnosis] = analyzeCauses([increase], [makeChange({ category: "tracking/pixel" })], { categories });
+
+      expect(diagnosis.causes[0].scoreBreakdown.categoryRelevanceScore).toBe(0.95);
+    });
+  });
+
   describe("temporal scoring", () => {
     it("should give highest temporal score to same-day changes", () => {
       const brk = makeBreak({ detectedDate: "2025-01-15" });
@@ -229,6 +429,21 @@ describe("CauseAnalyzer", () => {
       expect(oneDay.scoreBreakdown.temporalScore).toBeCloseTo(0.607, 2);
       expect(threeDay.scoreBreakdown.temporalScore).toBeCloseTo(0.223, 2);
     });
+
+    it("should time changes against the detected date unless configured to use the onset", () => {
+      const brk = makeBreak({ onsetDate: "2025-01-11", detectedDate: "2025-01-15" });
+      const changes: Change[] = [
+        makeChange({ date: "2025-01-10", description: "Before onset" }),
+        makeChange({ date: "2025-01-14", description: "Before detection" }),
+      ];
+
+      const byDetected = analyzeCauses([brk], changes)[0].causes;
+      const byOnset = analyzeCauses([brk], changes, { temporalAnchor: "onset" })[0].causes;
+
+      expect(byDetected.map((c) => c.changeDescription)).toEqual(["Before detection", "Before onset"]);
+      expect(byOnset.map((c) => c.changeDescription)).toEqual(["Before onset"]);
+      expect(byOnset[0].scoreBreakdown.temporalScore).toBeCloseTo(0.607, 2);
+    });
   });
 
   describe("severity scoring", () => {
@@ -252,4 +467,169 @@ describe("CauseAnalyzer", () => {
       expect(sev5.scoreBreakdown.severityScore).toBeCloseTo(1.0);
     });
   });
+
+  describe("global incidents", () => {
+    function globalIncident(funnelIds: string[]): GlobalIncident {
+      return {
+        id: "global:conversion:click->landing:drop:2025-01-15",
+        breakType: BreakType.CONVERSION,
+        fromStage: FunnelStage.CLICK,
+        toStage: FunnelStage.LANDING,
+        direction: BreakDirection.DROP,
+        onsetDate: "2025-01-15",
+        severity: BreakSeverity.CRITICAL,
+        active: true,
+        funnelIds,
+        breaks: [],
+      };
+    }
+
+    const changes: Change[] = [
+      makeChange({ funnelId: "*", description: "Global change" }),
+      makeChange({ description: "Funnel change" }),
+    ];
+
+    function boosts(brk: Break, incidents: GlobalIncident[]): Record<string, number> {
+      const [diagnosis] = analyzeCauses([brk], changes, undefined, [], incidents);
+      return Object.fromEntries(diagnosis.causes.map((c) => [c.changeDescription, c.scoreBreakdown.wildcardBoost]));
+    }
+
+    it("should boost wildcard changes by the number of funnels breaking together", () => {
+      const incident = globalIncident(["a", "b", "test-funnel"]);
+      const result = boosts(makeBreak({ globalIncidentId: incident.id }), [incident]);
+
+      expect(result["Global change"]).toBeCloseTo(0.1);
+      expect(result["Funnel change"]).toBe(0);
+    });
+
+    it("should not boost breaks outside a global incident", () => {
+      expect(boosts(makeBreak(), [globalIncident(["a", "b"])])["Global change"]).toBe(0);
+    });
+
+    it("should cap the boost", () => {
+      const funnelIds = Array.from({ length: 20 }, (_, i) => `funnel-${i}`);
+      const incident = globalIncident(funnelIds);
+
+      expect(boosts(makeBreak({ globalIncidentId: incident.id }), [incident])["Global change"]).toBeCloseTo(0.25);
+    });
+  });
+
+  describe("causal scoring", () => {
+    /** Daily click->landing rates for a funnel, `before` until 2025-01-14 and `after` from then on. */
+    function rates(funnelId: string, before: number, after: number): ConversionRates[] {
+      return Array.from({ length: 14 }, (_, i) => {
+        const date = addDays("2025-01-07", i);
+        const rate = date < "2025-01-14" ? before : after;
+        return {
+          date,
+          funnelId,
+          rates: [{ fromStage: FunnelStage.CLICK, toStage: FunnelStage.LANDING, kind: TransitionKind.ADJACENT, rate, fromCount: 1000, toCount: rate * 1000 }],
+        };
+      });
+    }
+
+    function causeOf(changes: Change[], controlAfter: number, causalWeight?: number): CauseCandidate {
+      const observations = {
+        conversionRates: [...rates("test-funnel", 0.75, 0.45), ...rates("control", 0.6, controlAfter)],
+        snapshots: [],
+      };
+      const config = causalWeight === undefined ? undefined : { causalWeight };
+      return analyzeCauses([makeBreak()], changes, config, [], [], observations)[0].causes[0];
+    }
+
+    const baseConfidence = analyzeCauses([makeBreak()], [makeChange()])[0].causes[0].confidence;
+
+    it("should be off by default", () => {
+      const cause = causeOf([makeChange()], 0.6);
+
+      expect(cause.scoreBreakdown.causalScore).toBeUndefined();
+      expect(cause.confidence).toBeCloseTo(baseConfidence);
+    });
+
+    it("should raise confidence when control funnels did not move", () => {
+      const cause = causeOf([makeChange()], 0.6, 0.5);
+
+      expect(cause.scoreBreakdown.causalScore).toBe(1);
+      expect(cause.causalEstimate!.controlFunnels).toEqual(["control"]);
+      expect(cause.confidence).toBeCloseTo(0.5 * baseConfidence + 0.5);
+    });
+
+    it("should lower confidence when control funnels dropped as much", () => {
+      const cause = causeOf([makeChange()], 0.36, 0.5);
+
+      expect(cause.scoreBreakdown.causalScore).toBeCloseTo(0);
+      expect(cause.confidence).toBeCloseTo(0.5 * baseConfidence);
+    });
+
+    it("should keep the other scores for changes without control funnels", () => {
+      const cause = causeOf([makeChange({ funnelId: "*" })], 0.6, 0.5);
+
+      expect(cause.scoreBreakdown.causalScore).toBeUndefined();
+      expect(cause.confidence).toBeCloseTo(baseConfidence);
+    });
+  });
+
+  describe("change lifecycle", () => {
+    const baseConfidence = analyzeCauses([makeBreak()], [makeChange()])[0].causes[0].confidence;
+
+    function recoveredBreak(recoveryDate: string): Break {
+      return makeBreak({ active: false, recoveryDate, lastSeenDate: recoveryDate });
+    }
+
+    it("should raise confidence when the break recovered right after the change was reverted", () => {
+      const changes = [
+        makeChange({ id: "deploy-1" }),
+        makeChange({ id: "deploy-2", date: "2025-01-17", description: "Revert", revertsChangeId: "deploy-1" }),
+      ];
+
+      const [cause] = analyzeCauses([recoveredBreak("2025-01-18")], changes)[0].causes;
+
+      expect(cause.changeDescription).toBe("Deployed new landing page");
+      expect(cause.revertDate).toBe("2025-01-17");
+      expect(cause.scoreBreakdown.revertBoost).toBeCloseTo(0.2);
+      expect(cause.confidence).toBeCloseTo(baseConfidence + 0.2);
+    });
+
+    it("should not credit a revert long before the recovery", () => {
+      const changes = [
+        makeChange({ id: "deploy-1" }),
+        makeChange({ id: "deploy-2", date: "2025-01-16", description: "Revert", revertsChangeId: "deploy-1" }),
+      ];
+
+      const [cause] = analyzeCauses([recoveredBreak("2025-01-28")], changes)[0].causes;
+
+      expect(cause.revertDate).toBe("2025-01-16");
+      expect(cause.scoreBreakdown.revertBoost).toBeUndefined();
+      expect(cause.confidence).toBeCloseTo(baseConfidence);
+    });
+
+    it("should lower confidence for rollouts too small to explain the break", () => {
+      const [cause] = analyzeCauses([makeBreak({ relativeDrop: 0.4 })], [makeChange({ rolloutPercent: 10 })])[0].causes;
+
+      expect(cause.scoreBreakdown.rolloutFactor).toBeCloseTo(0.25);
+      expect(cause.confidence).toBeCloseTo(baseConfidence * 0.25);
+    });
+
+    it("should not penalise rollouts large enough to explain the break", () => {
+      const [cause] = analyzeCauses([makeBreak({ relativeDrop: 0.4 })], [makeChange({ rolloutPercent: 50 })])[0].causes;
+
+      expect(cause.scoreBreakdown.rolloutFactor).toBe(1);
+      expect(cause.confidence).toBeCloseTo(baseConfidence);
+    });
+
+    it("should consider a ranged change that ended just before the break", () => {
+      const campaign = makeChange({ date: "2025-01-01", endDate: "2025-01-13", category: ChangeCategory.AD, description: "Campaign ended" });
+
+      const [cause] = analyzeCauses([makeBreak()], [campaign])[0].causes;
+
+      expect(cause.changeDescription).toBe("Campaign ended");
+      expect(cause.scoreBreakdown.temporalScore).toBeCloseTo(Math.exp(-0.5));
+    });
+
+    it("should ignore a ranged change that started and ended long before the break", () => {
+      const campaign = makeChange({ date: "2024-12-01", endDate: "2024-12-20", category: ChangeCategory.AD });
+
+      expect(analyzeCauses([makeBreak()], [campaign])[0].causes).toHaveLength(0);
+    });
+  });
 });
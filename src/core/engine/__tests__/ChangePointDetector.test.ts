@@ -0,0 +1,105 @@
+import { detectBreaks, detectVolumeBreaks } from "../BreakDetector";
+import { buildSnapshots, calculateConversionRates } from "../FunnelAnalyzer";
+import { Event, FunnelStage } from "../../entities";
+import { BreakDirection } from "../../entities/Diagnosis";
+
+function dateAt(day: number): string {
+  const date = new Date("2025-01-01");
+  date.setDate(date.getDate() + day);
+  return date.toISOString().split("T")[0];
+}
+
+/** 1000 clicks/day; landing count per day comes from the callback. */
+function clickLandingSeries(days: number, landingOn: (day: number) => number): Event[] {
+  const events: Event[] = [];
+  for (let d = 0; d < days; d++) {
+    events.push({ date: dateAt(d), funnelId: "f", stage: FunnelStage.CLICK, count: 1000 });
+    events.push({ date: dateAt(d), funnelId: "f", stage: FunnelStage.LANDING, count: landingOn(d) });
+  }
+  return events;
+}
+
+/** Small deterministic wobble around a base count. */
+function wobble(day: number, base: number): number {
+  return base + ((day * 7) % 5) * 4 - 8;
+}
+
+describe("ChangePointDetector", () => {
+  const cusum = { detector: "cusum" as const };
+
+  it("should date the onset of a step drop exactly and report before/after levels", () => {
+    const events = clickLandingSeries(30, (d) => wobble(d, d < 18 ? 800 : 560));
+    const breaks = detectBreaks(calculateConversionRates(buildSnapshots(events)), cusum);
+
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0].onsetDate).toBe(dateAt(18));
+    expect(breaks[0].detectedDate >= breaks[0].onsetDate!).toBe(true);
+    expect(breaks[0].baselineRate).toBeCloseTo(0.8, 2);
+    expect(breaks[0].currentRate).toBeCloseTo(0.56, 2);
+    expect(breaks[0].direction).toBe(BreakDirection.DROP);
+  });
+
+  it("should catch a gradual decline and date it near its start", () => {
+    // 1.5 points per day from day 14: 80% -> 56% by day 30
+    const events = clickLandingSeries(31, (d) => (d < 14 ? 800 : 800 - (d - 13) * 15));
+    const rates = calculateConversionRates(buildSnapshots(events));
+
+    const breaks = detectBreaks(rates, cusum);
+
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0].onsetDate! >= dateAt(14) && breaks[0].onsetDate! <= dateAt(15)).toBe(true);
+    expect(breaks[0].baselineRate).toBeCloseTo(0.8);
+    expect(breaks[0].currentRate).toBeLessThan(0.7);
+  });
+
+  it("should not flag a stable series", () => {
+    const events = clickLandingSeries(40, (d) => wobble(d, 800));
+    expect(detectBreaks(calculateConversionRates(buildSnapshots(events)), cusum)).toHaveLength(0);
+  });
+
+  it("should only report increases when enabled", () => {
+    const events = clickLandingSeries(30, (d) => wobble(d, d < 18 ? 500 : 800));
+    const rates = calculateConversionRates(buildSnapshots(events));
+
+    expect(detectBreaks(rates, cusum)).toHaveLength(0);
+
+    const breaks = detectBreaks(rates, { ...cusum, detectIncreases: true });
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0].direction).toBe(BreakDirection.INCREASE);
+    expect(breaks[0].onsetDate).toBe(dateAt(18));
+  });
+
+  it("should keep the window detector as the default", () => {
+    const events = clickLandingSeries(30, (d) => wobble(d, d < 18 ? 800 : 560));
+    const breaks = detectBreaks(calculateConversionRates(buildSnapshots(events)));
+
+    // The window detector can only date the onset to its first flagged day
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0].onsetDate).toBe(dateAt(19));
+  });
+
+  it("should end a drop where the level recovers", () => {
+    const events = clickLandingSeries(36, (d) => wobble(d, d >= 18 && d < 24 ? 560 : 800));
+    const breaks = detectBreaks(calculateConversionRates(buildSnapshots(events)), cusum);
+
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0].onsetDate).toBe(dateAt(18));
+    expect(breaks[0].lastSeenDate).toBe(dateAt(23));
+    expect(breaks[0].recoveryDate).toBe(dateAt(24));
+    expect(breaks[0].durationDays).toBe(6);
+    expect(breaks[0].active).toBe(false);
+  });
+
+  it("should apply to stage volumes", () => {
+    const events = clickLandingSeries(30, (d) => wobble(d, 800)).map((e) =>
+      e.stage === FunnelStage.CLICK && e.date >= dateAt(20) ? { ...e, count: 300 } : e
+    );
+    const breaks = detectVolumeBreaks(buildSnapshots(events), cusum);
+    const click = breaks.find((b) => b.fromStage === FunnelStage.CLICK);
+
+    expect(click).toBeDefined();
+    expect(click!.onsetDate).toBe(dateAt(20));
+    expect(click!.baselineRate).toBe(1000);
+    expect(click!.currentRate).toBe(300);
+  });
+});
@@ -0,0 +1,135 @@
+import { checkDataQuality } from "../DataQualityChecker";
+import { detectBreaks, detectVolumeBreaks } from "../BreakDetector";
+import { buildSnapshots, calculateConversionRates } from "../FunnelAnalyzer";
+import { DataQualityIssue, Event, FunnelStage } from "../../entities";
+
+function dateAt(offset: number): string {
+  const date = new Date("2025-01-01");
+  date.setDate(date.getDate() + offset);
+  return date.toISOString().split("T")[0];
+}
+
+function generateDays(
+  days: number,
+  countsFor: (day: number) => Partial<Record<FunnelStage, number>>,
+  source = "meta"
+): Event[] {
+  const events: Event[] = [];
+  for (let d = 0; d < days; d++) {
+    for (const [stage, count] of Object.entries(countsFor(d))) {
+      events.push({ date: dateAt(d), funnelId: "f1", stage, count: count!, source });
+    }
+  }
+  return events;
+}
+
+function run(events: Event[]) {
+  const snapshots = buildSnapshots(events);
+  const rates = calculateConversionRates(snapshots);
+  return { snapshots, rates, findings: checkDataQuality(events, snapshots, rates) };
+}
+
+const normal = { click: 1000, landing: 800 };
+
+describe("DataQualityChecker", () => {
+  it("should report nothing for clean data", () => {
+    const { findings } = run(generateDays(10, () => normal));
+    expect(findings).toEqual([]);
+  });
+
+  it("should report missing dates as one range per gap", () => {
+    const events = generateDays(10, () => normal).filter((e) => e.date !== dateAt(4) && e.date !== dateAt(5));
+
+    const { findings } = run(events);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      issue: DataQualityIssue.MISSING_DATES,
+      funnelId: "f1",
+      startDate: dateAt(4),
+      endDate: dateAt(5),
+    });
+    expect(findings[0].message).toContain("2 days");
+  });
+
+  it("should report a previously active stage stuck at zero", () => {
+    const { findings } = run(generateDays(10, (d) => ({ click: 1000, landing: d >= 3 && d <= 5 ? 0 : 800 })));
+
+    const zero = findings.filter((f) => f.issue === DataQualityIssue.STAGE_ZERO);
+    expect(zero).toHaveLength(1);
+    expect(zero[0]).toMatchObject({ stage: "landing", startDate: dateAt(3), endDate: dateAt(5) });
+  });
+
+  it("should ignore single zero days and stages that never reported", () => {
+    const { findings } = run(generateDays(10, (d) => ({ click: 1000, landing: d === 3 ? 0 : 800 })));
+    expect(findings).toEqual([]);
+  });
+
+  it("should report days where toCount exceeds fromCount", () => {
+    const { findings } = run(generateDays(10, (d) => ({ click: 1000, landing: d >= 7 ? 1600 : 800 })));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      issue: DataQualityIssue.IMPOSSIBLE_RATE,
+      fromStage: "click",
+      toStage: "landing",
+      startDate: dateAt(7),
+      endDate: dateAt(9),
+    });
+  });
+
+  it("should report a source that stops reporting while the funnel continues", () => {
+    const events = [
+      ...generateDays(10, () => normal, "meta"),
+      ...generateDays(6, () => ({ click: 300 }), "google"),
+    ];
+
+    const { findings } = run(events);
+    const gone = findings.find((f) => f.issue === DataQualityIssue.SOURCE_DISAPPEARED);
+
+    expect(gone).toMatchObject({ source: "google", sourceStages: ["click"], startDate: dateAt(6), endDate: dateAt(9) });
+  });
+
+  it("should keep days after a source disappears out of baselines and breaks", () => {
+    // Google clicks stop on day 20: total clicks fall 1700 -> 1000 and click->landing jumps 0.47 -> 0.8
+    const events = [
+      ...generateDays(30, () => normal, "meta"),
+      ...generateDays(20, () => ({ click: 700 }), "google"),
+    ];
+    const { snapshots, rates, findings } = run(events);
+    const config = { detectIncreases: true };
+
+    const unfilteredVolume = detectVolumeBreaks(snapshots);
+    const unfilteredConversion = detectBreaks(rates, config);
+    expect(unfilteredVolume).toHaveLength(1);
+    expect(unfilteredVolume[0]).toMatchObject({ fromStage: "click", direction: "drop" });
+    expect(unfilteredConversion).toHaveLength(1);
+    expect(unfilteredConversion[0]).toMatchObject({ fromStage: "click", toStage: "landing", direction: "increase" });
+
+    const volumeBreaks = detectVolumeBreaks(snapshots, undefined, findings);
+    const conversionBreaks = detectBreaks(rates, config, findings);
+
+    expect(volumeBreaks).toEqual([]);
+    expect(conversionBreaks).toEqual([]);
+  });
+
+  it("should keep flagged days out of the break detection baseline", () => {
+    // Landing tracking outage on days 4-5, then a real 30% landing drop from day 18
+    const events = generateDays(23, (d) => ({
+      click: 1000,
+      landing: d === 4 || d === 5 ? 0 : d >= 18 ? 560 : 800,
+    }));
+    const { rates, findings } = run(events);
+
+    const withoutFindings = detectBreaks(rates);
+    const withFindings = detectBreaks(rates, undefined, findings);
+
+    // Outage zeros drag the baseline down and delay the real break
+    expect(withoutFindings).toHaveLength(1);
+    expect(withoutFindings[0].baselineRate).toBeLessThan(0.78);
+
+    expect(withFindings).toHaveLength(1);
+    expect(withFindings[0].baselineRate).toBeCloseTo(0.8);
+    expect(withFindings[0].detectedDate < withoutFindings[0].detectedDate).toBe(true);
+  });
+});
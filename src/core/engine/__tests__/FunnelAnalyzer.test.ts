@@ -1,5 +1,5 @@
 import { buildSnapshots, calculateConversionRates } from "../FunnelAnalyzer";
-import { Event, FunnelStage, FunnelSnapshot, STAGE_ORDER } from "../../entities";
+import { Event, FunnelStage, FunnelSnapshot, FunnelDefinition, STAGE_ORDER, TransitionKind } from "../../entities";
 
 describe("FunnelAnalyzer", () => {
   describe("buildSnapshots", () => {
@@ -73,6 +73,25 @@ describe("FunnelAnalyzer", () => {
     it("should return empty array for empty input", () => {
       expect(buildSnapshots([])).toEqual([]);
     });
+
+    it("should use the funnel's own stage definition when one is given", () => {
+      const definitions: FunnelDefinition[] = [
+        { funnelId: "saas", stages: ["visit", "signup", "activation", "trial", "paid"] },
+      ];
+      const events: Event[] = [
+        { date: "2025-01-01", funnelId: "saas", stage: "visit", count: 5000 },
+        { date: "2025-01-01", funnelId: "saas", stage: "signup", count: 400 },
+        { date: "2025-01-01", funnelId: "camp-a", stage: FunnelStage.IMPRESSION, count: 1000 },
+      ];
+
+      const snapshots = buildSnapshots(events, definitions);
+      const saas = snapshots.find((s: FunnelSnapshot) => s.funnelId === "saas")!;
+      const campA = snapshots.find((s: FunnelSnapshot) => s.funnelId === "camp-a")!;
+
+      expect(Object.keys(saas.stageCounts)).toEqual(["visit", "signup", "activation", "trial", "paid"]);
+      expect(saas.stageCounts.activation).toBe(0);
+      expect(Object.keys(campA.stageCounts)).toEqual([...STAGE_ORDER]);
+    });
   });
 
   describe("calculateConversionRates", () => {
@@ -124,5 +143,56 @@ describe("FunnelAnalyzer", () => {
     it("should return empty array for empty input", () => {
       expect(calculateConversionRates([])).toEqual([]);
     });
+
+    it("should follow custom stage order for defined funnels", () => {
+      const definitions: FunnelDefinition[] = [
+        { funnelId: "app", stages: ["install", "open", "register", "subscribe"] },
+      ];
+      const events: Event[] = [
+        { date: "2025-01-01", funnelId: "app", stage: "install", count: 1000 },
+        { date: "2025-01-01", funnelId: "app", stage: "open", count: 800 },
+        { date: "2025-01-01", funnelId: "app", stage: "register", count: 200 },
+        { date: "2025-01-01", funnelId: "app", stage: "subscribe", count: 20 },
+      ];
+
+      const rates = calculateConversionRates(buildSnapshots(events, definitions), definitions);
+
+      expect(rates[0].rates.map((r) => `${r.fromStage}->${r.toStage}`)).toEqual([
+        "install->open",
+        "open->register",
+        "register->subscribe",
+      ]);
+      expect(rates[0].rates[1].rate).toBeCloseTo(0.25);
+    });
+
+    it("should add configured extra and end-to-end transitions after adjacent ones", () => {
+      const events: Event[] = [
+        { date: "2025-01-01", funnelId: "camp-a", stage: FunnelStage.IMPRESSION, count: 1000 },
+        { date: "2025-01-01", funnelId: "camp-a", stage: FunnelStage.CLICK, count: 200 },
+        { date: "2025-01-01", funnelId: "camp-a", stage: FunnelStage.LANDING, count: 150 },
+        { date: "2025-01-01", funnelId: "camp-a", stage: FunnelStage.LEAD, count: 30 },
+        { date: "2025-01-01", funnelId: "camp-a", stage: FunnelStage.PURCHASE, count: 10 },
+      ];
+
+      const rates = calculateConversionRates(buildSnapshots(events), [], {
+        extraTransitions: [
+          { fromStage: FunnelStage.CLICK, toStage: FunnelStage.LEAD },
+          { fromStage: FunnelStage.LEAD, toStage: FunnelStage.CLICK }, // wrong direction, ignored
+          { fromStage: FunnelStage.IMPRESSION, toStage: FunnelStage.LANDING, funnelId: "camp-b" },
+        ],
+        includeEndToEnd: true,
+      });
+
+      expect(rates[0].rates).toHaveLength(6);
+      expect(rates[0].rates.slice(0, 4).every((r) => r.kind === TransitionKind.ADJACENT)).toBe(true);
+
+      const clickToLead = rates[0].rates[4];
+      expect(clickToLead).toMatchObject({ fromStage: "click", toStage: "lead", kind: TransitionKind.SKIP });
+      expect(clickToLead.rate).toBeCloseTo(0.15);
+
+      const endToEnd = rates[0].rates[5];
+      expect(endToEnd).toMatchObject({ fromStage: "impression", toStage: "purchase", kind: TransitionKind.END_TO_END });
+      expect(endToEnd.rate).toBeCloseTo(0.01);
+    });
   });
 });
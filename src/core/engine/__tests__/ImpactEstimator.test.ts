@@ -0,0 +1,127 @@
+import { compareBreaks, estimateImpact, resolveImpactConfig } from "../ImpactEstimator";
+import { FunnelSnapshot, TransitionKind } from "../../entities/Event";
+import { Break, BreakDirection, BreakSeverity, BreakType } from "../../entities/Diagnosis";
+import { addDays } from "../../../utils/time";
+
+/** 14 baseline days from 2025-01-01, then `dropDays` days where only `landing` falls to `droppedLanding`. */
+function makeSnapshots(dropDays: number, droppedLanding: number): FunnelSnapshot[] {
+  return Array.from({ length: 14 + dropDays }, (_, d) => {
+    const landing = d < 14 ? 800 : droppedLanding;
+    return {
+      date: addDays("2025-01-01", d),
+      funnelId: "test-funnel",
+      stageCounts: { impression: 10000, click: 1000, landing, lead: landing / 4, purchase: landing / 20 },
+    };
+  });
+}
+
+function makeBreak(overrides: Partial<Break> = {}): Break {
+  return {
+    breakType: BreakType.CONVERSION,
+    funnelId: "test-funnel",
+    fromStage: "click",
+    toStage: "landing",
+    transitionKind: TransitionKind.ADJACENT,
+    direction: BreakDirection.DROP,
+    detectedDate: "2025-01-15",
+    onsetDate: "2025-01-15",
+    lastSeenDate: "2025-01-19",
+    durationDays: 5,
+    active: true,
+    baselineRate: 0.8,
+    expectedRate: 0.8,
+    currentRate: 0.4,
+    absoluteDrop: 0.4,
+    relativeDrop: 0.5,
+    zScore: 4,
+    severity: BreakSeverity.CRITICAL,
+    ...overrides,
+  };
+}
+
+describe("ImpactEstimator", () => {
+  describe("estimateImpact", () => {
+    it("should count conversions lost against the expected rate and carry them down the funnel", () => {
+      const [brk] = estimateImpact([makeBreak()], makeSnapshots(5, 400));
+
+      expect(brk.impact!.days).toBe(5);
+      expect(brk.impact!.lostConversions).toBeCloseTo(5 * 400);
+      expect(brk.impact!.lostByStage).toEqual({ landing: 2000, lead: 500, purchase: 100 });
+      expect(brk.impact!.lostRevenue).toBeUndefined();
+    });
+
+    it("should stop counting at recovery", () => {
+      const [brk] = estimateImpact(
+        [makeBreak({ recoveryDate: "2025-01-17", active: false })],
+        makeSnapshots(5, 400)
+      );
+
+      expect(brk.impact!.days).toBe(2);
+      expect(brk.impact!.lostConversions).toBeCloseTo(800);
+    });
+
+    it("should price the deepest valued stage", () => {
+      const config = { stageValues: { lead: 10, purchase: 80 } };
+      const [brk] = estimateImpact([makeBreak()], makeSnapshots(5, 400), [], config);
+
+      expect(brk.impact!.revenueStage).toBe("purchase");
+      expect(brk.impact!.lostRevenue).toBeCloseTo(100 * 80);
+    });
+
+    it("should use per-funnel stage values over global ones", () => {
+      const config = { stageValues: { purchase: 80 }, funnels: { "test-funnel": { stageValues: { purchase: 120 } } } };
+      const [brk] = estimateImpact([makeBreak()], makeSnapshots(5, 400), [], config);
+
+      expect(brk.impact!.lostRevenue).toBeCloseTo(100 * 120);
+    });
+
+    it("should compare stage volume against the expected volume for volume breaks", () => {
+      const volumeBreak = makeBreak({
+        breakType: BreakType.VOLUME,
+        fromStage: "landing",
+        toStage: "landing",
+        transitionKind: TransitionKind.STAGE,
+        baselineRate: 800,
+        expectedRate: 800,
+        currentRate: 400,
+      });
+
+      const [brk] = estimateImpact([volumeBreak], makeSnapshots(5, 400));
+
+      expect(brk.impact!.lostConversions).toBeCloseTo(2000);
+      expect(brk.impact!.lostByStage.purchase).toBeCloseTo(100);
+    });
+
+    it("should leave increases without an impact", () => {
+      const [brk] = estimateImpact([makeBreak({ direction: BreakDirection.INCREASE })], makeSnapshots(5, 900));
+
+      expect(brk.impact).toBeUndefined();
+    });
+  });
+
+  describe("resolveImpactConfig", () => {
+    it("should merge funnel stage values over global ones", () => {
+      const config = resolveImpactConfig({ stageValues: { lead: 10, purchase: 80 }, funnels: { a: { stageValues: { purchase: 50 } } } }, "a");
+
+      expect(config.stageValues).toEqual({ lead: 10, purchase: 50 });
+    });
+  });
+
+  describe("compareBreaks", () => {
+    const small = makeBreak({ detectedDate: "2025-01-10", severity: BreakSeverity.CRITICAL, impact: { days: 1, lostConversions: 10, lostByStage: { landing: 10, purchase: 1 } } });
+    const large = makeBreak({ detectedDate: "2025-01-12", severity: BreakSeverity.WARNING, impact: { days: 5, lostConversions: 900, lostByStage: { landing: 900, purchase: 45 } } });
+    const priced = makeBreak({ detectedDate: "2025-01-14", severity: BreakSeverity.SIGNIFICANT, impact: { days: 2, lostConversions: 100, lostByStage: { landing: 100, purchase: 5 }, lostRevenue: 400, revenueStage: "purchase" } });
+
+    it("should rank by lost revenue, then lost final-stage conversions", () => {
+      expect([small, large, priced].sort(compareBreaks("impact"))).toEqual([priced, large, small]);
+    });
+
+    it("should rank by severity", () => {
+      expect([large, priced, small].sort(compareBreaks("severity"))).toEqual([small, priced, large]);
+    });
+
+    it("should keep detection order", () => {
+      expect([priced, large, small].sort(compareBreaks("detected"))).toEqual([small, large, priced]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { correlateAcrossFunnels, correlateBreaks } from "../IncidentCorrelator";
+import { FunnelStage, TransitionKind } from "../../entities/Event";
+import { Break, BreakDirection, BreakSeverity, BreakType } from "../../entities/Diagnosis";
+import { IncidentRole } from "../../entities/Incident";
+
+function makeBreak(overrides: Partial<Break> = {}): Break {
+  const onsetDate = overrides.onsetDate ?? "2025-01-15";
+  return {
+    breakType: BreakType.CONVERSION,
+    funnelId: "test-funnel",
+    fromStage: FunnelStage.CLICK,
+    toStage: FunnelStage.LANDING,
+    transitionKind: TransitionKind.ADJACENT,
+    direction: BreakDirection.DROP,
+    detectedDate: onsetDate,
+    onsetDate,
+    lastSeenDate: onsetDate,
+    durationDays: 1,
+    active: true,
+    baselineRate: 0.75,
+    expectedRate: 0.75,
+    currentRate: 0.45,
+    absoluteDrop: 0.30,
+    relativeDrop: 0.40,
+    zScore: 3.5,
+    severity: BreakSeverity.SIGNIFICANT,
+    ...overrides,
+  };
+}
+
+function volumeBreak(stage: string, overrides: Partial<Break> = {}): Break {
+  return makeBreak({
+    breakType: BreakType.VOLUME,
+    fromStage: stage,
+    toStage: stage,
+    transitionKind: TransitionKind.STAGE,
+    ...overrides,
+  });
+}
+
+describe("IncidentCorrelator", () => {
+  it("should group a cascade under its most upstream break", () => {
+    const incidents = correlateBreaks([
+      makeBreak({ fromStage: FunnelStage.IMPRESSION, toStage: FunnelStage.PURCHASE, transitionKind: TransitionKind.END_TO_END, onsetDate: "2025-01-16" }),
+      volumeBreak(FunnelStage.LEAD, { onsetDate: "2025-01-17", severity: BreakSeverity.CRITICAL }),
+      makeBreak({ fromStage: FunnelStage.LANDING, toStage: FunnelStage.LEAD, onsetDate: "2025-01-15" }),
+      makeBreak({ fromStage: FunnelStage.CLICK, toStage: FunnelStage.LEAD, transitionKind: TransitionKind.SKIP, onsetDate: "2025-01-15" }),
+    ]);
+
+    expect(incidents).toHaveLength(1);
+    const [incident] = incidents;
+    expect(incident.root.fromStage).toBe(FunnelStage.LANDING);
+    expect(incident.root.toStage).toBe(FunnelStage.LEAD);
+    expect(incident.root.incidentRole).toBe(IncidentRole.ROOT);
+    expect(incident.symptoms.map((b) => `${b.breakType}:${b.fromStage}->${b.toStage}`)).toEqual([
+      "conversion:click->lead",
+      "volume:lead->lead",
+      "conversion:impression->purchase",
+    ]);
+    expect(incident.symptoms.every((b) => b.incidentRole === IncidentRole.SYMPTOM && b.incidentId === incident.id)).toBe(true);
+    expect(incident.onsetDate).toBe("2025-01-15");
+    expect(incident.severity).toBe(BreakSeverity.CRITICAL);
+  });
+
+  it("should start a new incident when onsets are further apart than the window", () => {
+    const breaks = [
+      makeBreak({ onsetDate: "2025-01-10" }),
+      volumeBreak(FunnelStage.LANDING, { onsetDate: "2025-01-13" }),
+      makeBreak({ fromStage: FunnelStage.LEAD, toStage: FunnelStage.PURCHASE, onsetDate: "2025-01-14" }),
+    ];
+
+    expect(correlateBreaks(breaks).map((i) => i.symptoms.length)).toEqual([1, 0]);
+    expect(correlateBreaks(breaks, [], { maxOnsetGapDays: 5 })).toHaveLength(1);
+  });
+
+  it("should keep funnels and directions apart", () => {
+    const incidents = correlateBreaks([
+      makeBreak(),
+      makeBreak({ funnelId: "other-funnel" }),
+      makeBreak({ fromStage: FunnelStage.LANDING, toStage: FunnelStage.LEAD, direction: BreakDirection.INCREASE }),
+    ]);
+
+    expect(incidents).toHaveLength(3);
+    expect(incidents.every((i) => i.symptoms.length === 0)).toBe(true);
+  });
+
+  it("should be active while any of its breaks is active", () => {
+    const [incident] = correlateBreaks([
+      makeBreak({ active: false, recoveryDate: "2025-01-18" }),
+      volumeBreak(FunnelStage.LANDING, { onsetDate: "2025-01-16" }),
+    ]);
+
+    expect(incident.root.active).toBe(false);
+    expect(incident.active).toBe(true);
+  });
+
+  it("should order custom funnel stages by their definition", () => {
+    const definitions = [{ funnelId: "saas", stages: ["visit", "signup", "trial", "paid"] }];
+    const [incident] = correlateBreaks([
+      makeBreak({ funnelId: "saas", fromStage: "trial", toStage: "paid" }),
+      makeBreak({ funnelId: "saas", fromStage: "visit", toStage: "signup" }),
+    ], definitions);
+
+    expect(incident.root.fromStage).toBe("visit");
+    expect(incident.symptoms[0].fromStage).toBe("trial");
+  });
+
+  it("should return no incidents for no breaks", () => {
+    expect(correlateBreaks([])).toEqual([]);
+  });
+
+  describe("correlateAcrossFunnels", () => {
+    it("should raise one global incident for the same transition breaking in several funnels", () => {
+      const breaks = [
+        makeBreak({ funnelId: "b", onsetDate: "2025-01-16", severity: BreakSeverity.CRITICAL }),
+        makeBreak({ funnelId: "a", onsetDate: "2025-01-15" }),
+        makeBreak({ funnelId: "c", onsetDate: "2025-01-17", active: false }),
+        makeBreak({ funnelId: "a", fromStage: FunnelStage.LANDING, toStage: FunnelStage.LEAD }),
+      ];
+
+      const { breaks: tagged, globalIncidents } = correlateAcrossFunnels(breaks);
+
+      expect(globalIncidents).toHaveLength(1);
+      const [global] = globalIncidents;
+      expect(global.funnelIds).toEqual(["a", "b", "c"]);
+      expect(global.onsetDate).toBe("2025-01-15");
+      expect(global.severity).toBe(BreakSeverity.CRITICAL);
+      expect(global.active).toBe(true);
+      expect(tagged.map((b) => b.globalIncidentId)).toEqual([global.id, global.id, global.id, undefined]);
+    });
+
+    it("should not raise a global incident for a single funnel or far-apart onsets", () => {
+      const breaks = [
+        makeBreak({ funnelId: "a", onsetDate: "2025-01-01" }),
+        makeBreak({ funnelId: "a", onsetDate: "2025-01-02", breakType: BreakType.VOLUME }),
+        makeBreak({ funnelId: "b", onsetDate: "2025-01-20" }),
+      ];
+
+      expect(correlateAcrossFunnels(breaks).globalIncidents).toHaveLength(0);
+    });
+
+    it("should honour minGlobalFunnels", () => {
+      const breaks = [makeBreak({ funnelId: "a" }), makeBreak({ funnelId: "b" })];
+
+      expect(correlateAcrossFunnels(breaks, { minGlobalFunnels: 3 }).globalIncidents).toHaveLength(0);
+      expect(correlateAcrossFunnels(breaks, { minGlobalFunnels: 2 }).globalIncidents).toHaveLength(1);
+    });
+  });
+});
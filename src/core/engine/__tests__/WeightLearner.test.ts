@@ -0,0 +1,133 @@
+import { learnWeights } from "../WeightLearner";
+import { ChangeCategory } from "../../entities/Change";
+import { BreakDirection, BreakType } from "../../entities/Diagnosis";
+import { FeedbackVerdict, LabeledCause } from "../../entities/Feedback";
+
+function makeLabel(overrides: Partial<LabeledCause> = {}): LabeledCause {
+  const label = overrides.label ?? 0;
+  return {
+    diagnosisId: "1",
+    breakId: "1",
+    funnelId: "test-funnel",
+    breakType: BreakType.CONVERSION,
+    direction: BreakDirection.DROP,
+    fromStage: "click",
+    toStage: "landing",
+    onsetDate: "2025-01-15",
+    changeDate: "2025-01-14",
+    changeCategory: ChangeCategory.SITE,
+    changeDescription: "Deployed new landing page",
+    changeSeverity: 3,
+    rank: 1,
+    confidence: 0.5,
+    temporalScore: 0.5,
+    categoryRelevanceScore: 0.5,
+    severityScore: 0.5,
+    stageMatchBonus: 0,
+    wildcardBoost: 0,
+    verdict: label === 1 ? FeedbackVerdict.CONFIRMED : FeedbackVerdict.REJECTED,
+    ...overrides,
+    label,
+  };
+}
+
+/**
+ * Diagnoses where the analyzer ranked a severe but stale change first, while the
+ * confirmed cause was always the most recent change.
+ */
+function recencyHistory(count: number): LabeledCause[] {
+  const labels: LabeledCause[] = [];
+  for (let d = 1; d <= count; d++) {
+    const diagnosisId = String(d);
+    labels.push(
+      makeLabel({ diagnosisId, rank: 1, confidence: 0.7, temporalScore: 0.3, severityScore: 1, changeDescription: "Severe stale change" }),
+      makeLabel({ diagnosisId, rank: 2, confidence: 0.6, temporalScore: 1, severityScore: 0.25, changeDescription: "Recent change", label: 1 }),
+      makeLabel({ diagnosisId, rank: 3, confidence: 0.4, temporalScore: 0.1, severityScore: 0.5, changeDescription: "Old change" }),
+    );
+  }
+  return labels;
+}
+
+describe("WeightLearner", () => {
+  describe("learnWeights", () => {
+    it("should learn to weight the feature that separates confirmed causes", () => {
+      const result = learnWeights(recencyHistory(10));
+
+      expect(result.config.temporalWeight).toBeGreaterThan(result.config.severityWeight);
+      expect(result.validation.baseline.top1).toBe(0);
+      expect(result.validation.learned.top1).toBe(1);
+      expect(result.validation.learned.top3).toBe(1);
+      expect(result.validation.learned.diagnoses).toBe(10);
+    });
+
+    it("should produce non-negative weights summing to 1", () => {
+      const { config } = learnWeights(recencyHistory(6));
+      const weights = [config.temporalWeight, config.categoryWeight, config.severityWeight, config.stageMatchWeight];
+
+      for (const weight of weights) expect(weight).toBeGreaterThanOrEqual(0);
+      expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 2);
+    });
+
+    it("should raise relevance of categories that are confirmed more often than average", () => {
+      const labels: LabeledCause[] = [];
+      for (let d = 1; d <= 8; d++) {
+        const diagnosisId = String(d);
+        labels.push(
+          makeLabel({ diagnosisId, rank: 1, changeCategory: ChangeCategory.AD, categoryRelevanceScore: 0.6 }),
+          makeLabel({ diagnosisId, rank: 2, changeCategory: ChangeCategory.TRACKING, categoryRelevanceScore: 0.6, label: 1 }),
+        );
+      }
+
+      const relevance = learnWeights(labels).config.customStageRelevance;
+
+      expect(relevance[ChangeCategory.TRACKING]!["click->landing"]).toBeGreaterThan(0.6);
+      expect(relevance[ChangeCategory.AD]!["click->landing"]).toBeLessThan(0.6);
+    });
+
+    it("should key volume break relevance by the bare stage", () => {
+      const labels = [
+        makeLabel({ breakType: BreakType.VOLUME, fromStage: "purchase", toStage: "purchase", label: 1 }),
+        makeLabel({ breakType: BreakType.VOLUME, fromStage: "purchase", toStage: "purchase", rank: 2, changeCategory: ChangeCategory.AD }),
+      ];
+
+      const relevance = learnWeights(labels).config.customStageRelevance;
+
+      expect(relevance[ChangeCategory.SITE]).toHaveProperty("purchase");
+      expect(relevance[ChangeCategory.AD]).toHaveProperty("purchase");
+    });
+
+    it("should not learn relevance from increase breaks", () => {
+      const labels = [
+        makeLabel({ direction: BreakDirection.INCREASE, changeCategory: ChangeCategory.TRACKING, label: 1 }),
+        makeLabel({ direction: BreakDirection.INCREASE, rank: 2 }),
+      ];
+
+      expect(learnWeights(labels).config.customStageRelevance).toEqual({});
+    });
+
+    it("should validate in-sample when there is a single diagnosis", () => {
+      const result = learnWeights(recencyHistory(1));
+
+      expect(result.validation.folds).toBe(1);
+      expect(result.validation.learned.diagnoses).toBe(1);
+    });
+
+    it("should only rank diagnoses that have a confirmed cause", () => {
+      const labels = [
+        ...recencyHistory(4),
+        makeLabel({ diagnosisId: "9", rank: 1 }),
+        makeLabel({ diagnosisId: "9", rank: 2 }),
+      ];
+
+      const result = learnWeights(labels);
+
+      expect(result.examples).toBe(14);
+      expect(result.validation.learned.diagnoses).toBe(4);
+      expect(result.validation.baseline.diagnoses).toBe(4);
+    });
+
+    it("should throw when no diagnosis has a confirmed cause", () => {
+      expect(() => learnWeights([makeLabel()])).toThrow(/no diagnosis has a confirmed cause/);
+    });
+  });
+});
@@ -1,3 +1,4 @@
+/** Built-in categories; a CategoryTaxonomy adds more, and subcategories of any of them. */
 export enum ChangeCategory {
   AD = "ad",
   SITE = "site",
@@ -7,12 +8,51 @@ export enum ChangeCategory {
   AUDIENCE = "audience",
 }
 
+export interface CategoryDefinition {
+  /** Relevance per "from->to" transition, or bare stage for volume breaks, in [0, 1]. */
+  stageRelevance?: Record<string, number>;
+  /** Relevance to volume breaks at stages without their own score. */
+  volumeRelevance?: number;
+  description?: string;
+}
+
+/**
+ * User-defined categories by id. "parent/child" ids are subcategories: they start from
+ * their parent's relevance profile and override the scores they list.
+ */
+export type CategoryTaxonomy = Record<string, CategoryDefinition>;
+
+const BUILT_IN_CATEGORIES = new Set<string>(Object.values(ChangeCategory));
+
+/** "site/checkout" -> "site"; undefined for top-level categories. */
+export function parentCategory(category: string): string | undefined {
+  const separator = category.lastIndexOf("/");
+  return separator > 0 ? category.slice(0, separator) : undefined;
+}
+
+/** "site/checkout/cart" -> "site". */
+export function rootCategory(category: string): string {
+  return category.split("/")[0];
+}
+
+/** Built-in, or declared in the taxonomy. */
+export function isKnownCategory(category: string, taxonomy: CategoryTaxonomy = {}): boolean {
+  return BUILT_IN_CATEGORIES.has(category) || category in taxonomy;
+}
+
 export interface Change {
   id?: string;
   date: string;
   funnelId: string;
-  category: ChangeCategory;
+  /** A ChangeCategory or a category id declared in the taxonomy, e.g. "email" or "site/checkout". */
+  category: string;
   description: string;
   severity: number;
   affectedStages?: string[];
+  /** Last day the change was in effect, for campaigns and other ranged changes; unset if it still is. */
+  endDate?: string;
+  /** Share of traffic that got the change, in (0, 100]; unset means all of it. */
+  rolloutPercent?: number;
+  /** Id of the earlier change this one undoes. */
+  revertsChangeId?: string;
 }
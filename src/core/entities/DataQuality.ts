@@ -0,0 +1,23 @@
+export enum DataQualityIssue {
+  MISSING_DATES = "missing_dates",
+  STAGE_ZERO = "stage_zero",
+  IMPOSSIBLE_RATE = "impossible_rate",
+  SOURCE_DISAPPEARED = "source_disappeared",
+}
+
+export interface DataQualityFinding {
+  issue: DataQualityIssue;
+  funnelId: string;
+  startDate: string;
+  endDate: string;
+  /** STAGE_ZERO: the stuck stage. */
+  stage?: string;
+  /** IMPOSSIBLE_RATE: the transition whose toCount exceeded fromCount. */
+  fromStage?: string;
+  toStage?: string;
+  /** SOURCE_DISAPPEARED: the source that stopped reporting. */
+  source?: string;
+  /** SOURCE_DISAPPEARED: the stages the source reported while it was active. */
+  sourceStages?: string[];
+  message: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * "stddev": z-score of the current mean against the spread of daily baseline rates.
+ * "two-proportion": pooled baseline vs current counts, one-sided two-proportion z-test.
+ */
+export type SignificanceTest = "stddev" | "two-proportion";
+
+/**
+ * "none": the current window is compared with the flat baseline mean.
+ * "day-of-week": each current day is compared with the same weekday in the baseline window.
+ */
+export type Seasonality = "none" | "day-of-week";
+
+/**
+ * "window": rolling baseline window vs current window, judged by significanceTest.
+ * "cusum": two-sided CUSUM change-point detection with onset dating; ignores the window sizes.
+ */
+export type DetectorStrategy = "window" | "cusum";
+
+export interface BreakDetectorConfig {
+  detector: DetectorStrategy;
+  baselineWindowDays: number;
+  currentWindowDays: number;
+  minRelativeDrop: number;
+  minZScore: number;
+  minBaselineDataPoints: number;
+  significanceTest: SignificanceTest;
+  seasonality: Seasonality;
+  /** Two-proportion only: largest p-value still reported as a break. */
+  maxPValue: number;
+  /** Two-proportion only: confidence level of the reported drop interval. */
+  confidenceLevel: number;
+  /** Two-proportion only: skip windows whose summed fromCount (baseline or current) is below this. */
+  minWindowVolume: number;
+  /** Also report abnormal increases, e.g. double-firing pixels inflating a stage. */
+  detectIncreases: boolean;
+  minRelativeIncrease: number;
+  /** CUSUM only: alarm threshold on the cumulative sum, in baseline standard deviations. */
+  cusumThreshold: number;
+  /** CUSUM only: per-day slack, in baseline standard deviations, before deviations accumulate. */
+  cusumDrift: number;
+}
+
+/** Settings a series was judged with, and the override layers (config paths) that applied. */
+export interface EffectiveDetectorConfig extends BreakDetectorConfig {
+  layers: string[];
+}
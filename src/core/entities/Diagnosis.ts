@@ -1,18 +1,75 @@
-import { FunnelStage } from "./Event";
-import { ChangeCategory } from "./Change";
+import { TransitionKind } from "./Event";
+import { IncidentRole } from "./Incident";
+import { CauseFeedback } from "./Feedback";
+import { EffectiveDetectorConfig } from "./DetectorConfig";
 
 export interface Break {
   id?: string;
+  /** VOLUME breaks compare daily stage counts: the *Rate fields hold counts and fromStage === toStage. */
+  breakType: BreakType;
   funnelId: string;
-  fromStage: FunnelStage;
-  toStage: FunnelStage;
+  fromStage: string;
+  toStage: string;
+  transitionKind: TransitionKind;
+  direction: BreakDirection;
   detectedDate: string;
+  /** First day of the new level (change-point detectors) or first flagged day (window detector). */
+  onsetDate: string;
+  /** Last day the break was still flagged. */
+  lastSeenDate: string;
+  /** First day back within threshold of expectedRate after lastSeenDate; unset while active. */
+  recoveryDate?: string;
+  /** Days from onset to recovery, or through the last data point while active. */
+  durationDays: number;
+  /** Not yet recovered as of the last data point of its series. */
+  active: boolean;
   baselineRate: number;
+  /** Rate the current window was compared against; differs from baselineRate under seasonality. */
+  expectedRate: number;
   currentRate: number;
+  /** Negative for increases. */
   absoluteDrop: number;
+  /** Negative for increases. */
   relativeDrop: number;
   zScore: number;
   severity: BreakSeverity;
+  /** Set by the two-proportion test: one-sided p-value of the drop. */
+  pValue?: number;
+  /** Set by the two-proportion test: interval for absoluteDrop. */
+  confidenceInterval?: { lower: number; upper: number };
+  /** Set by the detector: the thresholds this break's series was judged with. */
+  detectorConfig?: EffectiveDetectorConfig;
+  /** Set once breaks are correlated into incidents. */
+  incidentId?: string;
+  incidentRole?: IncidentRole;
+  /** Set when the same transition broke in other funnels at the same time. */
+  globalIncidentId?: string;
+  /** Set on drops once impact is estimated. */
+  impact?: BreakImpact;
+}
+
+/** What a drop cost against its expected rate (or expected stage volume), over its duration. */
+export interface BreakImpact {
+  /** Days from onset to the day before recovery, or through the last data point while active. */
+  days: number;
+  /** Conversions lost into the stage the break is at: toStage, or the stage itself for volume breaks. */
+  lostConversions: number;
+  /** lostConversions carried down the funnel at the baseline stage-to-stage rates, by stage. */
+  lostByStage: Record<string, number>;
+  /** Set when a stage at or below the break has a value. */
+  lostRevenue?: number;
+  /** The deepest valued stage, whose lost conversions lostRevenue prices. */
+  revenueStage?: string;
+}
+
+export enum BreakType {
+  CONVERSION = "conversion",
+  VOLUME = "volume",
+}
+
+export enum BreakDirection {
+  DROP = "drop",
+  INCREASE = "increase",
 }
 
 export enum BreakSeverity {
@@ -22,9 +79,10 @@ export enum BreakSeverity {
 }
 
 export interface CauseCandidate {
+  id?: string;
   changeId: string;
   changeDescription: string;
-  changeCategory: ChangeCategory;
+  changeCategory: string;
   changeDate: string;
   changeSeverity: number;
   confidence: number;
@@ -33,7 +91,30 @@ export interface CauseCandidate {
     categoryRelevanceScore: number;
     severityScore: number;
     stageMatchBonus: number;
+    /** Added to confidence for "*" changes when the break is part of a global incident. */
+    wildcardBoost: number;
+    /** Share of the break's shift not seen in control funnels; set when causal scoring ran. */
+    causalScore?: number;
+    /** Added to confidence when the break recovered right after the change was reverted. */
+    revertBoost?: number;
+    /** Confidence multiplier in (0, 1] for partial rollouts too small to explain the whole break. */
+    rolloutFactor?: number;
   };
+  /** Date of the change that reverted this one, if any. */
+  revertDate?: string;
+  /** Difference-in-differences evidence behind causalScore. */
+  causalEstimate?: CausalEstimate;
+  /** Set on stored diagnoses once a reviewer confirmed or rejected this cause for the break. */
+  feedback?: CauseFeedback;
+}
+
+/** The broken funnel's shift across a change date against funnels that did not get the change. */
+export interface CausalEstimate {
+  /** Relative change of the break's rate (or stage volume) from before the change to after it. */
+  treatedShift: number;
+  /** Mean relative change of the same series in the control funnels. */
+  controlShift: number;
+  controlFunnels: string[];
 }
 
 export interface Diagnosis {
@@ -43,6 +124,11 @@ export interface Diagnosis {
   causes: CauseCandidate[];
   diagnosisStatus: DiagnosisStatus;
   summary: string;
+  /**
+   * Set on stored incident symptoms, which rank no causes of their own: the id of their root's
+   * diagnosis. Within a run, the root is the diagnosis of the incident named by break.incidentId.
+   */
+  rootDiagnosisId?: string;
 }
 
 export enum DiagnosisStatus {
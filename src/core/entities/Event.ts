@@ -6,6 +6,7 @@ export enum FunnelStage {
   PURCHASE = "purchase",
 }
 
+/** Default stage order, used for funnels without their own definition. */
 export const STAGE_ORDER: readonly FunnelStage[] = [
   FunnelStage.IMPRESSION,
   FunnelStage.CLICK,
@@ -14,11 +15,19 @@ export const STAGE_ORDER: readonly FunnelStage[] = [
   FunnelStage.PURCHASE,
 ] as const;
 
+export enum TransitionKind {
+  ADJACENT = "adjacent",
+  SKIP = "skip",
+  END_TO_END = "end_to_end",
+  /** A single stage's own volume (fromStage === toStage). */
+  STAGE = "stage",
+}
+
 export interface Event {
   id?: string;
   date: string;
   funnelId: string;
-  stage: FunnelStage;
+  stage: string;
   count: number;
   source?: string;
 }
@@ -26,15 +35,16 @@ export interface Event {
 export interface FunnelSnapshot {
   date: string;
   funnelId: string;
-  stageCounts: Record<FunnelStage, number>;
+  stageCounts: Record<string, number>;
 }
 
 export interface ConversionRates {
   date: string;
   funnelId: string;
   rates: {
-    fromStage: FunnelStage;
-    toStage: FunnelStage;
+    fromStage: string;
+    toStage: string;
+    kind: TransitionKind;
     rate: number;
     fromCount: number;
     toCount: number;
@@ -0,0 +1,43 @@
+import { BreakDirection, BreakType } from "./Diagnosis";
+
+export enum FeedbackVerdict {
+  CONFIRMED = "confirmed",
+  REJECTED = "rejected",
+}
+
+/** A reviewer's verdict on one cause candidate. */
+export interface CauseFeedback {
+  verdict: FeedbackVerdict;
+  note?: string;
+  recordedAt: string;
+}
+
+/**
+ * One candidate of a diagnosis that received feedback, with the scores it was ranked by.
+ * Candidates left unlabeled in a diagnosis with a confirmed cause count as negatives.
+ */
+export interface LabeledCause {
+  diagnosisId: string;
+  breakId: string;
+  funnelId: string;
+  breakType: BreakType;
+  direction: BreakDirection;
+  fromStage: string;
+  toStage: string;
+  onsetDate: string;
+  changeDate: string;
+  changeCategory: string;
+  changeDescription: string;
+  changeSeverity: number;
+  /** 1-based position in the diagnosis ranking. */
+  rank: number;
+  confidence: number;
+  temporalScore: number;
+  categoryRelevanceScore: number;
+  severityScore: number;
+  stageMatchBonus: number;
+  wildcardBoost: number;
+  /** Unset for candidates nobody reviewed. */
+  verdict?: FeedbackVerdict;
+  label: 0 | 1;
+}
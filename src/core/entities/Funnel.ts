@@ -0,0 +1,37 @@
+import { STAGE_ORDER } from "./Event";
+
+export const WILDCARD_FUNNEL_ID = "*";
+
+export interface FunnelDefinition {
+  funnelId: string;
+  stages: string[];
+}
+
+/** Ordered stages for a funnel: its own definition, then a "*" definition, then STAGE_ORDER. */
+export function resolveStageOrder(
+  funnelId: string,
+  definitions: FunnelDefinition[] = []
+): readonly string[] {
+  const own = definitions.find((d) => d.funnelId === funnelId);
+  if (own) return own.stages;
+  const wildcard = definitions.find((d) => d.funnelId === WILDCARD_FUNNEL_ID);
+  if (wildcard) return wildcard.stages;
+  return STAGE_ORDER;
+}
+
+/** Adjacent "from->to" keys a transition spans, e.g. click->lead covers click->landing and landing->lead. */
+export function spannedTransitionKeys(
+  fromStage: string,
+  toStage: string,
+  stageOrder: readonly string[]
+): string[] {
+  const fromIdx = stageOrder.indexOf(fromStage);
+  const toIdx = stageOrder.indexOf(toStage);
+  if (fromIdx < 0 || toIdx <= fromIdx) return [`${fromStage}->${toStage}`];
+
+  const keys: string[] = [];
+  for (let i = fromIdx; i < toIdx; i++) {
+    keys.push(`${stageOrder[i]}->${stageOrder[i + 1]}`);
+  }
+  return keys;
+}
@@ -0,0 +1,38 @@
+import { Break, BreakDirection, BreakSeverity, BreakType } from "./Diagnosis";
+
+/** Breaks in one funnel that started close together; the root is the most upstream one. */
+export interface Incident {
+  id: string;
+  funnelId: string;
+  direction: BreakDirection;
+  /** Earliest onset among the incident's breaks. */
+  onsetDate: string;
+  /** Highest severity among the incident's breaks. */
+  severity: BreakSeverity;
+  /** True while any of its breaks is still active. */
+  active: boolean;
+  root: Break;
+  /** Downstream breaks, in funnel order. */
+  symptoms: Break[];
+}
+
+/** The same transition breaking in several funnels at once, e.g. a site-wide outage. */
+export interface GlobalIncident {
+  id: string;
+  breakType: BreakType;
+  fromStage: string;
+  toStage: string;
+  direction: BreakDirection;
+  /** Earliest onset among the incident's breaks. */
+  onsetDate: string;
+  severity: BreakSeverity;
+  active: boolean;
+  /** Affected funnels, sorted. */
+  funnelIds: string[];
+  breaks: Break[];
+}
+
+export enum IncidentRole {
+  ROOT = "root",
+  SYMPTOM = "symptom",
+}
@@ -1,3 +1,8 @@
 export * from "./Event";
 export * from "./Change";
 export * from "./Diagnosis";
+export * from "./Funnel";
+export * from "./DataQuality";
+export * from "./Incident";
+export * from "./Feedback";
+export * from "./DetectorConfig";
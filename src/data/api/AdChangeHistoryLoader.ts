@@ -0,0 +1,443 @@
+import fs from "fs";
+import { Change, ChangeCategory } from "../../core/entities/Change";
+import { FunnelStage } from "../../core/entities/Event";
+import { ChangeLoader } from "./DataLoader";
+import { fetchHttpClient, HttpClient } from "./HttpClient";
+import { GoogleAdsAccount, GoogleAdsRow, searchStream } from "./GoogleAdsLoader";
+import { accountUrl, fetchGraphPages, MetaAdsAccount, Sleep } from "./MetaAdsLoader";
+
+/** Read the history from the API, or from a JSON export of the same responses. */
+export type ChangeHistorySource<A> = A | { file: string };
+
+export interface AdChangeHistoryConfig {
+  startDate: string;
+  endDate: string;
+  /** Google Ads change_event rows; the API keeps the last 30 days. */
+  googleAds?: ChangeHistorySource<GoogleAdsAccount>;
+  /** Meta ad account activity log. */
+  metaAds?: ChangeHistorySource<MetaAdsAccount>;
+  /**
+   * Id or name of the changed campaign, ad group / ad set or ad -> funnelId, most specific
+   * first. Meta activities only name the changed object itself.
+   */
+  funnels: Record<string, string>;
+  /** Funnel for changes to unmapped objects, e.g. "*"; they are skipped without one. */
+  defaultFunnelId?: string;
+}
+
+type ChangeKind = "budget" | "status" | "bidding" | "creative" | "landing_page" | "targeting";
+type ObjectLevel = "campaign" | "ad_group" | "ad";
+type Status = "ENABLED" | "PAUSED" | "REMOVED";
+
+interface AdObject {
+  id?: string;
+  name?: string;
+}
+
+/** A change history record of either platform, before it is scored. */
+interface AdActivity {
+  id: string;
+  platform: "Google Ads" | "Meta";
+  date: string;
+  /** "YYYY-MM-DD HH:MM:SS", for ordering same-day edits. */
+  time: string;
+  kind: ChangeKind;
+  level: ObjectLevel;
+  /** The changed object, then its ad group and campaign where known. */
+  objects: AdObject[];
+  oldAmount?: number;
+  newAmount?: number;
+  status?: Status;
+}
+
+const CATEGORY_BY_KIND: Record<ChangeKind, ChangeCategory> = {
+  budget: ChangeCategory.AD,
+  status: ChangeCategory.AD,
+  bidding: ChangeCategory.AD,
+  creative: ChangeCategory.AD,
+  landing_page: ChangeCategory.AD,
+  targeting: ChangeCategory.AUDIENCE,
+};
+
+const STAGES_BY_KIND: Record<ChangeKind, string[]> = {
+  budget: [FunnelStage.IMPRESSION, FunnelStage.CLICK],
+  status: [FunnelStage.IMPRESSION, FunnelStage.CLICK],
+  bidding: [FunnelStage.IMPRESSION, FunnelStage.CLICK],
+  creative: [FunnelStage.IMPRESSION, FunnelStage.CLICK],
+  landing_page: [FunnelStage.LANDING],
+  targeting: [FunnelStage.IMPRESSION, FunnelStage.CLICK],
+};
+
+/** Relative budget change at or above which each severity applies, highest first. */
+const BUDGET_SEVERITY_STEPS: [number, number][] = [[1, 5], [0.5, 4], [0.25, 3], [0.1, 2]];
+
+/** Same-day creative or targeting edits of a funnel are merged; this many add a severity point. */
+const BULK_EDIT_COUNT = 5;
+
+/** Google Ads change_event field prefixes of each kind of campaign and ad group edit. */
+const GOOGLE_FIELD_KINDS: [RegExp, ChangeKind][] = [
+  [/^(bidding|targetCpa|targetRoas|maximize|manualCpc|cpcBid|cpmBid|targetSpend)/, "bidding"],
+  [/^(geoTargetTypeSetting|networkSettings|targetingSetting|audienceSetting)/, "targeting"],
+  [/(^|\.)finalUrls/, "landing_page"],
+  [/^status$/, "status"],
+];
+
+/** Meta activity event types of each kind, e.g. update_ad_set_budget, update_ad_set_target_spec. */
+const META_EVENT_KINDS: [RegExp, ChangeKind][] = [
+  [/budget|spend_cap/, "budget"],
+  [/run_status|^create_(campaign|campaign_group|ad_set)$/, "status"],
+  [/bid/, "bidding"],
+  [/target/, "targeting"],
+  [/creative|^create_ad$/, "creative"],
+];
+
+/**
+ * Changes from ad platform change history: budget, status, bidding, creative, final URL
+ * and targeting edits. Targeting edits are AUDIENCE changes and the rest AD; severity
+ * grows with the budget delta, pauses outrank re-enables, and campaign-level edits
+ * outrank ad-level ones. Re-enabling a paused object reverts the pause.
+ */
+export class AdChangeHistoryLoader implements ChangeLoader<AdChangeHistoryConfig> {
+  constructor(
+    private readonly http: HttpClient = fetchHttpClient,
+    private readonly sleep: Sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+  ) {}
+
+  async load(config: AdChangeHistoryConfig): Promise<Change[]> {
+    const activities: AdActivity[] = [];
+    if (config.googleAds) {
+      const rows = "file" in config.googleAds
+        ? readExport<GoogleAdsRow>(config.googleAds.file)
+        : await searchStream(this.http, config.googleAds, changeEventQuery(config));
+      activities.push(...rows.flatMap((row) => parseGoogleChangeEvent(row) ?? []));
+    }
+    if (config.metaAds) {
+      const rows = "file" in config.metaAds
+        ? readExport<MetaActivity>(config.metaAds.file)
+        : await fetchGraphPages<MetaActivity>(this.http, this.sleep, activitiesUrl(config, config.metaAds), config.metaAds, "Meta activities");
+      activities.push(...rows.flatMap((row) => parseMetaActivity(row) ?? []));
+    }
+
+    const inRange = activities
+      .filter((a) => a.date >= config.startDate && a.date <= config.endDate)
+      .sort((a, b) => a.time.localeCompare(b.time));
+    return toChanges(inRange, config);
+  }
+}
+
+function toChanges(activities: AdActivity[], config: AdChangeHistoryConfig): Change[] {
+  const changes: Change[] = [];
+  const bulkEdits = new Map<string, { change: Change; count: number; maxSeverity: number }>();
+  const pauses = new Map<string, string>();
+
+  for (const activity of activities) {
+    const funnelId = funnelOf(activity, config);
+    if (funnelId === undefined) continue;
+
+    const severity = severityOf(activity);
+    const change: Change = {
+      id: activity.id,
+      date: activity.date,
+      funnelId,
+      category: CATEGORY_BY_KIND[activity.kind],
+      description: describe(activity),
+      severity,
+      affectedStages: STAGES_BY_KIND[activity.kind],
+    };
+
+    if (activity.kind === "creative" || activity.kind === "targeting") {
+      const key = `${activity.platform}|${activity.date}|${funnelId}|${activity.kind}`;
+      const bulk = bulkEdits.get(key);
+      if (!bulk) {
+        bulkEdits.set(key, { change, count: 1, maxSeverity: severity });
+        changes.push(change);
+        continue;
+      }
+      bulk.count++;
+      bulk.maxSeverity = Math.max(bulk.maxSeverity, severity);
+      bulk.change.severity = Math.min(5, bulk.maxSeverity + (bulk.count >= BULK_EDIT_COUNT ? 1 : 0));
+      bulk.change.description = `${activity.platform}: ${bulk.count} ${activity.kind} edits in ${containerName(activity)}`;
+      continue;
+    }
+
+    if (activity.kind === "status") {
+      const objectKey = `${activity.platform}|${activity.objects[0].id ?? activity.objects[0].name}`;
+      if (activity.status === "PAUSED") pauses.set(objectKey, change.id!);
+      else if (activity.status === "ENABLED" && pauses.has(objectKey)) {
+        change.revertsChangeId = pauses.get(objectKey);
+        pauses.delete(objectKey);
+      }
+    }
+    changes.push(change);
+  }
+  return changes;
+}
+
+function funnelOf(activity: AdActivity, config: AdChangeHistoryConfig): string | undefined {
+  for (const { id, name } of activity.objects) {
+    const funnelId = (id !== undefined ? config.funnels[id] : undefined) ?? (name !== undefined ? config.funnels[name] : undefined);
+    if (funnelId !== undefined) return funnelId;
+  }
+  return config.defaultFunnelId;
+}
+
+function severityOf(activity: AdActivity): number {
+  switch (activity.kind) {
+    case "budget": {
+      const { oldAmount, newAmount } = activity;
+      if (oldAmount === undefined || newAmount === undefined || oldAmount === 0) return 3;
+      const delta = Math.abs(newAmount - oldAmount) / oldAmount;
+      return BUDGET_SEVERITY_STEPS.find(([step]) => delta >= step)?.[1] ?? 1;
+    }
+    case "status": {
+      const levelRank = { campaign: 2, ad_group: 1, ad: 0 }[activity.level];
+      return activity.status === "ENABLED" ? 2 + levelRank : 3 + levelRank;
+    }
+    case "landing_page":
+      return 4;
+    case "targeting":
+      return activity.level === "campaign" ? 3 : 2;
+    default:
+      return 3;
+  }
+}
+
+function describe(activity: AdActivity): string {
+  const label = `${activity.platform} ${LEVEL_LABELS[activity.platform][activity.level]}`;
+  const subject = activity.objects[0].name ? `${label} ${activity.objects[0].name}` : `${label} in ${containerName(activity)}`;
+  switch (activity.kind) {
+    case "budget": {
+      const { oldAmount, newAmount } = activity;
+      if (oldAmount === undefined || newAmount === undefined) return `${subject}: budget changed`;
+      const percent = oldAmount > 0 ? ` (${newAmount >= oldAmount ? "+" : ""}${Math.round((newAmount / oldAmount - 1) * 100)}%)` : "";
+      return `${subject}: budget ${newAmount >= oldAmount ? "raised" : "cut"} from ${formatAmount(oldAmount)} to ${formatAmount(newAmount)}${percent}`;
+    }
+    case "status":
+      return `${subject} ${{ ENABLED: "enabled", PAUSED: "paused", REMOVED: "removed" }[activity.status ?? "ENABLED"]}`;
+    case "bidding":
+      return `${subject}: bidding changed`;
+    case "creative":
+      return `${subject}: creative changed`;
+    case "landing_page":
+      return `${subject}: final URL changed`;
+    case "targeting":
+      return `${subject}: targeting edited`;
+  }
+}
+
+const LEVEL_LABELS: Record<AdActivity["platform"], Record<ObjectLevel, string>> = {
+  "Google Ads": { campaign: "campaign", ad_group: "ad group", ad: "ad" },
+  Meta: { campaign: "campaign", ad_group: "ad set", ad: "ad" },
+};
+
+/** Name of the ad group or campaign holding the changed object, or of the object itself. */
+function containerName(activity: AdActivity): string {
+  const named = activity.objects.slice(1).find((o) => o.name) ?? activity.objects[0];
+  return named.name ?? named.id ?? "(unknown)";
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+// --- Google Ads change_event ---
+
+function changeEventQuery(config: AdChangeHistoryConfig): string {
+  return "SELECT change_event.resource_name, change_event.change_date_time, change_event.change_resource_type, " +
+    "change_event.resource_change_operation, change_event.changed_fields, change_event.old_resource, " +
+    "change_event.new_resource, change_event.ad_group_ad, campaign.id, campaign.name, ad_group.id, ad_group.name FROM change_event " +
+    `WHERE change_event.change_date_time >= '${config.startDate}' AND change_event.change_date_time <= '${config.endDate} 23:59:59' ` +
+    "ORDER BY change_event.change_date_time LIMIT 10000";
+}
+
+const GOOGLE_RESOURCE_LEVELS: Record<string, ObjectLevel> = {
+  CAMPAIGN: "campaign",
+  CAMPAIGN_BUDGET: "campaign",
+  CAMPAIGN_CRITERION: "campaign",
+  CAMPAIGN_ASSET: "campaign",
+  AD_GROUP: "ad_group",
+  AD_GROUP_CRITERION: "ad_group",
+  AD_GROUP_BID_MODIFIER: "ad_group",
+  AD_GROUP_ASSET: "ad_group",
+  AD_GROUP_AD: "ad",
+  AD: "ad",
+  ASSET: "ad",
+};
+
+function parseGoogleChangeEvent(row: GoogleAdsRow): AdActivity | undefined {
+  const event = row.changeEvent as GoogleChangeEvent | undefined;
+  if (!event) return undefined;
+  const level = GOOGLE_RESOURCE_LEVELS[event.changeResourceType];
+  const kind = googleChangeKind(event);
+  if (!level || !kind) return undefined;
+
+  const oldResource = firstValue(event.oldResource);
+  const newResource = firstValue(event.newResource);
+  const campaign = (row.campaign ?? {}) as AdObject;
+  const adGroup = (row.adGroup ?? {}) as AdObject;
+  const objects = {
+    campaign: [campaign],
+    ad_group: [adGroup, campaign],
+    ad: [{ id: event.adGroupAd?.split("/").pop() }, adGroup, campaign],
+  }[level];
+
+  const activity: AdActivity = {
+    id: `google-ads:${event.resourceName}`,
+    platform: "Google Ads",
+    date: event.changeDateTime.slice(0, 10),
+    time: event.changeDateTime.slice(0, 19),
+    kind,
+    level,
+    objects,
+  };
+  if (kind === "budget") {
+    activity.oldAmount = microsToAmount(oldResource?.amountMicros);
+    activity.newAmount = microsToAmount(newResource?.amountMicros);
+  }
+  if (kind === "status") {
+    activity.status = event.resourceChangeOperation === "REMOVE"
+      ? "REMOVED"
+      : event.resourceChangeOperation === "CREATE" ? "ENABLED" : toStatus(String(newResource?.status));
+  }
+  return activity;
+}
+
+interface GoogleChangeEvent {
+  resourceName: string;
+  changeDateTime: string;
+  changeResourceType: string;
+  resourceChangeOperation: "CREATE" | "UPDATE" | "REMOVE";
+  /** Comma-separated field mask, e.g. "status,targetCpa.targetCpaMicros". */
+  changedFields?: string;
+  oldResource?: Record<string, Record<string, unknown>>;
+  newResource?: Record<string, Record<string, unknown>>;
+  /** Resource name of the changed ad, e.g. "customers/1/adGroupAds/9002~555". */
+  adGroupAd?: string;
+}
+
+function googleChangeKind(event: GoogleChangeEvent): ChangeKind | undefined {
+  const fields = (event.changedFields ?? "").split(",").filter(Boolean);
+  const fieldKind = () => GOOGLE_FIELD_KINDS.find(([pattern]) => fields.some((f) => pattern.test(f)))?.[1];
+
+  switch (event.changeResourceType) {
+    case "CAMPAIGN_BUDGET":
+      return "budget";
+    case "CAMPAIGN_CRITERION":
+    case "AD_GROUP_CRITERION":
+      return "targeting";
+    case "AD_GROUP_BID_MODIFIER":
+      return "bidding";
+    case "CAMPAIGN":
+    case "AD_GROUP":
+      return event.resourceChangeOperation === "UPDATE" ? fieldKind() : "status";
+    case "AD_GROUP_AD":
+    case "AD":
+      return event.resourceChangeOperation === "UPDATE" ? fieldKind() ?? "creative" : "creative";
+    default:
+      return "creative";
+  }
+}
+
+/** The single resource a change_event old/new_resource wraps, e.g. { campaign: {...} }. */
+function firstValue(resource: Record<string, Record<string, unknown>> | undefined): Record<string, unknown> | undefined {
+  return resource ? Object.values(resource)[0] : undefined;
+}
+
+function microsToAmount(micros: unknown): number | undefined {
+  return micros === undefined ? undefined : Number(micros) / 1_000_000;
+}
+
+// --- Meta ad account activities ---
+
+interface MetaActivity {
+  event_type: string;
+  event_time: string;
+  object_id?: string;
+  object_name?: string;
+  object_type?: string;
+  /** JSON string with old_value and new_value, each either the value or { old_value | new_value: value }. */
+  extra_data?: string;
+}
+
+const META_OBJECT_LEVELS: Record<string, ObjectLevel> = {
+  CAMPAIGN: "campaign",
+  CAMPAIGN_GROUP: "campaign",
+  ADSET: "ad_group",
+  CAMPAIGN_SET: "ad_group",
+  AD: "ad",
+  ADGROUP: "ad",
+};
+
+function activitiesUrl(config: AdChangeHistoryConfig, account: MetaAdsAccount): string {
+  const params = new URLSearchParams({
+    since: config.startDate,
+    until: config.endDate,
+    fields: "event_type,event_time,object_id,object_name,object_type,extra_data",
+    limit: "100",
+  });
+  return `${accountUrl(account)}/activities?${params}`;
+}
+
+function parseMetaActivity(row: MetaActivity): AdActivity | undefined {
+  const kind = META_EVENT_KINDS.find(([pattern]) => pattern.test(row.event_type))?.[1];
+  const level = META_OBJECT_LEVELS[row.object_type ?? ""] ?? levelFromEventType(row.event_type);
+  if (!kind || !level) return undefined;
+
+  const activity: AdActivity = {
+    id: `meta-ads:${row.object_id ?? row.object_name}:${row.event_type}:${row.event_time}`,
+    platform: "Meta",
+    date: row.event_time.slice(0, 10),
+    time: row.event_time.slice(0, 19).replace("T", " "),
+    kind,
+    level,
+    objects: [{ id: row.object_id, name: row.object_name }],
+  };
+
+  const { oldValue, newValue } = parseExtraData(row.extra_data);
+  if (kind === "budget") {
+    // Meta budgets are in the currency's minor unit.
+    activity.oldAmount = typeof oldValue === "number" ? oldValue / 100 : undefined;
+    activity.newAmount = typeof newValue === "number" ? newValue / 100 : undefined;
+  }
+  if (kind === "status") {
+    activity.status = row.event_type.startsWith("create_") ? "ENABLED" : toStatus(String(newValue));
+  }
+  return activity;
+}
+
+function levelFromEventType(eventType: string): ObjectLevel | undefined {
+  if (/campaign/.test(eventType)) return "campaign";
+  if (/ad_set/.test(eventType)) return "ad_group";
+  if (/(^|_)ad(_|$)/.test(eventType)) return "ad";
+  return undefined;
+}
+
+function parseExtraData(extraData: string | undefined): { oldValue?: unknown; newValue?: unknown } {
+  if (!extraData) return {};
+  try {
+    const data = JSON.parse(extraData);
+    const unwrap = (value: any, key: string) => (value !== null && typeof value === "object" ? value[key] ?? value.value : value);
+    const numeric = (value: unknown) => (typeof value === "string" && /^\d+(\.\d+)?$/.test(value) ? Number(value) : value);
+    return { oldValue: numeric(unwrap(data.old_value, "old_value")), newValue: numeric(unwrap(data.new_value, "new_value")) };
+  } catch {
+    return {};
+  }
+}
+
+function toStatus(value: string): Status {
+  if (/paus|inactive/i.test(value)) return "PAUSED";
+  if (/remov|delet|archiv/i.test(value)) return "REMOVED";
+  return "ENABLED";
+}
+
+/** Rows of an exported response: searchStream batches, a { results } or { data } page, or a bare array. */
+function readExport<T>(filePath: string): T[] {
+  let content: any;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Invalid change history export ${filePath}: ${err.message}`);
+  }
+  const pages: any[] = Array.isArray(content) ? content : [content];
+  return pages.flatMap((page) => page?.results ?? page?.data ?? [page]);
+}
@@ -1,10 +1,10 @@
 import { Event } from "../../core/entities/Event";
 import { Change } from "../../core/entities/Change";
 
-export interface EventLoader {
-  load(config: Record<string, unknown>): Promise<Event[]>;
+export interface EventLoader<C = Record<string, unknown>> {
+  load(config: C): Promise<Event[]>;
 }
 
-export interface ChangeLoader {
-  load(config: Record<string, unknown>): Promise<Change[]>;
+export interface ChangeLoader<C = Record<string, unknown>> {
+  load(config: C): Promise<Change[]>;
 }
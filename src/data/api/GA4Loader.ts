@@ -1,8 +1,143 @@
 import { Event } from "../../core/entities/Event";
 import { EventLoader } from "./DataLoader";
+import { fetchHttpClient, HttpClient, parseJsonResponse } from "./HttpClient";
 
-export class GA4Loader implements EventLoader {
-  async load(_config: Record<string, unknown>): Promise<Event[]> {
-    throw new Error("GA4Loader is not yet implemented. This is a stub for future integration.");
+export interface GA4FunnelMapping {
+  /** GA4 event name -> funnel stage, e.g. { page_view: "landing", generate_lead: "lead", purchase: "purchase" }. */
+  events: Record<string, string>;
+  /** Values of funnelDimension that belong to the funnel; defaults to the funnel id. */
+  dimensionValues?: string[];
+}
+
+export interface GA4LoaderConfig {
+  propertyId: string;
+  /** OAuth access token with the analytics.readonly scope. */
+  accessToken: string;
+  startDate: string;
+  endDate: string;
+  funnels: Record<string, GA4FunnelMapping>;
+  /**
+   * Dimension that splits rows between funnels, e.g. "sessionCampaignName". Without it
+   * every funnel counts every matching event.
+   */
+  funnelDimension?: string;
+  /** Metric counted per event name. */
+  metric?: string;
+  /** Rows per runReport page; the API allows up to 250000. */
+  pageSize?: number;
+  /**
+   * Sampled reports are estimates from a subset of sessions, too noisy for break
+   * detection, so they fail the load unless this is set.
+   */
+  allowSampling?: boolean;
+  baseUrl?: string;
+}
+
+export const DEFAULT_GA4_LOADER_CONFIG = {
+  metric: "eventCount",
+  pageSize: 10000,
+  allowSampling: false,
+  baseUrl: "https://analyticsdata.googleapis.com/v1beta",
+};
+
+interface RunReportResponse {
+  rows?: { dimensionValues: { value: string }[]; metricValues: { value: string }[] }[];
+  rowCount?: number;
+  metadata?: {
+    samplingMetadatas?: { samplesReadCount: string; samplingSpaceSize: string }[];
+    dataLossFromOtherRow?: boolean;
+  };
+}
+
+/**
+ * Daily stage counts from the GA4 Data API. One runReport by date and event name (and
+ * funnelDimension), paged with limit/offset until rowCount rows are read; counts of
+ * events mapped to the same funnel stage are summed.
+ */
+export class GA4Loader implements EventLoader<GA4LoaderConfig> {
+  constructor(private readonly http: HttpClient = fetchHttpClient) {}
+
+  async load(config: GA4LoaderConfig): Promise<Event[]> {
+    const cfg = { ...DEFAULT_GA4_LOADER_CONFIG, ...config };
+    const eventNames = [...new Set(Object.values(cfg.funnels).flatMap((f) => Object.keys(f.events)))];
+    if (eventNames.length === 0) {
+      throw new Error("GA4Loader: no funnel maps any event to a stage");
+    }
+
+    const counts = new Map<string, Event>();
+    let offset = 0;
+    let rowCount = 0;
+    do {
+      const report = await this.runReport(cfg, eventNames, offset);
+      checkSampling(report, cfg.allowSampling);
+
+      const rows = report.rows ?? [];
+      for (const { dimensionValues, metricValues } of rows) {
+        const [date, eventName, dimensionValue] = dimensionValues.map((d) => d.value);
+        const count = Number(metricValues[0]?.value ?? 0);
+        for (const [funnelId, funnel] of Object.entries(cfg.funnels)) {
+          const stage = funnel.events[eventName];
+          if (stage === undefined) continue;
+          if (cfg.funnelDimension && !(funnel.dimensionValues ?? [funnelId]).includes(dimensionValue)) continue;
+          addCount(counts, toIsoDate(date), funnelId, stage, count);
+        }
+      }
+
+      rowCount = report.rowCount ?? 0;
+      offset += rows.length;
+      if (rows.length === 0) break;
+    } while (offset < rowCount);
+
+    return [...counts.values()].sort(
+      (a, b) => a.date.localeCompare(b.date) || a.funnelId.localeCompare(b.funnelId) || a.stage.localeCompare(b.stage)
+    );
+  }
+
+  private async runReport(
+    cfg: GA4LoaderConfig & typeof DEFAULT_GA4_LOADER_CONFIG,
+    eventNames: string[],
+    offset: number
+  ): Promise<RunReportResponse> {
+    const dimensions = ["date", "eventName", ...(cfg.funnelDimension ? [cfg.funnelDimension] : [])];
+    const response = await this.http({
+      method: "POST",
+      url: `${cfg.baseUrl}/properties/${encodeURIComponent(cfg.propertyId)}:runReport`,
+      headers: { Authorization: `Bearer ${cfg.accessToken}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        dateRanges: [{ startDate: cfg.startDate, endDate: cfg.endDate }],
+        dimensions: dimensions.map((name) => ({ name })),
+        metrics: [{ name: cfg.metric }],
+        dimensionFilter: { filter: { fieldName: "eventName", inListFilter: { values: eventNames } } },
+        orderBys: [{ dimension: { dimensionName: "date" } }],
+        limit: cfg.pageSize,
+        offset,
+      }),
+    });
+    return parseJsonResponse<RunReportResponse>(response, "GA4 runReport");
+  }
+}
+
+function checkSampling(report: RunReportResponse, allowSampling: boolean): void {
+  const sampling = report.metadata?.samplingMetadatas?.[0];
+  if (sampling && !allowSampling) {
+    const share = Number(sampling.samplesReadCount) / Number(sampling.samplingSpaceSize);
+    throw new Error(
+      `GA4 report is sampled (${(share * 100).toFixed(1)}% of sessions read); shorten the date range or set allowSampling`
+    );
   }
+  if (report.metadata?.dataLossFromOtherRow) {
+    throw new Error("GA4 report grouped rows into (other); narrow funnelDimension or the date range");
+  }
+}
+
+function addCount(counts: Map<string, Event>, date: string, funnelId: string, stage: string, count: number): void {
+  const key = `${date}|${funnelId}|${stage}`;
+  const event = counts.get(key);
+  if (event) event.count += count;
+  else counts.set(key, { date, funnelId, stage, count, source: "ga4" });
+}
+
+/** GA4 reports dates as YYYYMMDD. */
+function toIsoDate(date: string): string {
+  return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
 }
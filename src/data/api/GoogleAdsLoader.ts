@@ -1,8 +1,157 @@
 import { Event } from "../../core/entities/Event";
 import { EventLoader } from "./DataLoader";
+import { fetchHttpClient, HttpClient, parseJsonResponse } from "./HttpClient";
 
-export class GoogleAdsLoader implements EventLoader {
-  async load(_config: Record<string, unknown>): Promise<Event[]> {
-    throw new Error("GoogleAdsLoader is not yet implemented. This is a stub for future integration.");
+export type GoogleAdsLevel = "campaign" | "ad_group";
+
+export interface GoogleAdsAccount {
+  /** Account to query, with or without dashes. */
+  customerId: string;
+  accessToken: string;
+  developerToken: string;
+  /** Manager account the access goes through, if any. */
+  loginCustomerId?: string;
+  apiVersion?: string;
+  baseUrl?: string;
+}
+
+export interface GoogleAdsLoaderConfig extends GoogleAdsAccount {
+  startDate: string;
+  endDate: string;
+  /** Campaign id or name -> funnelId; rows of unmapped campaigns are skipped. */
+  campaignFunnels: Record<string, string>;
+  /** Ad group id or name -> funnelId at ad_group level, ahead of campaignFunnels. */
+  adGroupFunnels?: Record<string, string>;
+  level?: GoogleAdsLevel;
+  /**
+   * GAQL metric -> stage. Fields ending in _micros are converted from micros, e.g.
+   * { "metrics.cost_micros": "spend" } counts currency units.
+   */
+  metricStages?: Record<string, string>;
+  /** Conversion action name -> stage, counted from metrics.conversions segmented by action. */
+  conversionActions?: Record<string, string>;
+  /** Extra GAQL conditions ANDed into both queries, e.g. "campaign.status = 'ENABLED'". */
+  where?: string;
+}
+
+export const DEFAULT_GOOGLE_ADS_LOADER_CONFIG = {
+  level: "campaign" as GoogleAdsLevel,
+  metricStages: { "metrics.impressions": "impression", "metrics.clicks": "click" } as Record<string, string>,
+  conversionActions: {} as Record<string, string>,
+  apiVersion: "v17",
+  baseUrl: "https://googleads.googleapis.com",
+};
+
+type ResolvedConfig = GoogleAdsLoaderConfig & typeof DEFAULT_GOOGLE_ADS_LOADER_CONFIG;
+
+/** One GoogleAdsRow: resource and segment fields nested by name, in camelCase. */
+export type GoogleAdsRow = Record<string, Record<string, unknown> | undefined>;
+
+interface SearchStreamChunk {
+  results?: GoogleAdsRow[];
+  error?: { message?: string };
+}
+
+/**
+ * Daily stage counts from the Google Ads API. One GAQL query reads metricStages, and a
+ * second one segmented by conversion action reads conversionActions, since that segment
+ * cannot be combined with impressions and clicks.
+ */
+export class GoogleAdsLoader implements EventLoader<GoogleAdsLoaderConfig> {
+  constructor(private readonly http: HttpClient = fetchHttpClient) {}
+
+  async load(config: GoogleAdsLoaderConfig): Promise<Event[]> {
+    const cfg: ResolvedConfig = { ...DEFAULT_GOOGLE_ADS_LOADER_CONFIG, ...config };
+    const counts = new Map<string, Event>();
+
+    const metrics = Object.keys(cfg.metricStages);
+    if (metrics.length > 0) {
+      for (const row of await searchStream(this.http, cfg, buildQuery(cfg, metrics))) {
+        const funnelId = funnelOf(row, cfg);
+        if (funnelId === undefined) continue;
+        for (const [metric, stage] of Object.entries(cfg.metricStages)) {
+          addCount(counts, dateOf(row), funnelId, stage, fieldValue(row, metric));
+        }
+      }
+    }
+
+    if (Object.keys(cfg.conversionActions).length > 0) {
+      const query = buildQuery(cfg, ["segments.conversion_action_name", "metrics.conversions"]);
+      for (const row of await searchStream(this.http, cfg, query)) {
+        const funnelId = funnelOf(row, cfg);
+        const stage = cfg.conversionActions[String(row.segments?.conversionActionName)];
+        if (funnelId === undefined || stage === undefined) continue;
+        addCount(counts, dateOf(row), funnelId, stage, fieldValue(row, "metrics.conversions"));
+      }
+    }
+
+    // Conversions are fractional under data-driven attribution; stage counts are whole.
+    return [...counts.values()]
+      .map((event) => ({ ...event, count: Math.round(event.count) }))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.funnelId.localeCompare(b.funnelId) || a.stage.localeCompare(b.stage));
+  }
+}
+
+/**
+ * Run a GAQL query through searchStream. The response is a JSON array of result batches;
+ * a stream that fails part way still answers 200, with the error as its last batch.
+ */
+export async function searchStream(http: HttpClient, account: GoogleAdsAccount, query: string): Promise<GoogleAdsRow[]> {
+  const { baseUrl, apiVersion } = { ...DEFAULT_GOOGLE_ADS_LOADER_CONFIG, ...account };
+  const response = await http({
+    method: "POST",
+    url: `${baseUrl}/${apiVersion}/customers/${account.customerId.replace(/-/g, "")}/googleAds:searchStream`,
+    headers: {
+      Authorization: `Bearer ${account.accessToken}`,
+      "developer-token": account.developerToken,
+      "Content-Type": "application/json",
+      ...(account.loginCustomerId && { "login-customer-id": account.loginCustomerId.replace(/-/g, "") }),
+    },
+    body: JSON.stringify({ query }),
+  });
+
+  const chunks = parseJsonResponse<SearchStreamChunk[]>(response, "Google Ads searchStream");
+  const rows: GoogleAdsRow[] = [];
+  for (const chunk of chunks) {
+    if (chunk.error) throw new Error(`Google Ads searchStream failed: ${chunk.error.message}`);
+    rows.push(...(chunk.results ?? []));
   }
+  return rows;
+}
+
+function buildQuery(cfg: ResolvedConfig, fields: string[]): string {
+  const resourceFields = cfg.level === "ad_group"
+    ? ["campaign.id", "campaign.name", "ad_group.id", "ad_group.name"]
+    : ["campaign.id", "campaign.name"];
+  const conditions = [`segments.date BETWEEN '${cfg.startDate}' AND '${cfg.endDate}'`, ...(cfg.where ? [cfg.where] : [])];
+  return `SELECT ${[...resourceFields, "segments.date", ...fields].join(", ")} FROM ${cfg.level} WHERE ${conditions.join(" AND ")}`;
+}
+
+function funnelOf(row: GoogleAdsRow, cfg: ResolvedConfig): string | undefined {
+  const lookup = (mapping: Record<string, string> | undefined, resource: Record<string, unknown> | undefined) =>
+    resource && mapping ? mapping[String(resource.id)] ?? mapping[String(resource.name)] : undefined;
+  return (cfg.level === "ad_group" ? lookup(cfg.adGroupFunnels, row.adGroup) : undefined)
+    ?? lookup(cfg.campaignFunnels, row.campaign);
+}
+
+function dateOf(row: GoogleAdsRow): string {
+  return String(row.segments?.date);
+}
+
+/** Read a GAQL field (snake_case) from a JSON row (camelCase); int64 metrics arrive as strings. */
+function fieldValue(row: GoogleAdsRow, field: string): number {
+  const [resource, name] = field.split(".");
+  const value = Number(row[snakeToCamel(resource)]?.[snakeToCamel(name)] ?? 0);
+  return name.endsWith("_micros") ? value / 1_000_000 : value;
+}
+
+function snakeToCamel(name: string): string {
+  return name.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function addCount(counts: Map<string, Event>, date: string, funnelId: string, stage: string, count: number): void {
+  const key = `${date}|${funnelId}|${stage}`;
+  const event = counts.get(key);
+  if (event) event.count += count;
+  else counts.set(key, { date, funnelId, stage, count, source: "google-ads" });
 }
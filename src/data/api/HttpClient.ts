@@ -0,0 +1,41 @@
+export interface HttpRequest {
+  method: "GET" | "POST";
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  /** Lowercased header names. */
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** What the API loaders send requests through; swap it for recorded responses in tests. */
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+export const fetchHttpClient: HttpClient = async ({ method, url, headers, body }) => {
+  const res = await fetch(url, { method, headers, body });
+  const responseHeaders: Record<string, string> = {};
+  res.headers.forEach((value, name) => {
+    responseHeaders[name.toLowerCase()] = value;
+  });
+  return { status: res.status, headers: responseHeaders, body: await res.text() };
+};
+
+/** Parse a JSON response body, failing with the API's own error message on non-2xx statuses. */
+export function parseJsonResponse<T>(response: HttpResponse, api: string): T {
+  let body: any;
+  try {
+    body = response.body ? JSON.parse(response.body) : undefined;
+  } catch {
+    throw new Error(`${api} returned invalid JSON (HTTP ${response.status})`);
+  }
+  if (response.status < 200 || response.status >= 300) {
+    const error = Array.isArray(body) ? body[0]?.error : body?.error;
+    const message = error?.message ?? (typeof error === "string" ? error : response.body.slice(0, 200));
+    throw new Error(`${api} failed (HTTP ${response.status}): ${message}`);
+  }
+  return body as T;
+}
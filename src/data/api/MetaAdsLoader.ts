@@ -1,8 +1,210 @@
 import { Event } from "../../core/entities/Event";
 import { EventLoader } from "./DataLoader";
+import { fetchHttpClient, HttpClient, HttpResponse, parseJsonResponse } from "./HttpClient";
 
-export class MetaAdsLoader implements EventLoader {
-  async load(_config: Record<string, unknown>): Promise<Event[]> {
-    throw new Error("MetaAdsLoader is not yet implemented. This is a stub for future integration.");
+export type MetaAdsLevel = "campaign" | "adset";
+
+export interface MetaActionRule {
+  /** action_type to match; "*" matches any characters, e.g. "offsite_conversion.fb_pixel_*". */
+  actionType: string;
+  stage: string;
+  /** Count the actions[] entries (default), or sum the action_values[] ones, e.g. for revenue. */
+  from?: "actions" | "action_values";
+}
+
+export interface MetaAdsAccount {
+  /** Ad account id, with or without the act_ prefix. */
+  adAccountId: string;
+  accessToken: string;
+  /** Retries of rate-limited and transient failures before giving up. */
+  maxRetries?: number;
+  /** First backoff when the response says nothing about when to retry; doubles per retry. */
+  retryDelayMs?: number;
+  apiVersion?: string;
+  baseUrl?: string;
+}
+
+export interface MetaAdsLoaderConfig extends MetaAdsAccount {
+  startDate: string;
+  endDate: string;
+  /** Campaign id or name -> funnelId; rows of unmapped campaigns are skipped. */
+  campaignFunnels: Record<string, string>;
+  /** Ad set id or name -> funnelId at adset level, ahead of campaignFunnels. */
+  adSetFunnels?: Record<string, string>;
+  level?: MetaAdsLevel;
+  /** Numeric Insights field -> stage. */
+  fieldStages?: Record<string, string>;
+  /** Every entry matching a rule adds to its stage, so rules should not overlap. */
+  actionRules?: MetaActionRule[];
+  pageSize?: number;
+}
+
+export const DEFAULT_META_ADS_LOADER_CONFIG = {
+  level: "campaign" as MetaAdsLevel,
+  fieldStages: { impressions: "impression", inline_link_clicks: "click" } as Record<string, string>,
+  actionRules: [
+    { actionType: "landing_page_view", stage: "landing" },
+    { actionType: "lead", stage: "lead" },
+    { actionType: "purchase", stage: "purchase" },
+  ] as MetaActionRule[],
+  pageSize: 500,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  apiVersion: "v21.0",
+  baseUrl: "https://graph.facebook.com",
+};
+
+type ResolvedConfig = MetaAdsLoaderConfig & typeof DEFAULT_META_ADS_LOADER_CONFIG;
+
+interface InsightsRow {
+  date_start: string;
+  campaign_id?: string;
+  campaign_name?: string;
+  adset_id?: string;
+  adset_name?: string;
+  actions?: { action_type: string; value: string }[];
+  action_values?: { action_type: string; value: string }[];
+  [field: string]: unknown;
+}
+
+interface GraphPage<T> {
+  data: T[];
+  paging?: { cursors?: { after?: string }; next?: string };
+}
+
+export type Sleep = (ms: number) => Promise<void>;
+
+/** Graph API error codes for application, account and ads-insights throttling. */
+const RATE_LIMIT_CODES = new Set([4, 17, 32, 613, 80000, 80003, 80004, 80014]);
+
+/** Daily stage counts from the Meta Insights API (time_increment=1). */
+export class MetaAdsLoader implements EventLoader<MetaAdsLoaderConfig> {
+  constructor(
+    private readonly http: HttpClient = fetchHttpClient,
+    private readonly sleep: Sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+  ) {}
+
+  async load(config: MetaAdsLoaderConfig): Promise<Event[]> {
+    const cfg: ResolvedConfig = { ...DEFAULT_META_ADS_LOADER_CONFIG, ...config };
+    const counts = new Map<string, Event>();
+
+    for (const row of await fetchGraphPages<InsightsRow>(this.http, this.sleep, insightsUrl(cfg), cfg, "Meta Insights")) {
+      const funnelId = funnelOf(row, cfg);
+      if (funnelId === undefined) continue;
+      for (const [field, stage] of Object.entries(cfg.fieldStages)) {
+        addCount(counts, row.date_start, funnelId, stage, Number(row[field] ?? 0));
+      }
+      for (const rule of cfg.actionRules) {
+        const pattern = actionTypePattern(rule.actionType);
+        for (const entry of row[rule.from ?? "actions"] ?? []) {
+          if (pattern.test(entry.action_type)) addCount(counts, row.date_start, funnelId, rule.stage, Number(entry.value));
+        }
+      }
+    }
+
+    return [...counts.values()]
+      .map((event) => ({ ...event, count: Math.round(event.count) }))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.funnelId.localeCompare(b.funnelId) || a.stage.localeCompare(b.stage));
+  }
+}
+
+/**
+ * Every row of a Graph API edge, following paging.next cursors. Throttled requests are
+ * retried after the wait the response asks for (Retry-After, or
+ * estimated_time_to_regain_access in X-Business-Use-Case-Usage), falling back to
+ * exponential backoff. Failures name the endpoint as `api`, e.g. "Meta Insights".
+ */
+export async function fetchGraphPages<T>(
+  http: HttpClient,
+  sleep: Sleep,
+  firstUrl: string,
+  account: MetaAdsAccount,
+  api: string
+): Promise<T[]> {
+  const { maxRetries, retryDelayMs } = { ...DEFAULT_META_ADS_LOADER_CONFIG, ...account };
+  const rows: T[] = [];
+  let url: string | undefined = firstUrl;
+  while (url) {
+    for (let attempt = 0; ; attempt++) {
+      const response = await http({ method: "GET", url, headers: { Authorization: `Bearer ${account.accessToken}` } });
+      if (attempt < maxRetries && isRetryable(response)) {
+        await sleep(retryDelay(response) ?? retryDelayMs * 2 ** attempt);
+        continue;
+      }
+      const page: GraphPage<T> = parseJsonResponse<GraphPage<T>>(response, api);
+      rows.push(...page.data);
+      url = page.paging?.next;
+      break;
+    }
   }
+  return rows;
+}
+
+/** Base URL of an ad account's edges, e.g. `${accountUrl(account)}/insights`. */
+export function accountUrl(account: MetaAdsAccount): string {
+  const { baseUrl, apiVersion } = { ...DEFAULT_META_ADS_LOADER_CONFIG, ...account };
+  return `${baseUrl}/${apiVersion}/act_${account.adAccountId.replace(/^act_/, "")}`;
+}
+
+function insightsUrl(cfg: ResolvedConfig): string {
+  const actionFields = [...new Set(cfg.actionRules.map((rule) => rule.from ?? "actions"))];
+  const levelFields = cfg.level === "adset"
+    ? ["campaign_id", "campaign_name", "adset_id", "adset_name"]
+    : ["campaign_id", "campaign_name"];
+  const params = new URLSearchParams({
+    level: cfg.level,
+    time_increment: "1",
+    time_range: JSON.stringify({ since: cfg.startDate, until: cfg.endDate }),
+    fields: [...levelFields, ...Object.keys(cfg.fieldStages), ...actionFields].join(","),
+    limit: String(cfg.pageSize),
+  });
+  return `${accountUrl(cfg)}/insights?${params}`;
+}
+
+function funnelOf(row: InsightsRow, cfg: ResolvedConfig): string | undefined {
+  const lookup = (mapping: Record<string, string> | undefined, id?: string, name?: string) =>
+    mapping ? (id !== undefined ? mapping[id] : undefined) ?? (name !== undefined ? mapping[name] : undefined) : undefined;
+  return (cfg.level === "adset" ? lookup(cfg.adSetFunnels, row.adset_id, row.adset_name) : undefined)
+    ?? lookup(cfg.campaignFunnels, row.campaign_id, row.campaign_name);
+}
+
+function actionTypePattern(actionType: string): RegExp {
+  const escaped = actionType.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`);
+}
+
+function isRetryable(response: HttpResponse): boolean {
+  if (response.status === 429 || response.status >= 500) return true;
+  if (response.status < 400) return false;
+  try {
+    const { error } = JSON.parse(response.body);
+    return RATE_LIMIT_CODES.has(error?.code) || error?.is_transient === true;
+  } catch {
+    return false;
+  }
+}
+
+/** Milliseconds the response asks to wait, if it says. */
+function retryDelay(response: HttpResponse): number | undefined {
+  const retryAfter = Number(response.headers["retry-after"]);
+  if (response.headers["retry-after"] && Number.isFinite(retryAfter)) return retryAfter * 1000;
+
+  const usage = response.headers["x-business-use-case-usage"];
+  if (!usage) return undefined;
+  try {
+    const minutes = Object.values(JSON.parse(usage) as Record<string, { estimated_time_to_regain_access?: number }[]>)
+      .flat()
+      .map((entry) => entry.estimated_time_to_regain_access ?? 0);
+    const wait = Math.max(0, ...minutes);
+    return wait > 0 ? wait * 60_000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function addCount(counts: Map<string, Event>, date: string, funnelId: string, stage: string, count: number): void {
+  const key = `${date}|${funnelId}|${stage}`;
+  const event = counts.get(key);
+  if (event) event.count += count;
+  else counts.set(key, { date, funnelId, stage, count, source: "meta-ads" });
 }
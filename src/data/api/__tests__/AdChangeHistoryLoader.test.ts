@@ -0,0 +1,181 @@
+import path from "path";
+import { AdChangeHistoryLoader, AdChangeHistoryConfig } from "../AdChangeHistoryLoader";
+import { analyzeCauses } from "../../../core/engine/CauseAnalyzer";
+import { Break, BreakDirection, BreakSeverity, BreakType, ChangeCategory, TransitionKind } from "../../../core/entities";
+import { findDiagnosis, saveDiagnoses } from "../../../services/FeedbackService";
+import { createChangeRepository } from "../../../storage/ChangeRepository";
+import { initializeDatabase } from "../../../storage/Database";
+import { fixture, startStubServer, StubServer } from "./stubServer";
+
+const GOOGLE_CHANGE_EVENTS = path.join(__dirname, "fixtures/google-ads/change-events.json");
+
+describe("AdChangeHistoryLoader", () => {
+  const base: AdChangeHistoryConfig = {
+    startDate: "2025-01-14",
+    endDate: "2025-01-16",
+    funnels: { "111": "spring", Brand: "brand", "Retargeting - Warm": "retargeting", "120330000000005": "retargeting" },
+  };
+
+  describe("Google Ads change events", () => {
+    let server: StubServer;
+
+    afterEach(() => server?.close());
+
+    it("should derive category, severity and stages from change_event rows", async () => {
+      const changes = await new AdChangeHistoryLoader().load({ ...base, googleAds: { file: GOOGLE_CHANGE_EVENTS } });
+
+      expect(changes.map(({ date, funnelId, category, description, severity, affectedStages }) =>
+        ({ date, funnelId, category, description, severity, affectedStages }))).toEqual([
+        {
+          date: "2025-01-14",
+          funnelId: "spring",
+          category: ChangeCategory.AD,
+          description: "Google Ads campaign Spring Sale - Search: budget raised from 50 to 80 (+60%)",
+          severity: 4,
+          affectedStages: ["impression", "click"],
+        },
+        {
+          date: "2025-01-14",
+          funnelId: "brand",
+          category: ChangeCategory.AD,
+          description: "Google Ads campaign Brand paused",
+          severity: 5,
+          affectedStages: ["impression", "click"],
+        },
+        {
+          date: "2025-01-15",
+          funnelId: "spring",
+          category: ChangeCategory.AUDIENCE,
+          description: "Google Ads: 6 targeting edits in Spring Sale - Search",
+          severity: 3,
+          affectedStages: ["impression", "click"],
+        },
+        {
+          date: "2025-01-15",
+          funnelId: "spring",
+          category: ChangeCategory.AD,
+          description: "Google Ads ad in Generic: final URL changed",
+          severity: 4,
+          affectedStages: ["landing"],
+        },
+        {
+          date: "2025-01-16",
+          funnelId: "brand",
+          category: ChangeCategory.AD,
+          description: "Google Ads campaign Brand enabled",
+          severity: 4,
+          affectedStages: ["impression", "click"],
+        },
+      ]);
+    });
+
+    it("should link re-enabling a paused campaign to the pause as its revert", async () => {
+      const changes = await new AdChangeHistoryLoader().load({ ...base, googleAds: { file: GOOGLE_CHANGE_EVENTS } });
+
+      const pause = changes.find((c) => c.description.endsWith("paused"))!;
+      const enable = changes.find((c) => c.description.endsWith("enabled"))!;
+      expect(enable.revertsChangeId).toBe(pause.id);
+    });
+
+    it("should assign changes to unmapped campaigns to the default funnel", async () => {
+      const changes = await new AdChangeHistoryLoader().load({ ...base, defaultFunnelId: "*", googleAds: { file: GOOGLE_CHANGE_EVENTS } });
+
+      expect(changes.find((c) => c.funnelId === "*")).toMatchObject({
+        description: "Google Ads campaign Spring Sale - Display: bidding changed",
+        severity: 3,
+      });
+    });
+
+    it("should query change_event over searchStream", async () => {
+      server = await startStubServer(() => ({ body: fixture("google-ads/change-events.json") }));
+
+      const changes = await new AdChangeHistoryLoader().load({
+        ...base,
+        endDate: "2025-01-15",
+        googleAds: { customerId: "123-456-7890", accessToken: "token", developerToken: "dev-token", baseUrl: server.baseUrl },
+      });
+
+      expect(changes).toHaveLength(4);
+      expect(server.requests[0].url).toBe("/v17/customers/1234567890/googleAds:searchStream");
+      expect(JSON.parse(server.requests[0].body).query).toMatch(
+        /FROM change_event WHERE change_event\.change_date_time >= '2025-01-14' AND change_event\.change_date_time <= '2025-01-15 23:59:59'/
+      );
+    });
+  });
+
+  describe("Meta activities", () => {
+    let server: StubServer;
+
+    beforeEach(async () => {
+      server = await startStubServer((req) => ({
+        body: req.url.includes("after=QVFIUm")
+          ? fixture("meta-ads/activities-page2.json")
+          : JSON.stringify(fixture("meta-ads/activities-page1.json")).replace("{{baseUrl}}", server.baseUrl),
+      }));
+    });
+
+    afterEach(() => server.close());
+
+    function metaConfig(overrides: Partial<AdChangeHistoryConfig> = {}): AdChangeHistoryConfig {
+      return { ...base, metaAds: { adAccountId: "1234567890", accessToken: "token", baseUrl: server.baseUrl }, ...overrides };
+    }
+
+    it("should page through the activity log and classify budget, status and targeting edits", async () => {
+      const changes = await new AdChangeHistoryLoader().load(metaConfig());
+
+      expect(changes.map((c) => [c.funnelId, c.category, c.description, c.severity])).toEqual([
+        ["retargeting", ChangeCategory.AD, "Meta ad set Retargeting - Warm: budget cut from 50 to 40 (-20%)", 2],
+        ["retargeting", ChangeCategory.AD, "Meta ad Carousel v2 paused", 3],
+        ["retargeting", ChangeCategory.AUDIENCE, "Meta ad set Retargeting - Warm: targeting edited", 2],
+      ]);
+      const url = new URL(server.requests[0].url, server.baseUrl);
+      expect(url.pathname).toBe("/v21.0/act_1234567890/activities");
+      expect(url.searchParams.get("since")).toBe("2025-01-14");
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it("should skip account events and keep new ads for the default funnel", async () => {
+      const changes = await new AdChangeHistoryLoader().load(metaConfig({ defaultFunnelId: "*" }));
+
+      expect(changes.map((c) => c.description)).not.toContainEqual(expect.stringContaining("Shop EU"));
+      expect(changes[changes.length - 1]).toMatchObject({ funnelId: "*", description: "Meta ad Spring video: creative changed", severity: 3 });
+    });
+
+    it("should produce changes that can be stored, with their diagnoses", async () => {
+      const changes = await new AdChangeHistoryLoader().load(metaConfig({ googleAds: { file: GOOGLE_CHANGE_EVENTS } }));
+      const clickDrop: Break = {
+        breakType: BreakType.CONVERSION,
+        funnelId: "retargeting",
+        fromStage: "impression",
+        toStage: "click",
+        transitionKind: TransitionKind.ADJACENT,
+        direction: BreakDirection.DROP,
+        detectedDate: "2025-01-16",
+        onsetDate: "2025-01-15",
+        lastSeenDate: "2025-01-16",
+        durationDays: 2,
+        active: true,
+        baselineRate: 0.02,
+        expectedRate: 0.02,
+        currentRate: 0.012,
+        absoluteDrop: 0.008,
+        relativeDrop: 0.4,
+        zScore: 4,
+        severity: BreakSeverity.CRITICAL,
+      };
+
+      const db = initializeDatabase(":memory:");
+      try {
+        const stored = createChangeRepository(db).insertMany(changes);
+        const [saved] = saveDiagnoses(db, analyzeCauses([clickDrop], changes));
+
+        const enable = stored.find((c) => c.description === "Google Ads campaign Brand enabled")!;
+        expect(enable.revertsChangeId).toBe(stored.find((c) => c.description === "Google Ads campaign Brand paused")!.id);
+        expect(saved.causes.map((c) => c.changeId)).toContainEqual(expect.stringMatching(/^meta-ads:/));
+        expect(findDiagnosis(db, saved.id!)!.causes).toEqual(saved.causes);
+      } finally {
+        db.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { GA4Loader, GA4LoaderConfig } from "../GA4Loader";
+import { fetchHttpClient, HttpClient, HttpRequest } from "../HttpClient";
+import { fixture, startStubServer, StubServer } from "./stubServer";
+
+const CONFIG: GA4LoaderConfig = {
+  propertyId: "123456",
+  accessToken: "token",
+  startDate: "2025-01-14",
+  endDate: "2025-01-15",
+  funnelDimension: "sessionCampaignName",
+  funnels: {
+    spring: {
+      dimensionValues: ["spring_sale", "spring_sale_retargeting"],
+      events: { page_view: "landing", generate_lead: "lead", purchase: "purchase" },
+    },
+    brand: { events: { page_view: "landing" } },
+  },
+};
+
+/** Answers runReport pages from recorded fixtures by offset. */
+function fixtureClient(pages: Record<number, unknown>, requests: HttpRequest[] = []): HttpClient {
+  return async (request) => {
+    requests.push(request);
+    const { offset } = JSON.parse(request.body!);
+    return { status: 200, headers: {}, body: JSON.stringify(pages[offset]) };
+  };
+}
+
+describe("GA4Loader", () => {
+  it("should page through the report and map event names to funnel stages", async () => {
+    const requests: HttpRequest[] = [];
+    const client = fixtureClient({ 0: fixture("ga4/report-page1.json"), 4: fixture("ga4/report-page2.json") }, requests);
+
+    const events = await new GA4Loader(client).load(CONFIG);
+
+    expect(events).toEqual([
+      { date: "2025-01-14", funnelId: "brand", stage: "landing", count: 1530, source: "ga4" },
+      { date: "2025-01-14", funnelId: "spring", stage: "landing", count: 812, source: "ga4" },
+      { date: "2025-01-14", funnelId: "spring", stage: "lead", count: 97, source: "ga4" },
+      { date: "2025-01-14", funnelId: "spring", stage: "purchase", count: 21, source: "ga4" },
+      { date: "2025-01-15", funnelId: "spring", stage: "landing", count: 305, source: "ga4" },
+    ]);
+    expect(requests.map((r) => JSON.parse(r.body!).offset)).toEqual([0, 4]);
+  });
+
+  it("should build the runReport request from the config", async () => {
+    const requests: HttpRequest[] = [];
+    await new GA4Loader(fixtureClient({ 0: fixture("ga4/report-page1.json"), 4: fixture("ga4/report-page2.json") }, requests))
+      .load({ ...CONFIG, pageSize: 4 });
+
+    const [request] = requests;
+    expect(request.url).toBe("https://analyticsdata.googleapis.com/v1beta/properties/123456:runReport");
+    expect(request.headers!.Authorization).toBe("Bearer token");
+    expect(JSON.parse(request.body!)).toMatchObject({
+      dateRanges: [{ startDate: "2025-01-14", endDate: "2025-01-15" }],
+      dimensions: [{ name: "date" }, { name: "eventName" }, { name: "sessionCampaignName" }],
+      metrics: [{ name: "eventCount" }],
+      dimensionFilter: { filter: { fieldName: "eventName", inListFilter: { values: ["page_view", "generate_lead", "purchase"] } } },
+      limit: 4,
+    });
+  });
+
+  it("should count every mapped event for every funnel without a funnel dimension", async () => {
+    const config: GA4LoaderConfig = { ...CONFIG, funnelDimension: undefined, funnels: { site: { events: { page_view: "landing" } } } };
+    const events = await new GA4Loader(fixtureClient({ 0: fixture("ga4/report-page1.json"), 4: fixture("ga4/report-page2.json") }))
+      .load(config);
+
+    expect(events.map((e) => [e.date, e.count])).toEqual([["2025-01-14", 812 + 1530], ["2025-01-15", 305]]);
+  });
+
+  it("should reject sampled reports unless sampling is allowed", async () => {
+    const client = fixtureClient({ 0: fixture("ga4/report-sampled.json") });
+    const config: GA4LoaderConfig = { ...CONFIG, funnelDimension: undefined };
+
+    await expect(new GA4Loader(client).load(config)).rejects.toThrow("GA4 report is sampled (12.5% of sessions read)");
+    expect(await new GA4Loader(client).load({ ...config, allowSampling: true })).toHaveLength(2);
+  });
+
+  describe("against a stub server", () => {
+    let server: StubServer;
+
+    afterEach(() => server.close());
+
+    it("should load over HTTP", async () => {
+      server = await startStubServer((req) =>
+        ({ body: fixture(JSON.parse(req.body).offset === 0 ? "ga4/report-page1.json" : "ga4/report-page2.json") }));
+
+      const events = await new GA4Loader(fetchHttpClient).load({ ...CONFIG, baseUrl: server.baseUrl });
+
+      expect(events).toHaveLength(5);
+      expect(server.requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+        "POST /properties/123456:runReport",
+        "POST /properties/123456:runReport",
+      ]);
+      expect(server.requests[0].headers.authorization).toBe("Bearer token");
+    });
+
+    it("should report API errors with their message", async () => {
+      server = await startStubServer(() => ({ status: 403, body: fixture("ga4/error-permission.json") }));
+
+      await expect(new GA4Loader().load({ ...CONFIG, baseUrl: server.baseUrl })).rejects.toThrow(
+        "GA4 runReport failed (HTTP 403): User does not have sufficient permissions for this property."
+      );
+    });
+  });
+});
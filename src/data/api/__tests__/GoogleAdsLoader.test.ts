@@ -0,0 +1,108 @@
+import { GoogleAdsLoader, GoogleAdsLoaderConfig } from "../GoogleAdsLoader";
+import { fixture, startStubServer, StubServer } from "./stubServer";
+
+describe("GoogleAdsLoader", () => {
+  let server: StubServer;
+
+  afterEach(() => server.close());
+
+  function config(overrides: Partial<GoogleAdsLoaderConfig> = {}): GoogleAdsLoaderConfig {
+    return {
+      customerId: "123-456-7890",
+      accessToken: "token",
+      developerToken: "dev-token",
+      startDate: "2025-01-14",
+      endDate: "2025-01-15",
+      campaignFunnels: { "111": "spring", "Spring Sale - Display": "spring", Brand: "brand" },
+      baseUrl: server.baseUrl,
+      ...overrides,
+    };
+  }
+
+  /** Streams the conversions fixture for queries segmented by conversion action, `metrics` otherwise. */
+  function serve(metrics: string): Promise<StubServer> {
+    return startStubServer((req) => ({
+      body: fixture(JSON.parse(req.body).query.includes("conversion_action_name") ? "google-ads/conversions-stream.json" : metrics),
+      chunkSize: 256,
+    }));
+  }
+
+  it("should map impressions, clicks and conversion actions of mapped campaigns to stages", async () => {
+    server = await serve("google-ads/metrics-stream.json");
+
+    const events = await new GoogleAdsLoader().load(config({
+      conversionActions: { "Lead form submit": "lead", Purchase: "purchase" },
+    }));
+
+    expect(events).toEqual([
+      { date: "2025-01-14", funnelId: "brand", stage: "click", count: 1044, source: "google-ads" },
+      { date: "2025-01-14", funnelId: "brand", stage: "impression", count: 5120, source: "google-ads" },
+      { date: "2025-01-14", funnelId: "spring", stage: "click", count: 903, source: "google-ads" },
+      { date: "2025-01-14", funnelId: "spring", stage: "impression", count: 12840, source: "google-ads" },
+      { date: "2025-01-14", funnelId: "spring", stage: "lead", count: 42, source: "google-ads" },
+      { date: "2025-01-14", funnelId: "spring", stage: "purchase", count: 7, source: "google-ads" },
+      { date: "2025-01-15", funnelId: "spring", stage: "click", count: 612 + 230, source: "google-ads" },
+      { date: "2025-01-15", funnelId: "spring", stage: "impression", count: 11210 + 40300, source: "google-ads" },
+    ]);
+  });
+
+  it("should send GAQL queries with the account headers", async () => {
+    server = await serve("google-ads/metrics-stream.json");
+
+    await new GoogleAdsLoader().load(config({
+      loginCustomerId: "999-000-1111",
+      where: "campaign.status = 'ENABLED'",
+      conversionActions: { Purchase: "purchase" },
+    }));
+
+    expect(server.requests.map((r) => r.url)).toEqual([
+      "/v17/customers/1234567890/googleAds:searchStream",
+      "/v17/customers/1234567890/googleAds:searchStream",
+    ]);
+    expect(server.requests[0].headers).toMatchObject({
+      authorization: "Bearer token",
+      "developer-token": "dev-token",
+      "login-customer-id": "9990001111",
+    });
+    expect(server.requests.map((r) => JSON.parse(r.body).query)).toEqual([
+      "SELECT campaign.id, campaign.name, segments.date, metrics.impressions, metrics.clicks FROM campaign " +
+        "WHERE segments.date BETWEEN '2025-01-14' AND '2025-01-15' AND campaign.status = 'ENABLED'",
+      "SELECT campaign.id, campaign.name, segments.date, segments.conversion_action_name, metrics.conversions FROM campaign " +
+        "WHERE segments.date BETWEEN '2025-01-14' AND '2025-01-15' AND campaign.status = 'ENABLED'",
+    ]);
+  });
+
+  it("should convert micro amounts", async () => {
+    server = await serve("google-ads/metrics-stream.json");
+
+    const events = await new GoogleAdsLoader().load(config({ metricStages: { "metrics.cost_micros": "spend" } }));
+
+    expect(events.find((e) => e.funnelId === "brand")).toMatchObject({ stage: "spend", count: 98 });
+  });
+
+  it("should map ad groups to funnels ahead of their campaign at ad group level", async () => {
+    server = await serve("google-ads/ad-group-stream.json");
+
+    const events = await new GoogleAdsLoader().load(config({ level: "ad_group", adGroupFunnels: { Retargeting: "retargeting" } }));
+
+    expect(JSON.parse(server.requests[0].body).query).toContain("ad_group.id, ad_group.name, segments.date, metrics.impressions, metrics.clicks FROM ad_group");
+    expect(events.filter((e) => e.stage === "click").map((e) => [e.funnelId, e.count])).toEqual([
+      ["retargeting", 301],
+      ["spring", 602],
+    ]);
+  });
+
+  it("should fail on an error batch at the end of the stream", async () => {
+    server = await serve("google-ads/partial-failure-stream.json");
+
+    await expect(new GoogleAdsLoader().load(config())).rejects.toThrow("Google Ads searchStream failed: Internal error encountered.");
+  });
+
+  it("should report API errors with their message", async () => {
+    server = await startStubServer(() => ({ status: 401, body: fixture("google-ads/error-authentication.json") }));
+
+    await expect(new GoogleAdsLoader().load(config())).rejects.toThrow(
+      "Google Ads searchStream failed (HTTP 401): Request is missing required authentication credential."
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { MetaAdsLoader, MetaAdsLoaderConfig } from "../MetaAdsLoader";
+import { fetchHttpClient } from "../HttpClient";
+import { fixture, RecordedRequest, startStubServer, StubResponse, StubServer } from "./stubServer";
+
+describe("MetaAdsLoader", () => {
+  let server: StubServer;
+  let sleeps: number[];
+
+  beforeEach(() => {
+    sleeps = [];
+  });
+
+  afterEach(() => server.close());
+
+  function loader(): MetaAdsLoader {
+    return new MetaAdsLoader(fetchHttpClient, async (ms) => {
+      sleeps.push(ms);
+    });
+  }
+
+  function config(overrides: Partial<MetaAdsLoaderConfig> = {}): MetaAdsLoaderConfig {
+    return {
+      adAccountId: "act_1234567890",
+      accessToken: "token",
+      startDate: "2025-01-14",
+      endDate: "2025-01-15",
+      campaignFunnels: { "120210000000001": "spring", "Always-on Retargeting": "retargeting" },
+      baseUrl: server.baseUrl,
+      ...overrides,
+    };
+  }
+
+  /** First page, whose paging.next points back at the stub, then the cursor's page. */
+  function servePages(before: (req: RecordedRequest) => StubResponse | undefined = () => undefined): Promise<StubServer> {
+    return startStubServer((req) => {
+      const override = before(req);
+      if (override) return override;
+      if (req.url.includes("after=MQZDZD")) return { body: fixture("meta-ads/insights-page2.json") };
+      return { body: JSON.stringify(fixture("meta-ads/insights-page1.json")).replace("{{baseUrl}}", server.baseUrl) };
+    });
+  }
+
+  it("should follow cursor pages and map fields and actions to stages", async () => {
+    server = await servePages();
+
+    const events = await loader().load(config());
+
+    expect(events).toEqual([
+      { date: "2025-01-14", funnelId: "retargeting", stage: "click", count: 402, source: "meta-ads" },
+      { date: "2025-01-14", funnelId: "retargeting", stage: "impression", count: 9120, source: "meta-ads" },
+      { date: "2025-01-14", funnelId: "retargeting", stage: "landing", count: 351, source: "meta-ads" },
+      { date: "2025-01-14", funnelId: "retargeting", stage: "purchase", count: 19, source: "meta-ads" },
+      { date: "2025-01-14", funnelId: "spring", stage: "click", count: 1203, source: "meta-ads" },
+      { date: "2025-01-14", funnelId: "spring", stage: "impression", count: 48210, source: "meta-ads" },
+      { date: "2025-01-14", funnelId: "spring", stage: "landing", count: 988, source: "meta-ads" },
+      { date: "2025-01-14", funnelId: "spring", stage: "lead", count: 64, source: "meta-ads" },
+      { date: "2025-01-14", funnelId: "spring", stage: "purchase", count: 12, source: "meta-ads" },
+      { date: "2025-01-15", funnelId: "spring", stage: "click", count: 1098, source: "meta-ads" },
+      { date: "2025-01-15", funnelId: "spring", stage: "impression", count: 51034, source: "meta-ads" },
+      { date: "2025-01-15", funnelId: "spring", stage: "landing", count: 402, source: "meta-ads" },
+      { date: "2025-01-15", funnelId: "spring", stage: "lead", count: 21, source: "meta-ads" },
+    ]);
+  });
+
+  it("should request daily insights at the configured level", async () => {
+    server = await servePages();
+
+    await loader().load(config({ level: "adset" }));
+
+    const url = new URL(server.requests[0].url, server.baseUrl);
+    expect(url.pathname).toBe("/v21.0/act_1234567890/insights");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      level: "adset",
+      time_increment: "1",
+      time_range: '{"since":"2025-01-14","until":"2025-01-15"}',
+      fields: "campaign_id,campaign_name,adset_id,adset_name,impressions,inline_link_clicks,actions",
+      limit: "500",
+    });
+    expect(server.requests[0].headers.authorization).toBe("Bearer token");
+  });
+
+  it("should apply wildcard action rules and sum action values", async () => {
+    server = await servePages();
+
+    const events = await loader().load(config({
+      fieldStages: {},
+      actionRules: [
+        { actionType: "offsite_conversion.fb_pixel_*", stage: "pixel" },
+        { actionType: "purchase", stage: "revenue", from: "action_values" },
+      ],
+    }));
+
+    expect(events.filter((e) => e.date === "2025-01-14").map((e) => [e.funnelId, e.stage, e.count])).toEqual([
+      ["retargeting", "revenue", 1712],
+      ["spring", "pixel", 64 + 12],
+      ["spring", "revenue", 1044],
+    ]);
+    expect(new URL(server.requests[0].url, server.baseUrl).searchParams.get("fields")).toBe("campaign_id,campaign_name,actions,action_values");
+  });
+
+  it("should wait as long as the rate limit headers ask before retrying", async () => {
+    const throttled: StubResponse[] = [
+      {
+        status: 400,
+        headers: { "X-Business-Use-Case-Usage": '{"1234567890":[{"type":"ads_insights","call_count":100,"estimated_time_to_regain_access":2}]}' },
+        body: fixture("meta-ads/error-rate-limit.json"),
+      },
+      { status: 429, headers: { "Retry-After": "30" }, body: fixture("meta-ads/error-rate-limit.json") },
+    ];
+    server = await servePages(() => throttled.shift());
+
+    const events = await loader().load(config());
+
+    expect(sleeps).toEqual([2 * 60_000, 30_000]);
+    expect(events).toHaveLength(13);
+  });
+
+  it("should back off exponentially and give up after maxRetries", async () => {
+    server = await servePages(() => ({ status: 400, body: fixture("meta-ads/error-rate-limit.json") }));
+
+    await expect(loader().load(config({ maxRetries: 2, retryDelayMs: 100 }))).rejects.toThrow(
+      "Meta Insights failed (HTTP 400): (#80000) There have been too many calls from this ad-account."
+    );
+    expect(sleeps).toEqual([100, 200]);
+  });
+
+  it("should not retry other API errors", async () => {
+    server = await servePages(() => ({ status: 400, body: fixture("meta-ads/error-token.json") }));
+
+    await expect(loader().load(config())).rejects.toThrow("Error validating access token");
+    expect(server.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,59 @@
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { AddressInfo } from "net";
+
+export interface RecordedRequest {
+  method: string;
+  /** Path and query string. */
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Sent as is when a string, as JSON otherwise. */
+  body: unknown;
+  /** Write the body in pieces of this many characters, with chunked transfer encoding. */
+  chunkSize?: number;
+}
+
+export interface StubServer {
+  baseUrl: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+/** Local HTTP server answering each request with `respond`, recording what it was sent. */
+export async function startStubServer(respond: (request: RecordedRequest) => StubResponse): Promise<StubServer> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const request = { method: req.method ?? "GET", url: req.url ?? "/", headers: req.headers, body: Buffer.concat(chunks).toString("utf-8") };
+      requests.push(request);
+      const { status = 200, headers = {}, body, chunkSize } = respond(request);
+      const text = typeof body === "string" ? body : JSON.stringify(body);
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      if (chunkSize) {
+        for (let i = 0; i < text.length; i += chunkSize) res.write(text.slice(i, i + chunkSize));
+      }
+      res.end(chunkSize ? undefined : text);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** A recorded API response from fixtures/, e.g. fixture("ga4/report-page1.json"). */
+export function fixture(name: string): unknown {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, "fixtures", name), "utf-8"));
+}
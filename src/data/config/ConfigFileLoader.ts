@@ -0,0 +1,370 @@
+import fs from "fs";
+import { extname } from "path";
+import yaml from "js-yaml";
+import { DEFAULT_BREAK_DETECTOR_CONFIG, LayeredDetectorConfig } from "../../core/engine/BreakDetector";
+import { CauseAnalyzerConfig, DEFAULT_CAUSE_ANALYZER_CONFIG, LayeredCauseAnalyzerConfig } from "../../core/engine/CauseAnalyzer";
+import { DEFAULT_IMPACT_CONFIG, LayeredImpactConfig } from "../../core/engine/ImpactEstimator";
+import { BreakDetectorConfig, ChangeCategory, parentCategory } from "../../core/entities";
+import { GitChangeLoaderConfig } from "../git/GitChangeLoader";
+
+/** How releases in a git repository become changes; the repository and dates come from the caller. */
+export type DeploysConfig = Partial<Omit<GitChangeLoaderConfig, "repoPath" | "since" | "until">>;
+
+/** Pipeline settings read from a JSON or YAML config file; every section is optional. */
+export interface ConfigFile {
+  breakDetector?: LayeredDetectorConfig;
+  volumeDetector?: LayeredDetectorConfig;
+  causeAnalyzer?: LayeredCauseAnalyzerConfig;
+  impact?: LayeredImpactConfig;
+  deploys?: DeploysConfig;
+}
+
+const SECTIONS: (keyof ConfigFile)[] = ["breakDetector", "volumeDetector", "causeAnalyzer", "impact", "deploys"];
+
+const ALLOWED_VALUES: Partial<Record<keyof BreakDetectorConfig, readonly string[]>> = {
+  detector: ["window", "cusum"],
+  significanceTest: ["stddev", "two-proportion"],
+  seasonality: ["none", "day-of-week"],
+};
+
+const CAUSE_ANALYZER_ALLOWED_VALUES: Partial<Record<keyof CauseAnalyzerConfig, readonly string[]>> = {
+  temporalAnchor: ["detected", "onset"],
+};
+
+/** Detector settings that are probabilities, so must lie strictly between 0 and 1. */
+const OPEN_UNIT_INTERVAL_SETTINGS = new Set(["maxPValue", "confidenceLevel"]);
+
+/** Cause analyzer settings that are scores, so must lie in [0, 1]. */
+const UNIT_INTERVAL_SETTINGS = new Set(["fallbackRelevance", "minConfidenceThreshold", "causalWeight"]);
+
+const BUILT_IN_CATEGORIES = Object.values(ChangeCategory) as string[];
+
+/** Lowercase segments joined by "/", e.g. "email" or "site/checkout". */
+const CATEGORY_ID = /^[a-z0-9][a-z0-9_-]*(\/[a-z0-9][a-z0-9_-]*)*$/;
+
+const CATEGORY_DEFINITION_KEYS = new Set(["stageRelevance", "volumeRelevance", "description"]);
+
+const RELEASE_MODES = ["tags", "merges", "commits"];
+
+const DEPLOYS_STRING_SETTINGS = new Set(["tagPattern", "branch", "category", "defaultFunnelId"]);
+
+const PATH_RULE_KEYS = new Set(["paths", "funnelId", "stages", "category", "minSeverity"]);
+
+/**
+ * Read and validate a config file; .yaml/.yml files are parsed as YAML, anything else as
+ * JSON. Every problem found is reported in one error, prefixed with its path in the file,
+ * e.g. "breakDetector.funnels.brand.minRelativeDrop".
+ */
+export function loadConfigFile(filePath: string): ConfigFile {
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(filePath, "utf-8");
+    const isYaml = [".yaml", ".yml"].includes(extname(filePath).toLowerCase());
+    raw = isYaml ? yaml.load(content) : JSON.parse(content);
+  } catch (err: any) {
+    throw new Error(`Invalid config file ${filePath}: ${err.message}`);
+  }
+
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    errors.push("(root): expected an object");
+  } else {
+    for (const key of Object.keys(raw)) {
+      if (!SECTIONS.includes(key as keyof ConfigFile)) errors.push(`${key}: unknown section`);
+    }
+    for (const section of ["breakDetector", "volumeDetector"] as const) {
+      if (raw[section] !== undefined) validateDetectorSection(raw[section], section, errors);
+    }
+    if (raw.causeAnalyzer !== undefined) validateCauseAnalyzerSection(raw.causeAnalyzer, "causeAnalyzer", errors);
+    if (raw.impact !== undefined) validateImpactSection(raw.impact, "impact", errors);
+    if (raw.deploys !== undefined) validateDeploysSection(raw.deploys, "deploys", declaredCategories(raw.causeAnalyzer), errors);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config file ${filePath}:\n  ${errors.join("\n  ")}`);
+  }
+  return raw as ConfigFile;
+}
+
+/**
+ * Merge cause analyzer settings into a config file, creating it if needed and keeping its
+ * other settings. Relevance for categories that are neither built in nor declared in the
+ * file is left out, since loading would reject it; returns those categories.
+ */
+export function mergeCauseAnalyzerSettings(filePath: string, settings: Partial<CauseAnalyzerConfig>): string[] {
+  const existing: ConfigFile = fs.existsSync(filePath) ? loadConfigFile(filePath) : {};
+  const current = existing.causeAnalyzer ?? {};
+  const categories = declaredCategories(current);
+
+  const skipped: string[] = [];
+  const customStageRelevance = { ...current.customStageRelevance };
+  for (const [category, scores] of Object.entries(settings.customStageRelevance ?? {})) {
+    if (!categories.has(category)) {
+      skipped.push(category);
+      continue;
+    }
+    customStageRelevance[category] = { ...customStageRelevance[category], ...scores };
+  }
+
+  const merged: ConfigFile = {
+    ...existing,
+    causeAnalyzer: { ...current, ...settings, customStageRelevance },
+  };
+  const isYaml = [".yaml", ".yml"].includes(extname(filePath).toLowerCase());
+  fs.writeFileSync(filePath, isYaml ? yaml.dump(merged) : `${JSON.stringify(merged, null, 2)}\n`, "utf-8");
+  return skipped;
+}
+
+function validateDetectorSection(value: unknown, path: string, errors: string[]): void {
+  forEachScope(value, path, errors, (scope, scopePath) => {
+    const { transitions, ...settings } = scope;
+    validateDetectorSettings(settings, scopePath, errors);
+
+    if (transitions === undefined) return;
+    if (!isObject(transitions)) {
+      errors.push(`${scopePath}.transitions: expected an object keyed by "from->to" or stage`);
+      return;
+    }
+    for (const [key, overrides] of Object.entries(transitions)) {
+      if (!isObject(overrides)) {
+        errors.push(`${scopePath}.transitions.${key}: expected an object`);
+        continue;
+      }
+      validateDetectorSettings(overrides, `${scopePath}.transitions.${key}`, errors);
+    }
+  });
+}
+
+function validateCauseAnalyzerSection(value: unknown, path: string, errors: string[]): void {
+  const categories = declaredCategories(value);
+
+  forEachScope(value, path, errors, (scope, scopePath) => {
+    const { customStageRelevance, categories: taxonomy, ...settings } = scope;
+    if (taxonomy !== undefined) {
+      if (scopePath === path) validateCategories(taxonomy, `${scopePath}.categories`, categories, errors);
+      else errors.push(`${scopePath}.categories: categories can only be declared globally`);
+    }
+
+    for (const [key, setting] of Object.entries(settings)) {
+      const allowed = CAUSE_ANALYZER_ALLOWED_VALUES[key as keyof CauseAnalyzerConfig];
+      if (!(key in DEFAULT_CAUSE_ANALYZER_CONFIG)) {
+        errors.push(`${scopePath}.${key}: unknown setting`);
+      } else if (allowed) {
+        if (!allowed.includes(setting as string)) errors.push(`${scopePath}.${key}: expected one of ${allowed.join(", ")}`);
+      } else if (typeof setting !== "number" || !Number.isFinite(setting)) {
+        errors.push(`${scopePath}.${key}: expected a number`);
+      } else if (setting < 0 || (UNIT_INTERVAL_SETTINGS.has(key) && setting > 1)) {
+        errors.push(`${scopePath}.${key}: expected ${UNIT_INTERVAL_SETTINGS.has(key) ? "a value in [0, 1]" : "a non-negative number"}`);
+      }
+    }
+
+    if (customStageRelevance === undefined) return;
+    const matrixPath = `${scopePath}.customStageRelevance`;
+    if (!isObject(customStageRelevance)) {
+      errors.push(`${matrixPath}: expected an object keyed by change category`);
+      return;
+    }
+    for (const [category, scores] of Object.entries(customStageRelevance)) {
+      if (!categories.has(category)) {
+        errors.push(`${matrixPath}.${category}: unknown category, expected one of ${[...categories].join(", ")}`);
+      } else if (!isObject(scores)) {
+        errors.push(`${matrixPath}.${category}: expected an object keyed by "from->to" or stage`);
+      } else {
+        for (const [key, score] of Object.entries(scores)) {
+          if (typeof score !== "number" || !(score >= 0 && score <= 1)) {
+            errors.push(`${matrixPath}.${category}.${key}: expected a value in [0, 1]`);
+          }
+        }
+      }
+    }
+  });
+}
+
+/** Ids must be well-formed and subcategories need a built-in or declared parent. */
+function validateCategories(value: unknown, path: string, categories: Set<string>, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object keyed by category id`);
+    return;
+  }
+  for (const [category, definition] of Object.entries(value)) {
+    const categoryPath = `${path}.${category}`;
+    if (!CATEGORY_ID.test(category)) {
+      errors.push(`${categoryPath}: invalid category id, expected lowercase names joined by "/", e.g. site/checkout`);
+      continue;
+    }
+    const parent = parentCategory(category);
+    if (parent !== undefined && !categories.has(parent)) {
+      errors.push(`${categoryPath}: unknown parent category ${parent}`);
+    }
+    if (!isObject(definition)) {
+      errors.push(`${categoryPath}: expected an object`);
+      continue;
+    }
+
+    const { stageRelevance, volumeRelevance, description } = definition;
+    for (const key of Object.keys(definition)) {
+      if (!CATEGORY_DEFINITION_KEYS.has(key)) errors.push(`${categoryPath}.${key}: unknown setting`);
+    }
+    if (description !== undefined && typeof description !== "string") {
+      errors.push(`${categoryPath}.description: expected a string`);
+    }
+    if (volumeRelevance !== undefined && (typeof volumeRelevance !== "number" || !(volumeRelevance >= 0 && volumeRelevance <= 1))) {
+      errors.push(`${categoryPath}.volumeRelevance: expected a value in [0, 1]`);
+    }
+    if (stageRelevance === undefined) continue;
+    if (!isObject(stageRelevance)) {
+      errors.push(`${categoryPath}.stageRelevance: expected an object keyed by "from->to" or stage`);
+      continue;
+    }
+    for (const [key, score] of Object.entries(stageRelevance)) {
+      if (typeof score !== "number" || !(score >= 0 && score <= 1)) {
+        errors.push(`${categoryPath}.stageRelevance.${key}: expected a value in [0, 1]`);
+      }
+    }
+  }
+}
+
+/** Built-in categories plus those the causeAnalyzer section declares. */
+function declaredCategories(causeAnalyzer: unknown): Set<string> {
+  const declared = isObject(causeAnalyzer) && isObject(causeAnalyzer.categories) ? Object.keys(causeAnalyzer.categories) : [];
+  return new Set([...BUILT_IN_CATEGORIES, ...declared]);
+}
+
+function validateDeploysSection(value: unknown, path: string, categories: Set<string>, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  const { releases, ignorePaths, rules, ...settings } = value;
+  if (releases !== undefined && !RELEASE_MODES.includes(releases as string)) {
+    errors.push(`${path}.releases: expected one of ${RELEASE_MODES.join(", ")}`);
+  }
+  if (ignorePaths !== undefined && !isStringArray(ignorePaths)) {
+    errors.push(`${path}.ignorePaths: expected a list of path globs`);
+  }
+  for (const [key, setting] of Object.entries(settings)) {
+    if (!DEPLOYS_STRING_SETTINGS.has(key)) {
+      errors.push(`${path}.${key}: unknown setting`);
+    } else if (typeof setting !== "string") {
+      errors.push(`${path}.${key}: expected a string`);
+    } else if (key === "category" && !categories.has(setting)) {
+      errors.push(`${path}.category: unknown category ${setting}`);
+    }
+  }
+
+  if (rules === undefined) return;
+  if (!Array.isArray(rules)) {
+    errors.push(`${path}.rules: expected a list of path rules`);
+    return;
+  }
+  rules.forEach((rule, i) => {
+    const rulePath = `${path}.rules.${i}`;
+    if (!isObject(rule)) {
+      errors.push(`${rulePath}: expected an object`);
+      return;
+    }
+    for (const key of Object.keys(rule)) {
+      if (!PATH_RULE_KEYS.has(key)) errors.push(`${rulePath}.${key}: unknown setting`);
+    }
+    const { paths, funnelId, stages, category, minSeverity } = rule;
+    if (!isStringArray(paths) || paths.length === 0) {
+      errors.push(`${rulePath}.paths: expected a non-empty list of path globs`);
+    }
+    if (funnelId !== undefined && typeof funnelId !== "string") {
+      errors.push(`${rulePath}.funnelId: expected a string`);
+    }
+    if (stages !== undefined && !isStringArray(stages)) {
+      errors.push(`${rulePath}.stages: expected a list of stages`);
+    }
+    if (category !== undefined && (typeof category !== "string" || !categories.has(category))) {
+      errors.push(`${rulePath}.category: unknown category ${category}`);
+    }
+    if (minSeverity !== undefined && (!Number.isInteger(minSeverity) || (minSeverity as number) < 1 || (minSeverity as number) > 5)) {
+      errors.push(`${rulePath}.minSeverity: expected an integer from 1 to 5`);
+    }
+  });
+}
+
+function validateImpactSection(value: unknown, path: string, errors: string[]): void {
+  forEachScope(value, path, errors, (scope, scopePath) => {
+    const { stageValues, ...settings } = scope;
+    for (const [key, setting] of Object.entries(settings)) {
+      if (!(key in DEFAULT_IMPACT_CONFIG)) {
+        errors.push(`${scopePath}.${key}: unknown setting`);
+      } else if (typeof setting !== "number" || !Number.isFinite(setting) || setting < 0) {
+        errors.push(`${scopePath}.${key}: expected a non-negative number`);
+      }
+    }
+
+    if (stageValues === undefined) return;
+    if (!isObject(stageValues)) {
+      errors.push(`${scopePath}.stageValues: expected an object keyed by stage`);
+      return;
+    }
+    for (const [stage, stageValue] of Object.entries(stageValues)) {
+      if (typeof stageValue !== "number" || !Number.isFinite(stageValue) || stageValue < 0) {
+        errors.push(`${scopePath}.stageValues.${stage}: expected a non-negative number`);
+      }
+    }
+  });
+}
+
+/** Call `validate` for the section itself and for each entry of its `funnels` map. */
+function forEachScope(
+  value: unknown,
+  path: string,
+  errors: string[],
+  validate: (scope: Record<string, unknown>, scopePath: string) => void
+): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  const { funnels, ...global } = value;
+  validate(global, path);
+
+  if (funnels === undefined) return;
+  if (!isObject(funnels)) {
+    errors.push(`${path}.funnels: expected an object keyed by funnel id`);
+    return;
+  }
+  for (const [funnelId, funnel] of Object.entries(funnels)) {
+    if (!isObject(funnel)) {
+      errors.push(`${path}.funnels.${funnelId}: expected an object`);
+      continue;
+    }
+    validate(funnel, `${path}.funnels.${funnelId}`);
+  }
+}
+
+/** Settings must be detector config keys with the same type as their default. */
+function validateDetectorSettings(settings: Record<string, unknown>, path: string, errors: string[]): void {
+  for (const [key, value] of Object.entries(settings)) {
+    if (!(key in DEFAULT_BREAK_DETECTOR_CONFIG)) {
+      errors.push(`${path}.${key}: unknown setting`);
+      continue;
+    }
+    const setting = key as keyof BreakDetectorConfig;
+    const expected = typeof DEFAULT_BREAK_DETECTOR_CONFIG[setting];
+    if (typeof value !== expected || (expected === "number" && !Number.isFinite(value))) {
+      errors.push(`${path}.${key}: expected a ${expected}`);
+      continue;
+    }
+    const allowed = ALLOWED_VALUES[setting];
+    if (allowed && !allowed.includes(value as string)) {
+      errors.push(`${path}.${key}: expected one of ${allowed.join(", ")}`);
+    } else if (typeof value === "number" && OPEN_UNIT_INTERVAL_SETTINGS.has(key) && !(value > 0 && value < 1)) {
+      errors.push(`${path}.${key}: expected a value in (0, 1)`);
+    } else if (typeof value === "number" && value < 0) {
+      errors.push(`${path}.${key}: must not be negative`);
+    }
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,226 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { loadConfigFile, mergeCauseAnalyzerSettings } from "../ConfigFileLoader";
+
+describe("ConfigFileLoader", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fg-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(content: unknown): string {
+    const filePath = path.join(tmpDir, "config.json");
+    fs.writeFileSync(filePath, typeof content === "string" ? content : JSON.stringify(content), "utf-8");
+    return filePath;
+  }
+
+  it("should load global, per-funnel and per-transition detector settings", () => {
+    const config = {
+      breakDetector: {
+        minRelativeDrop: 0.15,
+        funnels: {
+          brand: { minRelativeDrop: 0.05 },
+          longtail: {
+            minRelativeDrop: 0.3,
+            baselineWindowDays: 28,
+            transitions: { "lead->purchase": { minZScore: 2 } },
+          },
+        },
+        transitions: { "impression->click": { seasonality: "day-of-week" } },
+      },
+      volumeDetector: { transitions: { click: { detectIncreases: true } } },
+    };
+
+    expect(loadConfigFile(writeConfig(config))).toEqual(config);
+  });
+
+  it("should report every invalid setting with its path", () => {
+    const filePath = writeConfig({
+      breakDetector: {
+        minRelativeDrop: "0.05",
+        funnels: {
+          brand: { minRelativDrop: 0.05, transitions: { "click->landing": { detector: "bayes" } } },
+          broken: 3,
+        },
+      },
+      causes: {},
+    });
+
+    expect(() => loadConfigFile(filePath)).toThrow(
+      /causes: unknown section[\s\S]*breakDetector\.minRelativeDrop: expected a number[\s\S]*breakDetector\.funnels\.brand\.minRelativDrop: unknown setting[\s\S]*breakDetector\.funnels\.brand\.transitions\.click->landing\.detector: expected one of window, cusum[\s\S]*breakDetector\.funnels\.broken: expected an object/
+    );
+  });
+
+  it("should reject negative thresholds", () => {
+    expect(() => loadConfigFile(writeConfig({ breakDetector: { baselineWindowDays: -1 } }))).toThrow(
+      "breakDetector.baselineWindowDays: must not be negative"
+    );
+  });
+
+  it("should require p-value and confidence thresholds strictly between 0 and 1", () => {
+    const filePath = writeConfig({
+      breakDetector: { maxPValue: 0, funnels: { brand: { confidenceLevel: 1 } } },
+      volumeDetector: { transitions: { click: { confidenceLevel: 95 } } },
+    });
+
+    expect(() => loadConfigFile(filePath)).toThrow(
+      /breakDetector\.maxPValue: expected a value in \(0, 1\)[\s\S]*breakDetector\.funnels\.brand\.confidenceLevel: expected a value in \(0, 1\)[\s\S]*volumeDetector\.transitions\.click\.confidenceLevel: expected a value in \(0, 1\)/
+    );
+    expect(loadConfigFile(writeConfig({ breakDetector: { maxPValue: 0.01, confidenceLevel: 0.99 } }))).toEqual({
+      breakDetector: { maxPValue: 0.01, confidenceLevel: 0.99 },
+    });
+  });
+
+  it("should load YAML files", () => {
+    const filePath = path.join(tmpDir, "config.yaml");
+    fs.writeFileSync(filePath, `
+breakDetector:
+  funnels:
+    brand:
+      minRelativeDrop: 0.05
+causeAnalyzer:
+  categoryWeight: 0.35
+  funnels:
+    checkout:
+      customStageRelevance:
+        pricing:
+          landing->lead: 0.05
+`, "utf-8");
+
+    expect(loadConfigFile(filePath)).toEqual({
+      breakDetector: { funnels: { brand: { minRelativeDrop: 0.05 } } },
+      causeAnalyzer: {
+        categoryWeight: 0.35,
+        funnels: { checkout: { customStageRelevance: { pricing: { "landing->lead": 0.05 } } } },
+      },
+    });
+  });
+
+  it("should validate cause analyzer weights and relevance scores", () => {
+    const filePath = writeConfig({
+      causeAnalyzer: {
+        temporalWeight: -0.1,
+        fallbackRelevance: 2,
+        recencyWeight: 0.2,
+        temporalAnchor: "peak",
+        funnels: {
+          checkout: { customStageRelevance: { pricing: { "landing->lead": 1.5 }, promo: {} } },
+        },
+      },
+    });
+
+    expect(() => loadConfigFile(filePath)).toThrow(
+      /causeAnalyzer\.temporalWeight: expected a non-negative number[\s\S]*causeAnalyzer\.fallbackRelevance: expected a value in \[0, 1\][\s\S]*causeAnalyzer\.recencyWeight: unknown setting[\s\S]*causeAnalyzer\.temporalAnchor: expected one of detected, onset[\s\S]*causeAnalyzer\.funnels\.checkout\.customStageRelevance\.pricing\.landing->lead: expected a value in \[0, 1\][\s\S]*customStageRelevance\.promo: unknown category/
+    );
+  });
+
+  it("should load and validate custom categories", () => {
+    const valid = {
+      causeAnalyzer: {
+        categories: { email: { volumeRelevance: 0.8 }, "email/promo": { description: "Promotions" }, "site/checkout": { stageRelevance: { "lead->purchase": 0.95 } } },
+        customStageRelevance: { email: { "click->landing": 0.6 } },
+      },
+    };
+    expect(loadConfigFile(writeConfig(valid))).toEqual(valid);
+
+    const filePath = writeConfig({
+      causeAnalyzer: {
+        categories: { "Site/Checkout": {}, "promo/spring": {}, "ad/video": { stageRelevance: { "impression->click": 2 }, weight: 1 } },
+        funnels: { checkout: { categories: {} } },
+      },
+    });
+    expect(() => loadConfigFile(filePath)).toThrow(
+      /causeAnalyzer\.categories\.Site\/Checkout: invalid category id[\s\S]*causeAnalyzer\.categories\.promo\/spring: unknown parent category promo[\s\S]*causeAnalyzer\.categories\.ad\/video\.weight: unknown setting[\s\S]*ad\/video\.stageRelevance\.impression->click: expected a value in \[0, 1\][\s\S]*causeAnalyzer\.funnels\.checkout\.categories: categories can only be declared globally/
+    );
+  });
+
+  it("should load and validate stage values for impact", () => {
+    const valid = { impact: { stageValues: { purchase: 80 }, funnels: { leadgen: { stageValues: { lead: 12 } } } } };
+    expect(loadConfigFile(writeConfig(valid))).toEqual(valid);
+
+    const filePath = writeConfig({
+      impact: { stageValues: { purchase: -5 }, currency: "EUR", funnels: { leadgen: { stageValues: [] } } },
+    });
+    expect(() => loadConfigFile(filePath)).toThrow(
+      /impact\.currency: unknown setting[\s\S]*impact\.stageValues\.purchase: expected a non-negative number[\s\S]*impact\.funnels\.leadgen\.stageValues: expected an object keyed by stage/
+    );
+  });
+
+  it("should load and validate deploy path rules", () => {
+    const valid = {
+      causeAnalyzer: { categories: { "site/checkout": {} } },
+      deploys: {
+        releases: "merges",
+        ignorePaths: ["docs/**"],
+        rules: [{ paths: ["src/checkout/**"], stages: ["lead", "purchase"], category: "site/checkout", minSeverity: 3 }],
+      },
+    };
+    expect(loadConfigFile(writeConfig(valid))).toEqual(valid);
+
+    const filePath = writeConfig({
+      deploys: {
+        releases: "deploys",
+        repoPath: "/srv/site",
+        rules: [{ paths: [], category: "site/checkout", minSeverity: 7 }, { paths: ["src/**"], owner: "web" }],
+      },
+    });
+    expect(() => loadConfigFile(filePath)).toThrow(
+      /deploys\.releases: expected one of tags, merges, commits[\s\S]*deploys\.repoPath: unknown setting[\s\S]*deploys\.rules\.0\.paths: expected a non-empty list of path globs[\s\S]*deploys\.rules\.0\.category: unknown category site\/checkout[\s\S]*deploys\.rules\.0\.minSeverity: expected an integer from 1 to 5[\s\S]*deploys\.rules\.1\.owner: unknown setting/
+    );
+  });
+
+  it("should merge learned cause analyzer settings into a file that loads again", () => {
+    const filePath = path.join(tmpDir, "config.yaml");
+    fs.writeFileSync(filePath, `
+breakDetector:
+  minRelativeDrop: 0.2
+causeAnalyzer:
+  categories:
+    site/checkout: {}
+  customStageRelevance:
+    site/checkout:
+      lead->purchase: 0.9
+`, "utf-8");
+
+    const skipped = mergeCauseAnalyzerSettings(filePath, {
+      temporalWeight: 0.5,
+      customStageRelevance: {
+        "site/checkout": { "landing->lead": 0.4 },
+        pricing: { "landing->lead": 0.7 },
+        "email/promo": { "click->landing": 0.8 },
+      },
+    });
+
+    expect(skipped).toEqual(["email/promo"]);
+    expect(loadConfigFile(filePath)).toEqual({
+      breakDetector: { minRelativeDrop: 0.2 },
+      causeAnalyzer: {
+        categories: { "site/checkout": {} },
+        temporalWeight: 0.5,
+        customStageRelevance: {
+          "site/checkout": { "lead->purchase": 0.9, "landing->lead": 0.4 },
+          pricing: { "landing->lead": 0.7 },
+        },
+      },
+    });
+  });
+
+  it("should create the file when merging into a missing one", () => {
+    const filePath = path.join(tmpDir, "learned.json");
+
+    const skipped = mergeCauseAnalyzerSettings(filePath, { customStageRelevance: { "site/checkout": { "lead->purchase": 0.9 } } });
+
+    expect(skipped).toEqual(["site/checkout"]);
+    expect(loadConfigFile(filePath)).toEqual({ causeAnalyzer: { customStageRelevance: {} } });
+  });
+
+  it("should reject malformed JSON", () => {
+    expect(() => loadConfigFile(writeConfig("{ breakDetector: "))).toThrow(/Invalid config file/);
+  });
+});
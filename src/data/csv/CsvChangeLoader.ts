@@ -1,6 +1,6 @@
 import fs from "fs";
 import { parse } from "csv-parse/sync";
-import { Change, ChangeCategory } from "../../core/entities";
+import { CategoryTaxonomy, Change, isKnownCategory } from "../../core/entities";
 
 export interface LoaderError {
   line: number;
@@ -12,9 +12,13 @@ export interface ChangeLoaderResult {
   errors: LoaderError[];
 }
 
-const VALID_CATEGORIES = new Set(Object.values(ChangeCategory));
-
-export function loadChangesFromCsv(filePath: string): ChangeLoaderResult {
+/**
+ * Required columns: date, funnel_id, category, description, severity. Optional: id,
+ * affected_stages (";"-separated), end_date, rollout_percent (e.g. 5 or 5%) and reverts,
+ * the id of the change a row undoes, which must appear in the same file. Categories are
+ * built-in or declared in `categories`, e.g. "site/checkout".
+ */
+export function loadChangesFromCsv(filePath: string, categories: CategoryTaxonomy = {}): ChangeLoaderResult {
   const content = fs.readFileSync(filePath, "utf-8");
   const records = parse(content, {
     columns: true,
@@ -24,6 +28,8 @@ export function loadChangesFromCsv(filePath: string): ChangeLoaderResult {
 
   const changes: Change[] = [];
   const errors: LoaderError[] = [];
+  const lineById = new Map<string, number>();
+  const reverts: { line: number; change: Change }[] = [];
 
   for (let i = 0; i < records.length; i++) {
     const row = records[i];
@@ -39,8 +45,8 @@ export function loadChangesFromCsv(filePath: string): ChangeLoaderResult {
       continue;
     }
 
-    const category = row.category.toLowerCase() as ChangeCategory;
-    if (!VALID_CATEGORIES.has(category)) {
+    const category = row.category.toLowerCase();
+    if (!isKnownCategory(category, categories)) {
       errors.push({ line: lineNum, message: `Invalid category: ${row.category}` });
       continue;
     }
@@ -51,18 +57,49 @@ export function loadChangesFromCsv(filePath: string): ChangeLoaderResult {
       continue;
     }
 
+    if (row.end_date && (!/^\d{4}-\d{2}-\d{2}$/.test(row.end_date) || row.end_date < row.date)) {
+      errors.push({ line: lineNum, message: `Invalid end_date (must be YYYY-MM-DD, not before date): ${row.end_date}` });
+      continue;
+    }
+
+    const rolloutPercent = row.rollout_percent ? Number(row.rollout_percent.replace(/%$/, "")) : undefined;
+    if (rolloutPercent !== undefined && !(rolloutPercent > 0 && rolloutPercent <= 100)) {
+      errors.push({ line: lineNum, message: `Invalid rollout_percent (must be above 0, at most 100): ${row.rollout_percent}` });
+      continue;
+    }
+
+    if (row.id && lineById.has(row.id)) {
+      errors.push({ line: lineNum, message: `Duplicate id ${row.id} (first used on line ${lineById.get(row.id)})` });
+      continue;
+    }
+
     const affectedStages = row.affected_stages
       ? row.affected_stages.split(";").map((s) => s.trim()).filter(Boolean)
       : undefined;
 
-    changes.push({
+    const change: Change = {
+      ...(row.id && { id: row.id }),
       date: row.date,
       funnelId: row.funnel_id,
       category,
       description: row.description,
       severity,
       affectedStages,
-    });
+      ...(row.end_date && { endDate: row.end_date }),
+      ...(rolloutPercent !== undefined && { rolloutPercent }),
+      ...(row.reverts && { revertsChangeId: row.reverts }),
+    };
+    if (row.id) lineById.set(row.id, lineNum);
+    if (change.revertsChangeId) reverts.push({ line: lineNum, change });
+    changes.push(change);
+  }
+
+  // A revert may come before the change it undoes, so links are checked once all ids are known
+  for (const { line, change } of reverts) {
+    if (change.revertsChangeId === change.id || !lineById.has(change.revertsChangeId!)) {
+      errors.push({ line, message: `reverts names an unknown change id: ${change.revertsChangeId}` });
+      changes.splice(changes.indexOf(change), 1);
+    }
   }
 
   return { changes, errors };
@@ -1,6 +1,6 @@
 import fs from "fs";
 import { parse } from "csv-parse/sync";
-import { Event, FunnelStage } from "../../core/entities";
+import { Event, FunnelDefinition, resolveStageOrder } from "../../core/entities";
 
 export interface LoaderError {
   line: number;
@@ -12,9 +12,10 @@ export interface EventLoaderResult {
   errors: LoaderError[];
 }
 
-const VALID_STAGES = new Set(Object.values(FunnelStage));
-
-export function loadEventsFromCsv(filePath: string): EventLoaderResult {
+export function loadEventsFromCsv(
+  filePath: string,
+  definitions: FunnelDefinition[] = []
+): EventLoaderResult {
   const content = fs.readFileSync(filePath, "utf-8");
   const records = parse(content, {
     columns: true,
@@ -39,9 +40,9 @@ export function loadEventsFromCsv(filePath: string): EventLoaderResult {
       continue;
     }
 
-    const stage = row.stage.toLowerCase() as FunnelStage;
-    if (!VALID_STAGES.has(stage)) {
-      errors.push({ line: lineNum, message: `Invalid stage: ${row.stage}` });
+    const stage = row.stage.toLowerCase();
+    if (!resolveStageOrder(row.funnel_id, definitions).includes(stage)) {
+      errors.push({ line: lineNum, message: `Invalid stage for funnel ${row.funnel_id}: ${row.stage}` });
       continue;
     }
 
@@ -0,0 +1,57 @@
+import fs from "fs";
+import { parse } from "csv-parse/sync";
+import { FunnelDefinition } from "../../core/entities";
+
+export interface LoaderError {
+  line: number;
+  message: string;
+}
+
+export interface FunnelLoaderResult {
+  definitions: FunnelDefinition[];
+  errors: LoaderError[];
+}
+
+export function loadFunnelDefinitionsFromCsv(filePath: string): FunnelLoaderResult {
+  const content = fs.readFileSync(filePath, "utf-8");
+  const records = parse(content, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+  }) as Record<string, string>[];
+
+  const definitions: FunnelDefinition[] = [];
+  const errors: LoaderError[] = [];
+  const seenFunnels = new Set<string>();
+
+  for (let i = 0; i < records.length; i++) {
+    const row = records[i];
+    const lineNum = i + 2;
+
+    if (!row.funnel_id || !row.stages) {
+      errors.push({ line: lineNum, message: "Missing required field(s)" });
+      continue;
+    }
+
+    if (seenFunnels.has(row.funnel_id)) {
+      errors.push({ line: lineNum, message: `Duplicate funnel definition: ${row.funnel_id}` });
+      continue;
+    }
+
+    const stages = row.stages.split(";").map((s) => s.trim().toLowerCase()).filter(Boolean);
+    if (stages.length < 2) {
+      errors.push({ line: lineNum, message: `Funnel must define at least 2 stages: ${row.stages}` });
+      continue;
+    }
+
+    if (new Set(stages).size !== stages.length) {
+      errors.push({ line: lineNum, message: `Duplicate stage in funnel definition: ${row.stages}` });
+      continue;
+    }
+
+    seenFunnels.add(row.funnel_id);
+    definitions.push({ funnelId: row.funnel_id, stages });
+  }
+
+  return { definitions, errors };
+}
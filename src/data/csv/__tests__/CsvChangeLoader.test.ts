@@ -100,4 +100,69 @@ Jan 10 2025,camp-a,site,Change,3,`
     expect(result.errors).toHaveLength(1);
     expect(result.errors[0].message).toContain("Invalid date");
   });
+
+  it("should parse end dates, rollout percentages and revert links", () => {
+    const filePath = writeCsv(
+      "changes.csv",
+      `id,date,funnel_id,category,description,severity,affected_stages,end_date,rollout_percent,reverts
+deploy-1,2025-01-10,camp-a,site,New checkout,4,lead;purchase,,5%,
+deploy-2,2025-01-12,camp-a,site,Revert new checkout,3,,,,deploy-1
+camp-1,2025-01-01,camp-a,ad,Winter campaign,3,impression,2025-01-31,,`
+    );
+
+    const result = loadChangesFromCsv(filePath);
+    expect(result.errors).toHaveLength(0);
+    expect(result.changes[0]).toMatchObject({ id: "deploy-1", rolloutPercent: 5 });
+    expect(result.changes[0].endDate).toBeUndefined();
+    expect(result.changes[1].revertsChangeId).toBe("deploy-1");
+    expect(result.changes[2]).toMatchObject({ id: "camp-1", endDate: "2025-01-31" });
+    expect(result.changes[2].rolloutPercent).toBeUndefined();
+  });
+
+  it("should report invalid end dates and rollout percentages", () => {
+    const filePath = writeCsv(
+      "changes.csv",
+      `date,funnel_id,category,description,severity,end_date,rollout_percent
+2025-01-10,camp-a,site,Ends before it starts,3,2025-01-09,
+2025-01-10,camp-a,site,No rollout,3,,0
+2025-01-10,camp-a,site,Over-rolled,3,,150`
+    );
+
+    const result = loadChangesFromCsv(filePath);
+    expect(result.changes).toHaveLength(0);
+    expect(result.errors.map((e) => e.line)).toEqual([2, 3, 4]);
+    expect(result.errors[0].message).toContain("Invalid end_date");
+    expect(result.errors[1].message).toContain("Invalid rollout_percent");
+  });
+
+  it("should report reverts of unknown changes and duplicate ids", () => {
+    const filePath = writeCsv(
+      "changes.csv",
+      `id,date,funnel_id,category,description,severity,reverts
+a,2025-01-10,camp-a,site,Change,3,
+a,2025-01-11,camp-a,site,Same id,3,
+b,2025-01-12,camp-a,site,Revert of nothing,3,missing`
+    );
+
+    const result = loadChangesFromCsv(filePath);
+    expect(result.changes.map((c) => c.id)).toEqual(["a"]);
+    expect(result.errors).toEqual([
+      { line: 3, message: "Duplicate id a (first used on line 2)" },
+      { line: 4, message: "reverts names an unknown change id: missing" },
+    ]);
+  });
+
+  it("should accept categories and subcategories declared in the taxonomy", () => {
+    const filePath = writeCsv(
+      "changes.csv",
+      `date,funnel_id,category,description,severity
+2025-01-10,camp-a,Site/Checkout,New payment form,4
+2025-01-11,camp-a,email,Newsletter sent,2
+2025-01-12,camp-a,site/cart,Cart redesign,3`
+    );
+
+    const result = loadChangesFromCsv(filePath, { "site/checkout": {}, email: { description: "Email campaigns" } });
+    expect(result.changes.map((c) => c.category)).toEqual(["site/checkout", "email"]);
+    expect(result.errors).toEqual([{ line: 4, message: "Invalid category: site/cart" }]);
+  });
 });
@@ -80,6 +80,23 @@ describe("CsvEventLoader", () => {
     expect(result.errors[0].message).toContain("Invalid stage");
   });
 
+  it("should validate stages against the funnel's custom definition", () => {
+    const filePath = writeCsv(
+      "events.csv",
+      `date,funnel_id,stage,count,source
+2025-01-01,saas,visit,5000,ga4
+2025-01-01,saas,click,1200,ga4
+2025-01-01,camp-a,click,1200,meta`
+    );
+
+    const result = loadEventsFromCsv(filePath, [
+      { funnelId: "saas", stages: ["visit", "signup", "paid"] },
+    ]);
+    expect(result.events.map((e) => `${e.funnelId}:${e.stage}`)).toEqual(["saas:visit", "camp-a:click"]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message).toContain("Invalid stage");
+  });
+
   it("should report error for negative count", () => {
     const filePath = writeCsv(
       "events.csv",
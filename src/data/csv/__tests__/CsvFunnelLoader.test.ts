@@ -0,0 +1,69 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { loadFunnelDefinitionsFromCsv } from "../CsvFunnelLoader";
+
+describe("CsvFunnelLoader", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fg-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeCsv(filename: string, content: string): string {
+    const filePath = path.join(tmpDir, filename);
+    fs.writeFileSync(filePath, content, "utf-8");
+    return filePath;
+  }
+
+  it("should parse funnel definitions into ordered stage lists", () => {
+    const filePath = writeCsv(
+      "funnels.csv",
+      `funnel_id,stages
+saas,visit;signup;activation;trial;paid
+app,Install;Open;Register;Subscribe`
+    );
+
+    const result = loadFunnelDefinitionsFromCsv(filePath);
+    expect(result.errors).toHaveLength(0);
+    expect(result.definitions).toEqual([
+      { funnelId: "saas", stages: ["visit", "signup", "activation", "trial", "paid"] },
+      { funnelId: "app", stages: ["install", "open", "register", "subscribe"] },
+    ]);
+  });
+
+  it("should reject definitions with fewer than 2 stages", () => {
+    const filePath = writeCsv("funnels.csv", `funnel_id,stages\nsaas,visit`);
+
+    const result = loadFunnelDefinitionsFromCsv(filePath);
+    expect(result.definitions).toHaveLength(0);
+    expect(result.errors[0].message).toContain("at least 2 stages");
+  });
+
+  it("should reject duplicate stages and duplicate funnels", () => {
+    const filePath = writeCsv(
+      "funnels.csv",
+      `funnel_id,stages
+saas,visit;signup;visit
+app,install;open
+app,install;register`
+    );
+
+    const result = loadFunnelDefinitionsFromCsv(filePath);
+    expect(result.definitions).toEqual([{ funnelId: "app", stages: ["install", "open"] }]);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toEqual({ line: 2, message: "Duplicate stage in funnel definition: visit;signup;visit" });
+    expect(result.errors[1].message).toContain("Duplicate funnel definition");
+  });
+
+  it("should report missing fields", () => {
+    const filePath = writeCsv("funnels.csv", `funnel_id,stages\nsaas,`);
+
+    const result = loadFunnelDefinitionsFromCsv(filePath);
+    expect(result.errors[0].message).toBe("Missing required field(s)");
+  });
+});
@@ -0,0 +1,258 @@
+import { execFile } from "child_process";
+import { Change, ChangeCategory } from "../../core/entities/Change";
+import { WILDCARD_FUNNEL_ID } from "../../core/entities/Funnel";
+import { ChangeLoader } from "../api/DataLoader";
+
+/** What counts as a release: tags, merge commits on the branch, or every commit on it. */
+export type ReleaseMode = "tags" | "merges" | "commits";
+
+export interface GitPathRule {
+  /** Globs over repo-relative paths: "*" stays within a directory, "**" spans any number. */
+  paths: string[];
+  /** Funnel the matched files belong to; "*" by default. */
+  funnelId?: string;
+  stages?: string[];
+  category?: string;
+  /** Floor on the severity of releases touching these paths, e.g. 3 for checkout code. */
+  minSeverity?: number;
+}
+
+export interface GitChangeLoaderConfig {
+  repoPath: string;
+  since?: string;
+  until?: string;
+  releases?: ReleaseMode;
+  /** Tags to treat as releases, as a git glob, e.g. "v*". */
+  tagPattern?: string;
+  /** Branch whose first-parent history holds merges and commits. */
+  branch?: string;
+  /** Category of releases, unless the rule covering most changed lines sets one. */
+  category?: string;
+  /** Funnel of changed files no rule matches. */
+  defaultFunnelId?: string;
+  /** Files left out entirely, e.g. "docs/**" or "**\/*.md". */
+  ignorePaths?: string[];
+  /** First matching rule wins for each file. */
+  rules?: GitPathRule[];
+}
+
+export const DEFAULT_GIT_CHANGE_LOADER_CONFIG = {
+  releases: "tags" as ReleaseMode,
+  tagPattern: "*",
+  branch: "HEAD",
+  category: ChangeCategory.SITE as string,
+  defaultFunnelId: WILDCARD_FUNNEL_ID,
+  ignorePaths: [] as string[],
+  rules: [] as GitPathRule[],
+};
+
+type ResolvedConfig = GitChangeLoaderConfig & typeof DEFAULT_GIT_CHANGE_LOADER_CONFIG;
+
+/** Runs git in a repository and returns its stdout. */
+export type GitRunner = (repoPath: string, args: string[]) => Promise<string>;
+
+/** Lines added plus deleted at or above which each severity applies, highest first. */
+const DIFF_SEVERITY_STEPS: [number, number][] = [[1500, 5], [500, 4], [200, 3], [50, 2]];
+
+/** `git hash-object -t tree /dev/null`, the base of a root commit's diff. */
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+const REVERT_MESSAGE = /This reverts commit ([0-9a-f]{7,40})/g;
+
+interface Release {
+  sha: string;
+  /** Commit the release is diffed against; the empty tree for the first one. */
+  base: string;
+  date: string;
+  label: string;
+  commits: { sha: string; message: string }[];
+}
+
+interface FileDiff {
+  path: string;
+  lines: number;
+  rule?: GitPathRule;
+}
+
+const runGit: GitRunner = (repoPath, args) =>
+  new Promise((resolve, reject) => {
+    execFile("git", ["-C", repoPath, ...args], { maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+      if (err) reject(new Error(`git ${args[0]} failed: ${stderr.trim() || err.message}`));
+      else resolve(stdout);
+    });
+  });
+
+/**
+ * SITE changes from a repository's deploy history: one change per release and funnel its
+ * files map to, with the funnel's stages and a severity from the lines it changed, raised
+ * to the floor of the rules it touched. A release containing `git revert`s of an earlier
+ * release's commits, both within since..until, reverts that release's change for the same funnel.
+ */
+export class GitChangeLoader implements ChangeLoader<GitChangeLoaderConfig> {
+  constructor(private readonly git: GitRunner = runGit) {}
+
+  async load(config: GitChangeLoaderConfig): Promise<Change[]> {
+    const cfg: ResolvedConfig = { ...DEFAULT_GIT_CHANGE_LOADER_CONFIG, ...config };
+    const releases = cfg.releases === "tags" ? await this.tagReleases(cfg) : await this.branchReleases(cfg);
+    const ignored = cfg.ignorePaths.map(globToRegExp);
+    const rules = cfg.rules.map((rule) => ({ rule, patterns: rule.paths.map(globToRegExp) }));
+
+    const changesByRelease = new Map<string, Map<string, Change>>();
+    const releaseByCommit = new Map<string, Release>();
+    const changes: Change[] = [];
+    // Reverted releases outside the range have no change to link to, so their commits are never read
+    const inRange = (release: Release) => (!cfg.since || release.date >= cfg.since) && (!cfg.until || release.date <= cfg.until);
+
+    for (const release of releases.filter(inRange)) {
+      release.commits = await this.commitsOf(cfg, release);
+      for (const commit of release.commits) releaseByCommit.set(commit.sha, release);
+
+      const files = (await this.diffOf(cfg, release))
+        .filter((file) => !ignored.some((pattern) => pattern.test(file.path)))
+        .map((file) => ({ ...file, rule: rules.find(({ patterns }) => patterns.some((p) => p.test(file.path)))?.rule }));
+
+      const byFunnel = new Map<string, FileDiff[]>();
+      for (const file of files) {
+        const funnelId = file.rule ? file.rule.funnelId ?? WILDCARD_FUNNEL_ID : cfg.defaultFunnelId;
+        byFunnel.set(funnelId, [...(byFunnel.get(funnelId) ?? []), file]);
+      }
+
+      const releaseChanges = new Map<string, Change>();
+      for (const [funnelId, funnelFiles] of byFunnel) {
+        const change = toChange(release, funnelId, funnelFiles, cfg);
+        releaseChanges.set(funnelId, change);
+        changes.push(change);
+      }
+      changesByRelease.set(release.sha, releaseChanges);
+      linkReverts(release, releaseChanges, releaseByCommit, changesByRelease);
+    }
+
+    return changes.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /** Matching tags oldest first, each diffed against the tag before it. */
+  private async tagReleases(cfg: ResolvedConfig): Promise<Release[]> {
+    const output = await this.git(cfg.repoPath, [
+      "for-each-ref",
+      "--sort=creatordate",
+      "--format=%(refname:short)%00%(creatordate:iso-strict)%00%(objectname)%00%(*objectname)",
+      `refs/tags/${cfg.tagPattern}`,
+    ]);
+    const releases: Release[] = [];
+    for (const line of output.split("\n").filter(Boolean)) {
+      const [tag, date, objectSha, peeledSha] = line.split("\0");
+      const sha = peeledSha || objectSha;
+      const previous = releases[releases.length - 1];
+      releases.push({ sha, base: previous?.sha ?? EMPTY_TREE, date: date.slice(0, 10), label: `Release ${tag}`, commits: [] });
+    }
+    return releases;
+  }
+
+  /** First-parent merges or commits of the branch, each diffed against its first parent. */
+  private async branchReleases(cfg: ResolvedConfig): Promise<Release[]> {
+    const output = await this.git(cfg.repoPath, [
+      "log",
+      "--first-parent",
+      "--reverse",
+      ...(cfg.releases === "merges" ? ["--merges"] : []),
+      ...(cfg.since ? [`--since=${cfg.since}T00:00:00`] : []),
+      ...(cfg.until ? [`--until=${cfg.until}T23:59:59`] : []),
+      "--format=%H%x00%P%x00%cI%x00%s",
+      cfg.branch,
+    ]);
+    return output.split("\n").filter(Boolean).map((line) => {
+      const [sha, parents, date, subject] = line.split("\0");
+      return {
+        sha,
+        base: parents.split(" ")[0] || EMPTY_TREE,
+        date: date.slice(0, 10),
+        label: `Deploy ${sha.slice(0, 7)}: ${subject}`,
+        commits: [],
+      };
+    });
+  }
+
+  private async commitsOf(cfg: ResolvedConfig, release: Release): Promise<Release["commits"]> {
+    const range = release.base === EMPTY_TREE ? release.sha : `${release.base}..${release.sha}`;
+    const output = await this.git(cfg.repoPath, ["log", "--format=%H%x00%B%x1e", range]);
+    return output.split("\x1e").map((record) => record.trim()).filter(Boolean).map((record) => {
+      const [sha, message] = record.split("\0");
+      return { sha, message: message ?? "" };
+    });
+  }
+
+  private async diffOf(cfg: ResolvedConfig, release: Release): Promise<FileDiff[]> {
+    const output = await this.git(cfg.repoPath, ["diff", "--numstat", "--no-renames", release.base, release.sha]);
+    return output.split("\n").filter(Boolean).map((line) => {
+      const [added, deleted, path] = line.split("\t");
+      // Binary files report "-" for both counts.
+      return { path, lines: (Number(added) || 0) + (Number(deleted) || 0) };
+    });
+  }
+}
+
+function toChange(release: Release, funnelId: string, files: FileDiff[], cfg: ResolvedConfig): Change {
+  const lines = files.reduce((sum, file) => sum + file.lines, 0);
+  const sizeSeverity = DIFF_SEVERITY_STEPS.find(([step]) => lines >= step)?.[1] ?? 1;
+  const floor = Math.max(0, ...files.map((file) => file.rule?.minSeverity ?? 0));
+
+  const linesByCategory = new Map<string, number>();
+  for (const file of files) {
+    const category = file.rule?.category ?? cfg.category;
+    linesByCategory.set(category, (linesByCategory.get(category) ?? 0) + file.lines);
+  }
+  const category = [...linesByCategory.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+  const stages = [...new Set(files.flatMap((file) => file.rule?.stages ?? []))];
+  const commits = release.commits.length;
+  const detail = `${commits} commit${commits === 1 ? "" : "s"}, ${lines} lines in ${files.length} file${files.length === 1 ? "" : "s"}`;
+
+  return {
+    id: `git:${release.sha.slice(0, 12)}:${funnelId}`,
+    date: release.date,
+    funnelId,
+    category,
+    description: `${release.label} (${detail})`,
+    severity: Math.min(5, Math.max(sizeSeverity, floor)),
+    ...(stages.length > 0 && { affectedStages: stages }),
+  };
+}
+
+function linkReverts(
+  release: Release,
+  releaseChanges: Map<string, Change>,
+  releaseByCommit: Map<string, Release>,
+  changesByRelease: Map<string, Map<string, Change>>
+): void {
+  for (const { message } of release.commits) {
+    for (const [, revertedSha] of message.matchAll(REVERT_MESSAGE)) {
+      const reverted = [...releaseByCommit.entries()].find(([sha]) => sha.startsWith(revertedSha))?.[1];
+      if (!reverted || reverted === release) continue;
+      for (const [funnelId, change] of releaseChanges) {
+        const revertedChange = changesByRelease.get(reverted.sha)?.get(funnelId);
+        if (revertedChange) change.revertsChangeId = revertedChange.id;
+      }
+    }
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith("**/", i)) {
+      pattern += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      pattern += ".*";
+      i += 1;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
@@ -0,0 +1,195 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { GitChangeLoader, GitChangeLoaderConfig, GitRunner } from "../GitChangeLoader";
+import { analyzeCauses } from "../../../core/engine/CauseAnalyzer";
+import { Break, BreakDirection, BreakSeverity, BreakType, ChangeCategory, TransitionKind } from "../../../core/entities";
+import { findDiagnosis, saveDiagnoses } from "../../../services/FeedbackService";
+import { initializeDatabase } from "../../../storage/Database";
+
+describe("GitChangeLoader", () => {
+  let repoPath: string;
+
+  function git(args: string[], date?: string): string {
+    const env = date ? { ...process.env, GIT_AUTHOR_DATE: `${date}T12:00:00Z`, GIT_COMMITTER_DATE: `${date}T12:00:00Z` } : process.env;
+    return execFileSync("git", ["-C", repoPath, "-c", "user.name=Dev", "-c", "user.email=dev@example.com", ...args], { env }).toString().trim();
+  }
+
+  function commit(date: string, message: string, files: Record<string, number>): string {
+    for (const [file, lines] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(repoPath, file)), { recursive: true });
+      fs.writeFileSync(path.join(repoPath, file), Array.from({ length: lines }, (_, i) => `${message} ${i}\n`).join(""));
+    }
+    git(["add", "-A"]);
+    git(["commit", "-q", "-m", message], date);
+    return git(["rev-parse", "HEAD"]);
+  }
+
+  function tag(date: string, name: string): void {
+    git(["tag", "-a", name, "-m", name], date);
+  }
+
+  const rules: GitChangeLoaderConfig["rules"] = [
+    { paths: ["src/checkout/**"], stages: ["lead", "purchase"], category: "site/checkout", minSeverity: 3 },
+    { paths: ["src/landing/*.html"], funnelId: "spring", stages: ["landing"] },
+  ];
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), "git-changes-"));
+    git(["init", "-q", "-b", "main"]);
+    commit("2025-01-01", "Initial site", { "src/app.ts": 10, "README.md": 5 });
+    tag("2025-01-01", "v1.0.0");
+  });
+
+  afterEach(() => fs.rmSync(repoPath, { recursive: true, force: true }));
+
+  it("should turn tagged releases into one change per funnel with mapped stages and severity", async () => {
+    commit("2025-01-10", "Redesign checkout", { "src/checkout/cart.ts": 120, "src/checkout/pay.ts": 100 });
+    commit("2025-01-11", "New spring landing page", { "src/landing/spring.html": 30, "docs/notes.md": 400 });
+    tag("2025-01-12", "v1.1.0");
+
+    const changes = await new GitChangeLoader().load({
+      repoPath,
+      since: "2025-01-05",
+      tagPattern: "v*",
+      ignorePaths: ["docs/**"],
+      rules,
+    });
+
+    expect(changes.map(({ date, funnelId, category, description, severity, affectedStages }) =>
+      ({ date, funnelId, category, description, severity, affectedStages }))).toEqual([
+      {
+        date: "2025-01-12",
+        funnelId: "*",
+        category: "site/checkout",
+        description: "Release v1.1.0 (2 commits, 220 lines in 2 files)",
+        severity: 3,
+        affectedStages: ["lead", "purchase"],
+      },
+      {
+        date: "2025-01-12",
+        funnelId: "spring",
+        category: ChangeCategory.SITE,
+        description: "Release v1.1.0 (2 commits, 30 lines in 1 file)",
+        severity: 1,
+        affectedStages: ["landing"],
+      },
+    ]);
+  });
+
+  it("should raise severity with the size of the diff and keep unmatched files for the default funnel", async () => {
+    commit("2025-01-10", "Rewrite app", { "src/app.ts": 700 });
+    tag("2025-01-10", "v2.0.0");
+
+    const changes = await new GitChangeLoader().load({ repoPath, since: "2025-01-05", defaultFunnelId: "brand", rules });
+
+    expect(changes).toEqual([expect.objectContaining({ funnelId: "brand", category: ChangeCategory.SITE, severity: 4 })]);
+    expect(changes[0]).not.toHaveProperty("affectedStages");
+  });
+
+  it("should treat merges into the branch as deploys in merges mode", async () => {
+    git(["checkout", "-q", "-b", "checkout-fix"]);
+    commit("2025-01-09", "Fix coupon field", { "src/checkout/coupon.ts": 20 });
+    git(["checkout", "-q", "main"]);
+    commit("2025-01-09", "Tweak app", { "src/app.ts": 12 });
+    git(["merge", "-q", "--no-ff", "-m", "Merge branch 'checkout-fix'", "checkout-fix"], "2025-01-10");
+
+    const changes = await new GitChangeLoader().load({ repoPath, releases: "merges", rules });
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      date: "2025-01-10",
+      funnelId: "*",
+      category: "site/checkout",
+      severity: 3,
+      affectedStages: ["lead", "purchase"],
+    });
+    expect(changes[0].description).toMatch(/^Deploy [0-9a-f]{7}: Merge branch 'checkout-fix' \(2 commits, 20 lines in 1 file\)$/);
+  });
+
+  it("should link a deploy reverting an earlier one's commits to its change", async () => {
+    const broken = commit("2025-01-10", "Move pay button", { "src/checkout/pay.ts": 40 });
+    git(["revert", "--no-edit", broken], "2025-01-12");
+
+    const changes = await new GitChangeLoader().load({ repoPath, since: "2025-01-05", releases: "commits", rules });
+
+    expect(changes).toHaveLength(2);
+    expect(changes[1].revertsChangeId).toBe(changes[0].id);
+    expect(changes[0].id).toBe(`git:${broken.slice(0, 12)}:*`);
+  });
+
+  it("should produce changes whose diagnoses can be stored", async () => {
+    const broken = commit("2025-01-10", "Move pay button", { "src/checkout/pay.ts": 40 });
+    git(["revert", "--no-edit", broken], "2025-01-12");
+    const changes = await new GitChangeLoader().load({ repoPath, since: "2025-01-05", releases: "commits", rules });
+    const drop: Break = {
+      breakType: BreakType.CONVERSION,
+      funnelId: "checkout",
+      fromStage: "lead",
+      toStage: "purchase",
+      transitionKind: TransitionKind.ADJACENT,
+      direction: BreakDirection.DROP,
+      detectedDate: "2025-01-11",
+      onsetDate: "2025-01-10",
+      lastSeenDate: "2025-01-11",
+      durationDays: 2,
+      active: false,
+      recoveryDate: "2025-01-12",
+      baselineRate: 0.3,
+      expectedRate: 0.3,
+      currentRate: 0.15,
+      absoluteDrop: 0.15,
+      relativeDrop: 0.5,
+      zScore: 5,
+      severity: BreakSeverity.CRITICAL,
+    };
+
+    const db = initializeDatabase(":memory:");
+    try {
+      const [saved] = saveDiagnoses(db, analyzeCauses([drop], changes));
+
+      expect(saved.causes.map((c) => c.changeId)).toContain(changes[0].id);
+      expect(findDiagnosis(db, saved.id!)!.causes.map((c) => c.changeId)).toEqual(saved.causes.map((c) => c.changeId));
+    } finally {
+      db.close();
+    }
+  });
+
+  it("should leave out releases after the until date", async () => {
+    commit("2025-01-10", "Checkout copy", { "src/checkout/cart.ts": 5 });
+    tag("2025-01-10", "v1.0.1");
+    commit("2025-02-10", "Checkout copy again", { "src/checkout/cart.ts": 6 });
+    tag("2025-02-10", "v1.0.2");
+
+    const changes = await new GitChangeLoader().load({ repoPath, since: "2025-01-05", until: "2025-01-31", rules });
+
+    expect(changes.map((c) => c.description)).toEqual(["Release v1.0.1 (1 commit, 5 lines in 1 file)"]);
+  });
+
+  it("should only read the history of releases in the date range", async () => {
+    commit("2025-01-10", "Checkout copy", { "src/checkout/cart.ts": 5 });
+    tag("2025-01-10", "v1.0.1");
+    commit("2025-02-10", "Checkout copy again", { "src/checkout/cart.ts": 6 });
+    tag("2025-02-10", "v1.0.2");
+    const calls: string[][] = [];
+    const runner: GitRunner = async (repo, args) => {
+      calls.push(args);
+      return execFileSync("git", ["-C", repo, ...args]).toString();
+    };
+
+    const tagged = await new GitChangeLoader(runner).load({ repoPath, since: "2025-01-05", until: "2025-01-31", rules });
+    const branch = await new GitChangeLoader(runner).load({ repoPath, releases: "commits", until: "2025-01-31", rules });
+
+    expect(tagged.map((c) => c.description)).toEqual(["Release v1.0.1 (1 commit, 5 lines in 1 file)"]);
+    expect(branch.map((c) => c.date)).toEqual(["2025-01-01", "2025-01-10"]);
+    const logs = calls.filter(([command]) => command === "log");
+    // Commits read for v1.0.1 only, then for the two branch commits up to until
+    expect(logs.filter((args) => !args.includes("--first-parent"))).toHaveLength(3);
+    expect(logs.find((args) => args.includes("--first-parent"))).toContain("--until=2025-01-31T23:59:59");
+  });
+
+  it("should report git failures with git's own message", async () => {
+    await expect(new GitChangeLoader().load({ repoPath: path.join(repoPath, "missing") })).rejects.toThrow(/^git for-each-ref failed: /);
+  });
+});
@@ -0,0 +1,115 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { createApiHandler } from "../server";
+import { initializeDatabase } from "../../../storage/Database";
+import { saveDiagnoses } from "../../../services/FeedbackService";
+import {
+  BreakDirection,
+  BreakSeverity,
+  BreakType,
+  ChangeCategory,
+  Diagnosis,
+  DiagnosisStatus,
+  FeedbackVerdict,
+  LabeledCause,
+  TransitionKind,
+} from "../../../core/entities";
+import type Database from "better-sqlite3";
+
+describe("API server", () => {
+  let db: Database.Database;
+  let server: http.Server;
+  let baseUrl: string;
+  let diagnosisId: string;
+
+  beforeEach(async () => {
+    db = initializeDatabase(":memory:");
+    [{ id: diagnosisId }] = saveDiagnoses(db, [{
+      generatedAt: "2025-01-15T00:00:00.000Z",
+      break: {
+        breakType: BreakType.CONVERSION,
+        funnelId: "f",
+        fromStage: "click",
+        toStage: "landing",
+        transitionKind: TransitionKind.ADJACENT,
+        direction: BreakDirection.DROP,
+        detectedDate: "2025-01-12",
+        onsetDate: "2025-01-10",
+        lastSeenDate: "2025-01-14",
+        durationDays: 5,
+        active: true,
+        baselineRate: 0.8,
+        expectedRate: 0.8,
+        currentRate: 0.5,
+        absoluteDrop: 0.3,
+        relativeDrop: 0.375,
+        zScore: 6.2,
+        severity: BreakSeverity.CRITICAL,
+      },
+      causes: [{
+        changeId: "",
+        changeDescription: "New landing page",
+        changeCategory: ChangeCategory.SITE,
+        changeDate: "2025-01-09",
+        changeSeverity: 4,
+        confidence: 0.8,
+        scoreBreakdown: { temporalScore: 0.6, categoryRelevanceScore: 0.9, severityScore: 0.75, stageMatchBonus: 0, wildcardBoost: 0 },
+      }],
+      diagnosisStatus: DiagnosisStatus.IDENTIFIED,
+      summary: "Landing page redesign",
+    }]) as { id: string }[];
+
+    server = http.createServer(createApiHandler(db));
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    db.close();
+  });
+
+  function postFeedback(rank: number, body: unknown): Promise<Response> {
+    return fetch(`${baseUrl}/diagnoses/${diagnosisId}/causes/${rank}/feedback`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("should confirm a cause and serve it with the diagnosis and the export", async () => {
+    const res = await postFeedback(1, { verdict: "confirmed", note: "Rolled back" });
+    expect(res.status).toBe(201);
+
+    const diagnosis = await (await fetch(`${baseUrl}/diagnoses/${diagnosisId}`)).json() as Diagnosis;
+    expect(diagnosis.causes[0].feedback).toMatchObject({ verdict: FeedbackVerdict.CONFIRMED, note: "Rolled back" });
+
+    const labels = await (await fetch(`${baseUrl}/feedback/export`)).json() as LabeledCause[];
+    expect(labels).toHaveLength(1);
+    expect(labels[0].label).toBe(1);
+  });
+
+  it("should reject invalid feedback and unknown causes", async () => {
+    expect((await postFeedback(1, { verdict: "maybe" })).status).toBe(400);
+    expect((await postFeedback(2, { verdict: "rejected" })).status).toBe(404);
+    expect((await fetch(`${baseUrl}/diagnoses/999`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+  });
+
+  it("should answer 500 when storage fails and keep serving", async () => {
+    db.exec("DROP TABLE cause_feedback");
+
+    const res = await fetch(`${baseUrl}/diagnoses/${diagnosisId}`);
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: expect.stringMatching(/^Internal error: .*cause_feedback/) });
+    expect((await postFeedback(1, { verdict: "confirmed" })).status).toBe(500);
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+  });
+
+  it("should refuse request bodies over the size limit", async () => {
+    const res = await postFeedback(1, { verdict: "confirmed", note: "x".repeat(100_000) });
+
+    expect(res.status).toBe(413);
+    expect((await postFeedback(1, { verdict: "confirmed" })).status).toBe(201);
+  });
+});
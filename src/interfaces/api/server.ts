@@ -1,10 +1,119 @@
-// Stub for future REST API server
-// Will use Express.js to expose:
-//   POST /events    - Ingest funnel events
-//   POST /changes   - Register changes
-//   GET  /diagnose  - Run diagnosis and return results
-//   GET  /health    - Health check
-
-export function startServer(_port: number): void {
-  throw new Error("API server is not yet implemented. This is a stub for future integration.");
+import http from "http";
+import Database from "better-sqlite3";
+import { initializeDatabase } from "../../storage/Database";
+import { exportLabels, findDiagnosis, recordFeedback } from "../../services/FeedbackService";
+import { FeedbackVerdict } from "../../core/entities";
+
+// REST API over a diagnosis database written by runDiagnosis --db:
+//   GET  /health                               - Health check
+//   GET  /diagnoses/:id                        - Stored diagnosis with causes and feedback
+//   POST /diagnoses/:id/causes/:rank/feedback  - Confirm or reject a cause: { verdict, note? }
+//   GET  /feedback/export                      - Reviewed causes as a labeled dataset
+// Event/change ingestion and on-demand diagnosis are not exposed yet.
+
+const DIAGNOSIS_ROUTE = /^\/diagnoses\/(\d+)$/;
+const FEEDBACK_ROUTE = /^\/diagnoses\/(\d+)\/causes\/(\d+)\/feedback$/;
+const VERDICTS = new Set<string>(Object.values(FeedbackVerdict));
+
+/** Request bodies are small JSON objects; larger ones are refused with 413 instead of buffered. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+interface BodyError {
+  status: number;
+  message: string;
+}
+
+export function createApiHandler(db: Database.Database): http.RequestListener {
+  return (req, res) => respondSafely(res, () => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const route = `${req.method} ${url.pathname}`;
+
+    if (route === "GET /health") return sendJson(res, 200, { status: "ok" });
+    if (route === "GET /feedback/export") return sendJson(res, 200, exportLabels(db));
+
+    const diagnosisMatch = req.method === "GET" && url.pathname.match(DIAGNOSIS_ROUTE);
+    if (diagnosisMatch) {
+      const diagnosis = findDiagnosis(db, diagnosisMatch[1]);
+      return diagnosis
+        ? sendJson(res, 200, diagnosis)
+        : sendJson(res, 404, { error: `Diagnosis ${diagnosisMatch[1]} not found` });
+    }
+
+    const feedbackMatch = req.method === "POST" && url.pathname.match(FEEDBACK_ROUTE);
+    if (feedbackMatch) {
+      readJsonBody(req, (err, body) => respondSafely(res, () => {
+        if (err) return sendJson(res, err.status, { error: err.message });
+        if (!VERDICTS.has(body?.verdict)) {
+          return sendJson(res, 400, { error: `verdict must be one of ${[...VERDICTS].join(", ")}` });
+        }
+        if (body.note !== undefined && typeof body.note !== "string") {
+          return sendJson(res, 400, { error: "note must be a string" });
+        }
+
+        const [, diagnosisId, rank] = feedbackMatch;
+        const diagnosis = recordFeedback(db, {
+          diagnosisId,
+          rank: Number(rank),
+          verdict: body.verdict as FeedbackVerdict,
+          ...(body.note && { note: body.note }),
+        });
+        return diagnosis
+          ? sendJson(res, 201, diagnosis)
+          : sendJson(res, 404, { error: `Diagnosis ${diagnosisId} has no cause ranked ${rank}` });
+      }));
+      return;
+    }
+
+    sendJson(res, 404, { error: `No route for ${route}` });
+  });
+}
+
+export function startServer(port: number, dbPath: string): http.Server {
+  const db = initializeDatabase(dbPath);
+  const server = http.createServer(createApiHandler(db));
+  server.on("close", () => db.close());
+  return server.listen(port);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Run a request handler, answering 500 if it throws: storage errors (a locked database, a
+ * missing table) would otherwise escape the listener and end the process.
+ */
+function respondSafely(res: http.ServerResponse, handle: () => void): void {
+  try {
+    handle();
+  } catch (err: any) {
+    if (res.headersSent) res.destroy();
+    else sendJson(res, 500, { error: `Internal error: ${err.message}` });
+  }
+}
+
+function readJsonBody(req: http.IncomingMessage, callback: (err: BodyError | null, body?: any) => void): void {
+  const tooLarge = { status: 413, message: `Request body must not exceed ${MAX_BODY_BYTES} bytes` };
+  if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) return callback(tooLarge);
+
+  let raw = "";
+  let size = 0;
+  req.setEncoding("utf-8");
+  req.on("data", (chunk: string) => {
+    if (size > MAX_BODY_BYTES) return;
+    size += Buffer.byteLength(chunk);
+    if (size > MAX_BODY_BYTES) callback(tooLarge);
+    else raw += chunk;
+  });
+  req.on("end", () => {
+    if (size > MAX_BODY_BYTES) return;
+    let body: any;
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      return callback({ status: 400, message: "Request body must be valid JSON" });
+    }
+    callback(null, body);
+  });
 }
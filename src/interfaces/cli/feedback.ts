@@ -0,0 +1,157 @@
+import fs from "fs";
+import path from "path";
+import { initializeDatabase } from "../../storage/Database";
+import { exportLabels, findDiagnosis, recordFeedback } from "../../services/FeedbackService";
+import { Diagnosis, FeedbackVerdict } from "../../core/entities";
+
+type Command = "confirm" | "reject" | "show" | "export";
+
+interface CliArgs {
+  command: Command;
+  db: string;
+  diagnosis?: string;
+  rank?: number;
+  note?: string;
+  out?: string;
+}
+
+const COMMANDS: Command[] = ["confirm", "reject", "show", "export"];
+
+function parseArgs(argv: string[]): CliArgs {
+  const command = argv[2] as Command;
+  if (argv[2] === "--help") {
+    printUsage();
+    process.exit(0);
+  }
+  if (!COMMANDS.includes(command)) {
+    console.error(`Unknown command: ${argv[2] ?? "(none)"}`);
+    printUsage();
+    process.exit(2);
+  }
+
+  const args: CliArgs = { command, db: "" };
+
+  for (let i = 3; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--db":
+        args.db = argv[++i];
+        break;
+      case "--diagnosis":
+        args.diagnosis = argv[++i];
+        break;
+      case "--rank":
+        args.rank = parseInt(argv[++i], 10);
+        break;
+      case "--note":
+        args.note = argv[++i];
+        break;
+      case "--out":
+        args.out = argv[++i];
+        break;
+      case "--help":
+        printUsage();
+        process.exit(0);
+      default:
+        console.error(`Unknown argument: ${argv[i]}`);
+        printUsage();
+        process.exit(2);
+    }
+  }
+
+  if (!args.db) {
+    console.error("Error: --db is required.");
+    printUsage();
+    process.exit(2);
+  }
+  if (command !== "export" && !args.diagnosis) {
+    console.error(`Error: ${command} requires --diagnosis.`);
+    printUsage();
+    process.exit(2);
+  }
+  if ((command === "confirm" || command === "reject") && !(args.rank! >= 1)) {
+    console.error(`Error: ${command} requires --rank <n> (1 = top cause).`);
+    printUsage();
+    process.exit(2);
+  }
+
+  return args;
+}
+
+function printUsage(): void {
+  console.log(`
+Usage: npx ts-node src/interfaces/cli/feedback.ts <command> [options]
+
+Commands:
+  confirm                Mark a ranked cause of a stored diagnosis as the actual cause
+  reject                 Mark a ranked cause of a stored diagnosis as wrong
+  show                   Print a stored diagnosis with its causes and feedback
+  export                 Write reviewed causes as a JSON Lines training/evaluation dataset
+
+Options:
+  --db <path>            SQLite database written by runDiagnosis --db (required)
+  --diagnosis <id>       Diagnosis id, as printed in the report (confirm, reject, show)
+  --rank <n>             Position of the cause in the diagnosis, 1 = top (confirm, reject)
+  --note <text>          Optional note stored with the verdict
+  --out <path>           Export destination (default: stdout)
+  --help                 Show this help message
+`);
+}
+
+function printDiagnosis(diagnosis: Diagnosis): void {
+  const brk = diagnosis.break;
+  console.log(`Diagnosis #${diagnosis.id} (${diagnosis.diagnosisStatus})`);
+  console.log(`  ${diagnosis.summary}`);
+  console.log(`  Break #${brk.id}: ${brk.funnelId} ${brk.fromStage} -> ${brk.toStage}, onset ${brk.onsetDate}`);
+  diagnosis.causes.forEach((cause, i) => {
+    const confPct = (cause.confidence * 100).toFixed(0);
+    const verdict = cause.feedback ? ` -- ${cause.feedback.verdict.toUpperCase()}` : "";
+    console.log(`  #${i + 1} [${confPct}% confidence] "${cause.changeDescription}" (${cause.changeCategory}, ${cause.changeDate})${verdict}`);
+    if (cause.feedback?.note) {
+      console.log(`     Note: ${cause.feedback.note}`);
+    }
+  });
+}
+
+function main(): void {
+  try {
+    const args = parseArgs(process.argv);
+    const db = initializeDatabase(path.resolve(args.db));
+
+    try {
+      if (args.command === "export") {
+        const lines = exportLabels(db).map((label) => JSON.stringify(label));
+        const content = lines.length > 0 ? `${lines.join("\n")}\n` : "";
+        if (args.out) {
+          fs.writeFileSync(path.resolve(args.out), content, "utf-8");
+          console.log(`Exported ${lines.length} labeled cause${lines.length === 1 ? "" : "s"} to ${args.out}`);
+        } else {
+          process.stdout.write(content);
+        }
+        return;
+      }
+
+      const diagnosis = args.command === "show"
+        ? findDiagnosis(db, args.diagnosis!)
+        : recordFeedback(db, {
+          diagnosisId: args.diagnosis!,
+          rank: args.rank!,
+          verdict: args.command === "confirm" ? FeedbackVerdict.CONFIRMED : FeedbackVerdict.REJECTED,
+          ...(args.note && { note: args.note }),
+        });
+
+      if (!diagnosis) {
+        console.error(`Error: no diagnosis #${args.diagnosis}${args.rank ? ` with a cause ranked ${args.rank}` : ""}.`);
+        process.exitCode = 1;
+        return;
+      }
+      printDiagnosis(diagnosis);
+    } finally {
+      db.close();
+    }
+  } catch (err: any) {
+    console.error(`Error: ${err.message}`);
+    process.exit(2);
+  }
+}
+
+main();
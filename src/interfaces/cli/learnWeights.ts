@@ -0,0 +1,153 @@
+import fs from "fs";
+import path from "path";
+import { initializeDatabase } from "../../storage/Database";
+import { exportLabels } from "../../services/FeedbackService";
+import { mergeCauseAnalyzerSettings } from "../../data/config/ConfigFileLoader";
+import { learnWeights, RankingMetrics, WeightLearningResult } from "../../core/engine/WeightLearner";
+import { LabeledCause } from "../../core/entities";
+
+interface CliArgs {
+  db?: string;
+  labels?: string;
+  out?: string;
+  folds?: number;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {};
+
+  for (let i = 2; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--db":
+        args.db = argv[++i];
+        break;
+      case "--labels":
+        args.labels = argv[++i];
+        break;
+      case "--out":
+        args.out = argv[++i];
+        break;
+      case "--folds":
+        args.folds = positiveInteger("--folds", argv[++i]);
+        break;
+      case "--help":
+        printUsage();
+        process.exit(0);
+      default:
+        console.error(`Unknown argument: ${argv[i]}`);
+        printUsage();
+        process.exit(2);
+    }
+  }
+
+  if (!args.db === !args.labels) {
+    console.error("Error: exactly one of --db or --labels is required.");
+    printUsage();
+    process.exit(2);
+  }
+  return args;
+}
+
+function positiveInteger(flag: string, value: string | undefined): number {
+  if (!/^\d+$/.test(value ?? "") || Number(value) < 1) {
+    console.error(`Error: ${flag} must be a positive integer.`);
+    process.exit(2);
+  }
+  return Number(value);
+}
+
+function printUsage(): void {
+  console.log(`
+Usage: npx ts-node src/interfaces/cli/learnWeights.ts (--db <path> | --labels <path>) [options]
+
+Fits cause-scoring weights and category relevance to confirmed/rejected causes and
+prints how well they rank held-out diagnoses compared with the current scoring.
+
+Options:
+  --db <path>            SQLite database with feedback recorded via the feedback CLI
+  --labels <path>        JSON Lines dataset written by "feedback export"
+  --out <path>           Config file to write the learned causeAnalyzer settings to
+                         (.json, .yaml or .yml); other settings already in it are kept,
+                         and relevance is written only for categories it declares
+  --folds <n>            Cross-validation folds over diagnoses (default: 5)
+  --help                 Show this help message
+`);
+}
+
+function readLabels(filePath: string): LabeledCause[] {
+  const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+  const labels: LabeledCause[] = [];
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      labels.push(JSON.parse(line));
+    } catch (err) {
+      throw new Error(`${filePath}:${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+  return labels;
+}
+
+function formatMetrics(metrics: RankingMetrics): string {
+  const pct = (share: number) => `${(share * 100).toFixed(1)}%`.padStart(6);
+  return `top-1 ${pct(metrics.top1)}   top-3 ${pct(metrics.top3)}`;
+}
+
+function printResult(result: WeightLearningResult): void {
+  const { config, validation } = result;
+
+  console.log(`\nLearned from ${result.examples} labeled causes`);
+  console.log("\nWEIGHTS:");
+  console.log(`  temporal:    ${config.temporalWeight}`);
+  console.log(`  category:    ${config.categoryWeight}`);
+  console.log(`  severity:    ${config.severityWeight}`);
+  console.log(`  stage match: ${config.stageMatchWeight}`);
+
+  console.log("\nCATEGORY RELEVANCE:");
+  for (const [category, scores] of Object.entries(config.customStageRelevance)) {
+    for (const [transition, score] of Object.entries(scores ?? {})) {
+      console.log(`  ${category.padEnd(12)} ${transition.padEnd(30)} ${score}`);
+    }
+  }
+
+  const heldOut = validation.folds > 1 ? `${validation.folds}-fold cross-validation` : "in-sample, too few diagnoses to hold out";
+  const count = validation.learned.diagnoses;
+  console.log(`\nVALIDATION (${count} diagnos${count === 1 ? "is" : "es"} with a confirmed cause, ${heldOut}):`);
+  console.log(`  current scoring: ${formatMetrics(validation.baseline)}`);
+  console.log(`  learned scoring: ${formatMetrics(validation.learned)}`);
+}
+
+function main(): void {
+  try {
+    const args = parseArgs(process.argv);
+
+    let labels: LabeledCause[];
+    if (args.db) {
+      const db = initializeDatabase(path.resolve(args.db));
+      try {
+        labels = exportLabels(db);
+      } finally {
+        db.close();
+      }
+    } else {
+      labels = readLabels(path.resolve(args.labels!));
+    }
+
+    const result = learnWeights(labels, args.folds !== undefined ? { folds: args.folds } : undefined);
+    printResult(result);
+
+    if (args.out) {
+      const skipped = mergeCauseAnalyzerSettings(path.resolve(args.out), result.config);
+      console.log(`\nWrote causeAnalyzer settings to ${args.out}; pass it to runDiagnosis with --config.`);
+      if (skipped.length > 0) {
+        console.log(`Left out relevance for categories ${args.out} does not declare: ${skipped.join(", ")}.`);
+        console.log("Declare them under causeAnalyzer.categories and run again to keep it.");
+      }
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(2);
+  }
+}
+
+main();
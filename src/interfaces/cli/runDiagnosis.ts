@@ -1,14 +1,61 @@
 import path from "path";
 import { runDiagnosis, DiagnosisResult } from "../../services/DiagnosisService";
-import { Diagnosis, CauseCandidate, BreakSeverity } from "../../core/entities";
+import { TransitionSpec } from "../../core/engine/FunnelAnalyzer";
+import { buildRelevanceMatrix, resolveCauseAnalyzerConfig } from "../../core/engine/CauseAnalyzer";
+import { BreakRanking } from "../../core/engine/ImpactEstimator";
+import { loadConfigFile } from "../../data/config/ConfigFileLoader";
+import { loadFunnelDefinitionsFromCsv } from "../../data/csv/CsvFunnelLoader";
+import { GitChangeLoader } from "../../data/git/GitChangeLoader";
+import {
+  Break,
+  BreakImpact,
+  Diagnosis,
+  CauseCandidate,
+  BreakDirection,
+  BreakSeverity,
+  BreakType,
+  DetectorStrategy,
+  FeedbackVerdict,
+  GlobalIncident,
+  Incident,
+  IncidentRole,
+  resolveStageOrder,
+  Seasonality,
+  SignificanceTest,
+  TransitionKind,
+  WILDCARD_FUNNEL_ID,
+} from "../../core/entities";
 
 interface CliArgs {
   events: string;
   changes: string;
+  gitRepo?: string;
+  gitSince?: string;
+  funnels?: string;
+  config?: string;
+  db?: string;
   format: "table" | "json";
   baselineDays?: number;
   currentDays?: number;
   minDrop?: number;
+  detector?: DetectorStrategy;
+  cusumThreshold?: number;
+  cusumDrift?: number;
+  test?: SignificanceTest;
+  seasonality?: Seasonality;
+  minVolume?: number;
+  maxPValue?: number;
+  transitions: TransitionSpec[];
+  endToEnd: boolean;
+  detectIncreases: boolean;
+  minIncrease?: number;
+  volume: boolean;
+  minVolumeDrop?: number;
+  incidentWindow?: number;
+  minGlobalFunnels?: number;
+  causalWeight?: number;
+  rankBy?: BreakRanking;
+  dumpRelevance: boolean;
 }
 
 function parseArgs(argv: string[]): CliArgs {
@@ -16,6 +63,11 @@ function parseArgs(argv: string[]): CliArgs {
     events: "",
     changes: "",
     format: "table",
+    transitions: [],
+    endToEnd: false,
+    detectIncreases: false,
+    volume: true,
+    dumpRelevance: false,
   };
 
   for (let i = 2; i < argv.length; i++) {
@@ -26,8 +78,23 @@ function parseArgs(argv: string[]): CliArgs {
       case "--changes":
         args.changes = argv[++i];
         break;
+      case "--git-repo":
+        args.gitRepo = argv[++i];
+        break;
+      case "--git-since":
+        args.gitSince = argv[++i];
+        break;
+      case "--funnels":
+        args.funnels = argv[++i];
+        break;
+      case "--config":
+        args.config = argv[++i];
+        break;
+      case "--db":
+        args.db = argv[++i];
+        break;
       case "--format":
-        args.format = argv[++i] as "table" | "json";
+        args.format = oneOf("--format", argv[++i], ["table", "json"]);
         break;
       case "--baseline-days":
         args.baselineDays = parseInt(argv[++i], 10);
@@ -38,6 +105,66 @@ function parseArgs(argv: string[]): CliArgs {
       case "--min-drop":
         args.minDrop = parseFloat(argv[++i]);
         break;
+      case "--detector":
+        args.detector = oneOf<DetectorStrategy>("--detector", argv[++i], ["window", "cusum"]);
+        break;
+      case "--cusum-threshold":
+        args.cusumThreshold = parseFloat(argv[++i]);
+        break;
+      case "--cusum-drift":
+        args.cusumDrift = parseFloat(argv[++i]);
+        break;
+      case "--test":
+        args.test = oneOf<SignificanceTest>("--test", argv[++i], ["stddev", "two-proportion"]);
+        break;
+      case "--detect-increases":
+        args.detectIncreases = true;
+        break;
+      case "--min-increase":
+        args.minIncrease = parseFloat(argv[++i]);
+        break;
+      case "--no-volume":
+        args.volume = false;
+        break;
+      case "--min-volume-drop":
+        args.minVolumeDrop = parseFloat(argv[++i]);
+        break;
+      case "--incident-window":
+        args.incidentWindow = parseInt(argv[++i], 10);
+        break;
+      case "--min-global-funnels":
+        args.minGlobalFunnels = parseInt(argv[++i], 10);
+        break;
+      case "--rank-by":
+        args.rankBy = oneOf<BreakRanking>("--rank-by", argv[++i], ["detected", "severity", "impact"]);
+        break;
+      case "--causal-weight":
+        args.causalWeight = parseFloat(argv[++i]);
+        break;
+      case "--seasonality":
+        args.seasonality = oneOf<Seasonality>("--seasonality", argv[++i], ["none", "day-of-week"]);
+        break;
+      case "--min-volume":
+        args.minVolume = parseInt(argv[++i], 10);
+        break;
+      case "--max-p-value":
+        args.maxPValue = parseFloat(argv[++i]);
+        break;
+      case "--transition": {
+        const [fromStage, toStage] = (argv[++i] ?? "").split(":");
+        if (!fromStage || !toStage) {
+          console.error("Error: --transition expects <from>:<to>, e.g. impression:purchase");
+          process.exit(2);
+        }
+        args.transitions.push({ fromStage, toStage });
+        break;
+      }
+      case "--end-to-end":
+        args.endToEnd = true;
+        break;
+      case "--dump-relevance":
+        args.dumpRelevance = true;
+        break;
       case "--help":
         printUsage();
         process.exit(0);
@@ -48,8 +175,8 @@ function parseArgs(argv: string[]): CliArgs {
     }
   }
 
-  if (!args.events || !args.changes) {
-    console.error("Error: --events and --changes are required.");
+  if (!args.dumpRelevance && (!args.events || (!args.changes && !args.gitRepo))) {
+    console.error("Error: --events and --changes (or --git-repo) are required.");
     printUsage();
     process.exit(2);
   }
@@ -57,23 +184,237 @@ function parseArgs(argv: string[]): CliArgs {
   return args;
 }
 
+/** The flag's value if it is one of the allowed ones; otherwise exits listing them. */
+function oneOf<T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T {
+  if (!allowed.includes(value as T)) {
+    console.error(`Error: ${flag} expects ${allowed.slice(0, -1).join(", ")} or ${allowed[allowed.length - 1]}`);
+    process.exit(2);
+  }
+  return value as T;
+}
+
+/**
+ * Exit unless each --transition runs forward through the stages of some funnel: a loaded
+ * definition or the default stages. Funnels skip transitions their stages do not contain.
+ */
+function validateTransitions(transitions: TransitionSpec[], funnelsPath?: string): void {
+  if (transitions.length === 0) return;
+  const definitions = funnelsPath ? loadFunnelDefinitionsFromCsv(path.resolve(funnelsPath)).definitions : [];
+  const stageOrders = [resolveStageOrder(WILDCARD_FUNNEL_ID, definitions), ...definitions.map((d) => d.stages)];
+
+  for (const { fromStage, toStage } of transitions) {
+    const runsForward = stageOrders.some((order) => {
+      const fromIdx = order.indexOf(fromStage);
+      return fromIdx >= 0 && order.indexOf(toStage) > fromIdx;
+    });
+    if (!runsForward) {
+      const known = [...new Set(stageOrders.flat())];
+      console.error(`Error: --transition ${fromStage}:${toStage} is not a forward transition of any funnel's stages (${known.join(", ")})`);
+      process.exit(2);
+    }
+  }
+}
+
 function printUsage(): void {
   console.log(`
 Usage: npx ts-node src/interfaces/cli/runDiagnosis.ts [options]
 
 Required:
   --events <path>        Path to events CSV file
-  --changes <path>       Path to changes CSV file
+  --changes <path>       Path to changes CSV file, unless --git-repo is given
 
 Optional:
+  --git-repo <path>      Also take site changes from the releases of this git repository,
+                         mapped to funnels and stages by the config file's deploys.rules
+  --git-since <date>     Earliest release date to read from the repository (YYYY-MM-DD)
+  --funnels <path>       Path to funnel definitions CSV (funnel_id,stages)
+  --config <path>        JSON config file with detector settings and per-funnel /
+                         per-transition overrides, and stage values for lost revenue
+                         (impact.stageValues); flags below take precedence
+  --db <path>            SQLite database to store diagnoses in, so causes can be
+                         confirmed or rejected with the feedback command
   --format <table|json>  Output format (default: table)
-  --baseline-days <n>    Baseline window in days (default: 14)
-  --current-days <n>     Current window in days (default: 3)
-  --min-drop <n>         Minimum relative drop threshold (default: 0.15)
+  --baseline-days <n>    Baseline window in days, for rates and volumes (default: 14)
+  --current-days <n>     Current window in days, for rates and volumes (default: 3)
+  --min-drop <n>         Minimum relative conversion rate drop (default: 0.15)
+  --detector <window|cusum>
+                         Break detection strategy (default: window)
+  --cusum-threshold <n>  CUSUM alarm threshold in baseline stddevs (default: 5)
+  --cusum-drift <n>      CUSUM per-day slack in baseline stddevs (default: 0.5)
+  --detect-increases     Also flag abnormal conversion rate and stage volume increases
+  --min-increase <n>     Minimum relative increase threshold (default: 0.15)
+  --no-volume            Skip stage volume drop detection
+  --min-volume-drop <n>  Minimum relative stage volume drop (default: 0.30)
+  --test <stddev|two-proportion>
+                         Significance test for conversion rates (default: stddev);
+                         stage volumes always use stddev
+  --seasonality <none|day-of-week>
+                         Baseline seasonality model (default: none)
+  --min-volume <n>       Two-proportion minimum fromCount per window to judge a pair (default: 30)
+  --max-p-value <n>      Two-proportion p-value threshold (default: 0.05)
+  --incident-window <n>  Days between onsets grouped into one incident (default: 3)
+  --min-global-funnels <n>
+                         Funnels breaking together that form a global incident (default: 2)
+  --rank-by <detected|severity|impact>
+                         Order of incidents and diagnoses (default: detected); impact
+                         ranks by lost revenue, then lost final-stage conversions
+  --causal-weight <n>    Share of cause confidence taken from a difference-in-differences
+                         score against funnels without the change (default: 0, off)
+  --transition <a:b>     Also monitor stage a -> stage b (repeatable); a must come
+                         before b in the stages of at least one funnel
+  --end-to-end           Also monitor first stage -> last stage of each funnel
+  --dump-relevance       Print the effective cause scoring settings and relevance
+                         matrix (global and per configured funnel) as JSON and exit
   --help                 Show this help message
 `);
 }
 
+function formatCount(value: number): string {
+  return Math.round(value).toLocaleString("en-US");
+}
+
+/** Lost conversions at the break's stage and at the last stage, then revenue if valued. */
+function formatImpact(impact: BreakImpact): string {
+  const stages = Object.entries(impact.lostByStage);
+  const shown = stages.length > 1 ? [stages[0], stages[stages.length - 1]] : stages;
+  const losses = shown.map(([stage, lost]) => `${formatCount(lost)} ${stage}`).join(", ");
+  const revenue = impact.lostRevenue !== undefined
+    ? `, ${impact.lostRevenue.toLocaleString("en-US", { maximumFractionDigits: 0 })} revenue`
+    : "";
+  return `${losses} lost over ${impact.days} day${impact.days === 1 ? "" : "s"}${revenue}`;
+}
+
+/** Rates print as percentages; volume breaks carry daily counts in the rate fields. */
+function formatLevel(brk: Break, value: number): string {
+  return brk.breakType === BreakType.VOLUME ? `${Math.round(value)}/day` : `${(value * 100).toFixed(1)}%`;
+}
+
+function printBreakDetails(brk: Break): void {
+  console.log(`  Funnel:     ${brk.funnelId}`);
+  if (brk.breakType === BreakType.VOLUME) {
+    console.log(`  Stage:      ${brk.fromStage} (volume)`);
+  } else {
+    const kindLabel = brk.transitionKind === TransitionKind.ADJACENT ? "" : ` (${brk.transitionKind.replace(/_/g, "-")})`;
+    console.log(`  Transition: ${brk.fromStage} -> ${brk.toStage}${kindLabel}`);
+  }
+  if (brk.globalIncidentId) {
+    console.log(`  Global:     ${brk.globalIncidentId}`);
+  }
+  if (brk.detectorConfig && brk.detectorConfig.layers.length > 0) {
+    console.log(`  Config:     ${brk.detectorConfig.layers.join(" > ")}`);
+  }
+  console.log(`  Date:       ${brk.detectedDate}`);
+  console.log(`  Onset:      ${brk.onsetDate}`);
+  console.log(`  Last seen:  ${brk.lastSeenDate}`);
+  if (brk.recoveryDate) {
+    console.log(`  Recovered:  ${brk.recoveryDate} (after ${brk.durationDays} day${brk.durationDays === 1 ? "" : "s"})`);
+  } else {
+    console.log(`  Ongoing:    ${brk.durationDays} day${brk.durationDays === 1 ? "" : "s"}`);
+  }
+  console.log(`  Baseline:   ${formatLevel(brk, brk.baselineRate)}`);
+  if (brk.expectedRate !== brk.baselineRate) {
+    console.log(`  Expected:   ${formatLevel(brk, brk.expectedRate)}`);
+  }
+  console.log(`  Current:    ${formatLevel(brk, brk.currentRate)}`);
+  if (brk.direction === BreakDirection.INCREASE) {
+    console.log(`  Increase:   +${formatLevel(brk, -brk.absoluteDrop)} absolute / +${(-brk.relativeDrop * 100).toFixed(1)}% relative`);
+  } else {
+    console.log(`  Drop:       -${formatLevel(brk, brk.absoluteDrop)} absolute / -${(brk.relativeDrop * 100).toFixed(1)}% relative`);
+  }
+  if (brk.impact) {
+    console.log(`  Impact:     ${formatImpact(brk.impact)}`);
+  }
+  console.log(`  Z-Score:    ${brk.zScore.toFixed(2)}`);
+  if (brk.pValue !== undefined) {
+    console.log(`  P-Value:    ${brk.pValue.toExponential(2)}`);
+  }
+  if (brk.confidenceInterval) {
+    const ci = brk.confidenceInterval;
+    if (brk.direction === BreakDirection.INCREASE) {
+      console.log(`  Rise CI:    ${(-ci.upper * 100).toFixed(1)}% to ${(-ci.lower * 100).toFixed(1)}% absolute`);
+    } else {
+      console.log(`  Drop CI:    ${(ci.lower * 100).toFixed(1)}% to ${(ci.upper * 100).toFixed(1)}% absolute`);
+    }
+  }
+}
+
+/** One-line description of a downstream break. */
+function describeSymptom(brk: Break): string {
+  const location = brk.breakType === BreakType.VOLUME
+    ? `${brk.fromStage} (volume)`
+    : `${brk.fromStage} -> ${brk.toStage}${brk.transitionKind === TransitionKind.ADJACENT ? "" : ` (${brk.transitionKind.replace(/_/g, "-")})`}`;
+  const change = brk.direction === BreakDirection.INCREASE
+    ? `+${(-brk.relativeDrop * 100).toFixed(1)}%`
+    : `-${(brk.relativeDrop * 100).toFixed(1)}%`;
+  const state = brk.active ? "active" : `recovered ${brk.recoveryDate}`;
+  return `${location}: ${change} from ${brk.onsetDate} [${brk.severity.toUpperCase()}, ${state}]`;
+}
+
+function printGlobalIncident(incident: GlobalIncident, index: number): void {
+  const location = incident.breakType === BreakType.VOLUME
+    ? `${incident.fromStage} (volume)`
+    : `${incident.fromStage} -> ${incident.toStage}`;
+  const change = incident.direction === BreakDirection.INCREASE ? "increase" : "drop";
+  const state = incident.active ? "active" : "resolved";
+  console.log(`  #${index} [${incident.severity.toUpperCase()}] ${location} ${change} in ${incident.funnelIds.length} funnels from ${incident.onsetDate} (${state})`);
+  for (const brk of incident.breaks) {
+    const pct = (Math.abs(brk.relativeDrop) * 100).toFixed(1);
+    console.log(`     ${brk.funnelId}: ${brk.direction === BreakDirection.INCREASE ? "+" : "-"}${pct}% from ${brk.onsetDate}`);
+  }
+}
+
+function printIncident(incident: Incident, rootDiagnosis: Diagnosis, index: number, divider: string): void {
+  const breakCount = incident.symptoms.length + 1;
+
+  console.log(`\n${divider}`);
+  console.log(`INCIDENT #${index} [${incident.severity.toUpperCase()}] ${breakCount} break${breakCount === 1 ? "" : "s"} in "${incident.funnelId}"`);
+  console.log(`\n  ROOT ${incident.direction === BreakDirection.INCREASE ? "ANOMALY" : "BREAK"}:`);
+  printBreakDetails(incident.root);
+
+  if (rootDiagnosis.causes.length > 0) {
+    console.log(`\n  LIKELY CAUSES:`);
+    for (let j = 0; j < Math.min(rootDiagnosis.causes.length, 5); j++) {
+      const cause = rootDiagnosis.causes[j];
+      const confPct = (cause.confidence * 100).toFixed(0);
+      const verdict = cause.feedback ? ` -- ${cause.feedback.verdict.toUpperCase()}` : "";
+      console.log(`  #${j + 1} [${confPct}% confidence] "${cause.changeDescription}"${verdict}`);
+      console.log(`     Category: ${cause.changeCategory} | Date: ${cause.changeDate} | Severity: ${cause.changeSeverity}/5`);
+      const bd = cause.scoreBreakdown;
+      console.log(`     Scores: temporal=${bd.temporalScore.toFixed(3)} category=${bd.categoryRelevanceScore.toFixed(2)} severity=${bd.severityScore.toFixed(2)} stage_match=${bd.stageMatchBonus > 0 ? "+" : ""}${bd.stageMatchBonus.toFixed(1)}${bd.wildcardBoost > 0 ? ` wildcard=+${bd.wildcardBoost.toFixed(2)}` : ""}${bd.causalScore !== undefined ? ` causal=${bd.causalScore.toFixed(2)}` : ""}${bd.revertBoost !== undefined ? ` revert=+${bd.revertBoost.toFixed(2)}` : ""}${bd.rolloutFactor !== undefined ? ` rollout=x${bd.rolloutFactor.toFixed(2)}` : ""}`);
+      if (cause.revertDate) {
+        console.log(`     Reverted: ${cause.revertDate}`);
+      }
+      if (cause.causalEstimate) {
+        const est = cause.causalEstimate;
+        const pct = (shift: number) => `${shift >= 0 ? "+" : ""}${(shift * 100).toFixed(1)}%`;
+        const controls = est.controlFunnels.length;
+        console.log(`     Causal: ${pct(est.treatedShift)} here vs ${pct(est.controlShift)} in ${controls} control funnel${controls === 1 ? "" : "s"} across the change date`);
+      }
+      if (cause.feedback?.note) {
+        console.log(`     Note: ${cause.feedback.note}`);
+      }
+    }
+  }
+
+  const verified = rootDiagnosis.causes.filter((c) => c.feedback?.verdict === FeedbackVerdict.CONFIRMED);
+  for (const cause of verified) {
+    console.log(`\n  VERIFIED CAUSE: "${cause.changeDescription}" (${cause.changeCategory}, ${cause.changeDate})`);
+  }
+
+  console.log(`\n  STATUS: ${rootDiagnosis.diagnosisStatus.toUpperCase()}`);
+  if (rootDiagnosis.id) {
+    console.log(`  DIAGNOSIS ID: ${rootDiagnosis.id}`);
+  }
+  console.log(`  SUMMARY: ${rootDiagnosis.summary}`);
+
+  if (incident.symptoms.length > 0) {
+    console.log(`\n  DOWNSTREAM SYMPTOMS:`);
+    for (const symptom of incident.symptoms) {
+      console.log(`  - ${describeSymptom(symptom)}`);
+    }
+  }
+}
+
 function formatTableOutput(result: DiagnosisResult): void {
   const line = "=".repeat(56);
   const divider = "-".repeat(56);
@@ -86,8 +427,20 @@ function formatTableOutput(result: DiagnosisResult): void {
   console.log(`\nDATA SUMMARY`);
   console.log(`  Events loaded:  ${result.metadata.eventsLoaded}`);
   console.log(`  Changes loaded: ${result.metadata.changesLoaded}`);
+  console.log(`  Funnels:        ${result.metadata.funnelsDefined}`);
   console.log(`  Load errors:    ${result.metadata.loadErrors.length}`);
   console.log(`  Breaks found:   ${result.metadata.breaksDetected}`);
+  console.log(`  Active breaks:  ${result.metadata.activeBreaks}`);
+  console.log(`  Incidents:      ${result.metadata.incidentsFound}`);
+  console.log(`  Global:         ${result.metadata.globalIncidentsFound}`);
+  console.log(`  Data issues:    ${result.dataQualityFindings.length}`);
+  const impact = result.metadata.estimatedImpact;
+  for (const [stage, lost] of Object.entries(impact.lostConversions)) {
+    console.log(`${`  Lost ${stage}:`.padEnd(17)} ${formatCount(lost)}`);
+  }
+  if (impact.lostRevenue > 0) {
+    console.log(`  Lost revenue:   ${impact.lostRevenue.toLocaleString("en-US", { maximumFractionDigits: 0 })}`);
+  }
   console.log(`  Execution time: ${result.metadata.executionTimeMs}ms`);
 
   if (result.metadata.loadErrors.length > 0) {
@@ -100,6 +453,13 @@ function formatTableOutput(result: DiagnosisResult): void {
     }
   }
 
+  if (result.dataQualityFindings.length > 0) {
+    console.log(`\nDATA QUALITY (${result.dataQualityFindings.length} finding${result.dataQualityFindings.length === 1 ? "" : "s"})`);
+    for (const finding of result.dataQualityFindings) {
+      console.log(`  [${finding.issue.toUpperCase()}] ${finding.funnelId}: ${finding.message}`);
+    }
+  }
+
   if (result.diagnoses.length === 0) {
     console.log(`\n${divider}`);
     console.log("  No breaks detected. Funnel performance is stable.");
@@ -107,34 +467,29 @@ function formatTableOutput(result: DiagnosisResult): void {
     return;
   }
 
-  for (let i = 0; i < result.diagnoses.length; i++) {
-    const diag = result.diagnoses[i];
-    const brk = diag.break;
+  if (result.globalIncidents.length > 0) {
+    console.log(`\n${line}`);
+    console.log(`GLOBAL INCIDENTS (${result.globalIncidents.length})`);
+    result.globalIncidents.forEach((incident, i) => printGlobalIncident(incident, i + 1));
+  }
 
-    console.log(`\n${divider}`);
-    console.log(`BREAK #${i + 1} [${brk.severity.toUpperCase()}]`);
-    console.log(`  Funnel:     ${brk.funnelId}`);
-    console.log(`  Transition: ${brk.fromStage} -> ${brk.toStage}`);
-    console.log(`  Date:       ${brk.detectedDate}`);
-    console.log(`  Baseline:   ${(brk.baselineRate * 100).toFixed(1)}%`);
-    console.log(`  Current:    ${(brk.currentRate * 100).toFixed(1)}%`);
-    console.log(`  Drop:       -${(brk.absoluteDrop * 100).toFixed(1)}% absolute / -${(brk.relativeDrop * 100).toFixed(1)}% relative`);
-    console.log(`  Z-Score:    ${brk.zScore.toFixed(2)}`);
-
-    if (diag.causes.length > 0) {
-      console.log(`\n  LIKELY CAUSES:`);
-      for (let j = 0; j < Math.min(diag.causes.length, 5); j++) {
-        const cause = diag.causes[j];
-        const confPct = (cause.confidence * 100).toFixed(0);
-        console.log(`  #${j + 1} [${confPct}% confidence] "${cause.changeDescription}"`);
-        console.log(`     Category: ${cause.changeCategory} | Date: ${cause.changeDate} | Severity: ${cause.changeSeverity}/5`);
-        const bd = cause.scoreBreakdown;
-        console.log(`     Scores: temporal=${bd.temporalScore.toFixed(3)} category=${bd.categoryRelevanceScore.toFixed(2)} severity=${bd.severityScore.toFixed(2)} stage_match=${bd.stageMatchBonus > 0 ? "+" : ""}${bd.stageMatchBonus.toFixed(1)}`);
-      }
-    }
+  const rootDiagnoses = new Map(
+    result.diagnoses
+      .filter((d) => d.break.incidentRole === IncidentRole.ROOT)
+      .map((d) => [d.break.incidentId, d])
+  );
+  const active = result.incidents.filter((incident) => incident.active);
+  const resolved = result.incidents.filter((incident) => !incident.active);
 
-    console.log(`\n  STATUS: ${diag.diagnosisStatus.toUpperCase()}`);
-    console.log(`  SUMMARY: ${diag.summary}`);
+  if (active.length > 0) {
+    console.log(`\n${line}`);
+    console.log(`ACTIVE INCIDENTS (${active.length})`);
+    active.forEach((incident, i) => printIncident(incident, rootDiagnoses.get(incident.id)!, i + 1, divider));
+  }
+  if (resolved.length > 0) {
+    console.log(`\n${line}`);
+    console.log(`RESOLVED INCIDENTS (${resolved.length})`);
+    resolved.forEach((incident, i) => printIncident(incident, rootDiagnoses.get(incident.id)!, active.length + i + 1, divider));
   }
 
   console.log(`\n${line}`);
@@ -142,20 +497,80 @@ function formatTableOutput(result: DiagnosisResult): void {
   console.log(`${line}\n`);
 }
 
-function main(): void {
+/** Effective scoring settings and relevance matrix, globally ("*") and per funnel the config file overrides. */
+function dumpRelevance(configPath?: string): void {
+  const config = configPath ? loadConfigFile(path.resolve(configPath)).causeAnalyzer : undefined;
+  const scopes = [undefined, ...Object.keys(config?.funnels ?? {})];
+
+  const dump = Object.fromEntries(scopes.map((funnelId) => {
+    const cfg = resolveCauseAnalyzerConfig(config, funnelId);
+    const { customStageRelevance: _custom, categories: _categories, ...settings } = cfg;
+    return [funnelId ?? WILDCARD_FUNNEL_ID, { settings, relevance: buildRelevanceMatrix(cfg) }];
+  }));
+  console.log(JSON.stringify(dump, null, 2));
+}
+
+async function main(): Promise<void> {
   try {
     const args = parseArgs(process.argv);
 
+    if (args.dumpRelevance) {
+      dumpRelevance(args.config);
+      process.exit(0);
+    }
+    validateTransitions(args.transitions, args.funnels);
+
     const eventsPath = path.resolve(args.events);
-    const changesPath = path.resolve(args.changes);
+    const changes = args.gitRepo
+      ? await new GitChangeLoader().load({
+        ...(args.config && loadConfigFile(path.resolve(args.config)).deploys),
+        repoPath: path.resolve(args.gitRepo),
+        ...(args.gitSince && { since: args.gitSince }),
+      })
+      : [];
+
+    // Shared by conversion and volume detection; drop thresholds and the significance test are separate
+    const detectorConfig = {
+      ...(args.detector !== undefined && { detector: args.detector }),
+      ...(args.cusumThreshold !== undefined && { cusumThreshold: args.cusumThreshold }),
+      ...(args.cusumDrift !== undefined && { cusumDrift: args.cusumDrift }),
+      ...(args.baselineDays !== undefined && { baselineWindowDays: args.baselineDays }),
+      ...(args.currentDays !== undefined && { currentWindowDays: args.currentDays }),
+      ...(args.seasonality !== undefined && { seasonality: args.seasonality }),
+      ...(args.detectIncreases && { detectIncreases: true }),
+      ...(args.minIncrease !== undefined && { minRelativeIncrease: args.minIncrease }),
+    };
 
     const result = runDiagnosis({
       eventsPath,
-      changesPath,
+      ...(args.changes && { changesPath: path.resolve(args.changes) }),
+      changes,
+      ...(args.funnels && { funnelsPath: path.resolve(args.funnels) }),
+      ...(args.config && { configPath: path.resolve(args.config) }),
+      ...(args.db && { databasePath: path.resolve(args.db) }),
+      ...(args.rankBy && { rankBy: args.rankBy }),
+      detectVolume: args.volume,
+      volumeDetectorConfig: {
+        ...detectorConfig,
+        ...(args.minVolumeDrop !== undefined && { minRelativeDrop: args.minVolumeDrop }),
+      },
+      incidentConfig: {
+        ...(args.incidentWindow !== undefined && { maxOnsetGapDays: args.incidentWindow }),
+        ...(args.minGlobalFunnels !== undefined && { minGlobalFunnels: args.minGlobalFunnels }),
+      },
+      causeAnalyzerConfig: {
+        ...(args.causalWeight !== undefined && { causalWeight: args.causalWeight }),
+      },
+      transitionConfig: {
+        extraTransitions: args.transitions,
+        includeEndToEnd: args.endToEnd,
+      },
       breakDetectorConfig: {
-        ...(args.baselineDays !== undefined && { baselineWindowDays: args.baselineDays }),
-        ...(args.currentDays !== undefined && { currentWindowDays: args.currentDays }),
+        ...detectorConfig,
         ...(args.minDrop !== undefined && { minRelativeDrop: args.minDrop }),
+        ...(args.test !== undefined && { significanceTest: args.test }),
+        ...(args.minVolume !== undefined && { minWindowVolume: args.minVolume }),
+        ...(args.maxPValue !== undefined && { maxPValue: args.maxPValue }),
       },
     });
 
@@ -165,9 +580,9 @@ function main(): void {
       formatTableOutput(result);
     }
 
-    // Exit code: 1 if critical breaks found
+    // Exit code: 1 if critical breaks are still active; resolved ones are history
     const hasCritical = result.diagnoses.some(
-      (d: Diagnosis) => d.break.severity === BreakSeverity.CRITICAL
+      (d: Diagnosis) => d.break.active && d.break.severity === BreakSeverity.CRITICAL
     );
     process.exit(hasCritical ? 1 : 0);
   } catch (err: any) {
@@ -1,51 +1,141 @@
-import { Event, Change, Diagnosis } from "../core/entities";
-import { buildSnapshots, calculateConversionRates } from "../core/engine/FunnelAnalyzer";
-import { detectBreaks, BreakDetectorConfig } from "../core/engine/BreakDetector";
-import { analyzeCauses, CauseAnalyzerConfig } from "../core/engine/CauseAnalyzer";
+import {
+  Event,
+  Change,
+  Diagnosis,
+  DataQualityFinding,
+  FunnelDefinition,
+  GlobalIncident,
+  Incident,
+  IncidentRole,
+} from "../core/entities";
+import { buildSnapshots, calculateConversionRates, TransitionConfig } from "../core/engine/FunnelAnalyzer";
+import { detectBreaks, detectVolumeBreaks, LayeredDetectorConfig } from "../core/engine/BreakDetector";
+import { analyzeCauses, diagnoseSymptom, LayeredCauseAnalyzerConfig } from "../core/engine/CauseAnalyzer";
+import { checkDataQuality, DataQualityConfig } from "../core/engine/DataQualityChecker";
+import { correlateAcrossFunnels, correlateBreaks, IncidentConfig } from "../core/engine/IncidentCorrelator";
+import {
+  BreakRanking,
+  compareBreaks,
+  estimateImpact,
+  finalStageLoss,
+  LayeredImpactConfig,
+} from "../core/engine/ImpactEstimator";
 import { loadEventsFromCsv } from "../data/csv/CsvEventLoader";
 import { loadChangesFromCsv } from "../data/csv/CsvChangeLoader";
+import { loadFunnelDefinitionsFromCsv } from "../data/csv/CsvFunnelLoader";
+import { loadConfigFile } from "../data/config/ConfigFileLoader";
+import { initializeDatabase } from "../storage/Database";
+import { saveDiagnoses } from "./FeedbackService";
 
-export interface DiagnosisServiceConfig {
+export interface PipelineConfig {
+  dataQualityConfig?: Partial<DataQualityConfig>;
+  transitionConfig?: Partial<TransitionConfig>;
+  breakDetectorConfig?: LayeredDetectorConfig;
+  /** Stage volume detection runs unless set to false. */
+  detectVolume?: boolean;
+  volumeDetectorConfig?: LayeredDetectorConfig;
+  incidentConfig?: Partial<IncidentConfig>;
+  causeAnalyzerConfig?: LayeredCauseAnalyzerConfig;
+  /** Stage values for lost revenue, globally and per funnel. */
+  impactConfig?: LayeredImpactConfig;
+  /** Order of diagnoses and incidents (by their root break); detection order by default. */
+  rankBy?: BreakRanking;
+}
+
+export interface DiagnosisServiceConfig extends PipelineConfig {
   eventsPath: string;
-  changesPath: string;
-  breakDetectorConfig?: Partial<BreakDetectorConfig>;
-  causeAnalyzerConfig?: Partial<CauseAnalyzerConfig>;
+  changesPath?: string;
+  /** Changes from other sources, e.g. a ChangeLoader, added to those in changesPath. */
+  changes?: Change[];
+  funnelsPath?: string;
+  /** JSON config file; settings given directly in this config take precedence over it. */
+  configPath?: string;
+  /** SQLite database to store diagnoses in; returned diagnoses then carry ids and earlier feedback. */
+  databasePath?: string;
 }
 
 export interface DiagnosisResult {
+  /**
+   * One per break; breaks carry their incidentId and incidentRole. A symptom's causes are on
+   * the diagnosis of its incident's root, and stored symptoms carry that diagnosis's id.
+   */
   diagnoses: Diagnosis[];
+  incidents: Incident[];
+  globalIncidents: GlobalIncident[];
+  dataQualityFindings: DataQualityFinding[];
   metadata: {
     eventsLoaded: number;
     changesLoaded: number;
+    funnelsDefined: number;
     breaksDetected: number;
+    /** Breaks not yet recovered as of the last data point. */
+    activeBreaks: number;
+    incidentsFound: number;
+    globalIncidentsFound: number;
+    estimatedImpact: ImpactTotals;
     loadErrors: { line: number; message: string }[];
     executionTimeMs: number;
   };
 }
 
+/** Summed over incident roots only: symptoms repeat the downstream losses of their root. */
+export interface ImpactTotals {
+  lostRevenue: number;
+  /** Lost conversions at the last stage each root's impact reaches, by stage. */
+  lostConversions: Record<string, number>;
+}
+
 export function runDiagnosis(config: DiagnosisServiceConfig): DiagnosisResult {
   const startTime = Date.now();
   const loadErrors: { line: number; message: string }[] = [];
 
-  const eventResult = loadEventsFromCsv(config.eventsPath);
+  let funnelDefinitions: FunnelDefinition[] = [];
+  if (config.funnelsPath) {
+    const funnelResult = loadFunnelDefinitionsFromCsv(config.funnelsPath);
+    funnelDefinitions = funnelResult.definitions;
+    loadErrors.push(...funnelResult.errors);
+  }
+
+  const eventResult = loadEventsFromCsv(config.eventsPath, funnelDefinitions);
   const events = eventResult.events;
   loadErrors.push(...eventResult.errors);
 
-  const changeResult = loadChangesFromCsv(config.changesPath);
-  const changes = changeResult.changes;
-  loadErrors.push(...changeResult.errors);
+  const pipelineConfig: PipelineConfig = config.configPath ? withConfigFile(config, config.configPath) : config;
+
+  const changes = [...(config.changes ?? [])];
+  if (config.changesPath) {
+    const changeResult = loadChangesFromCsv(config.changesPath, pipelineConfig.causeAnalyzerConfig?.categories);
+    changes.push(...changeResult.changes);
+    loadErrors.push(...changeResult.errors);
+  }
 
-  const snapshots = buildSnapshots(events);
-  const conversionRates = calculateConversionRates(snapshots);
-  const breaks = detectBreaks(conversionRates, config.breakDetectorConfig);
-  const diagnoses = analyzeCauses(breaks, changes, config.causeAnalyzerConfig);
+  const pipeline = runPipeline(events, changes, funnelDefinitions, pipelineConfig);
+  const { incidents, globalIncidents, dataQualityFindings } = pipeline;
+
+  let diagnoses = pipeline.diagnoses;
+  if (config.databasePath) {
+    const db = initializeDatabase(config.databasePath);
+    try {
+      diagnoses = saveDiagnoses(db, diagnoses);
+    } finally {
+      db.close();
+    }
+  }
 
   return {
     diagnoses,
+    incidents,
+    globalIncidents,
+    dataQualityFindings,
     metadata: {
       eventsLoaded: events.length,
       changesLoaded: changes.length,
-      breaksDetected: breaks.length,
+      funnelsDefined: funnelDefinitions.length,
+      breaksDetected: diagnoses.length,
+      activeBreaks: diagnoses.filter((d) => d.break.active).length,
+      incidentsFound: incidents.length,
+      globalIncidentsFound: globalIncidents.length,
+      estimatedImpact: summarizeImpact(incidents),
       loadErrors,
       executionTimeMs: Date.now() - startTime,
     },
@@ -55,26 +145,108 @@ export function runDiagnosis(config: DiagnosisServiceConfig): DiagnosisResult {
 export function runDiagnosisFromData(
   events: Event[],
   changes: Change[],
-  config?: {
-    breakDetectorConfig?: Partial<BreakDetectorConfig>;
-    causeAnalyzerConfig?: Partial<CauseAnalyzerConfig>;
-  }
+  config?: PipelineConfig & { funnelDefinitions?: FunnelDefinition[] }
 ): DiagnosisResult {
   const startTime = Date.now();
 
-  const snapshots = buildSnapshots(events);
-  const conversionRates = calculateConversionRates(snapshots);
-  const breaks = detectBreaks(conversionRates, config?.breakDetectorConfig);
-  const diagnoses = analyzeCauses(breaks, changes, config?.causeAnalyzerConfig);
+  const funnelDefinitions = config?.funnelDefinitions ?? [];
+  const { diagnoses, incidents, globalIncidents, dataQualityFindings } = runPipeline(events, changes, funnelDefinitions, config ?? {});
 
   return {
     diagnoses,
+    incidents,
+    globalIncidents,
+    dataQualityFindings,
     metadata: {
       eventsLoaded: events.length,
       changesLoaded: changes.length,
-      breaksDetected: breaks.length,
+      funnelsDefined: funnelDefinitions.length,
+      breaksDetected: diagnoses.length,
+      activeBreaks: diagnoses.filter((d) => d.break.active).length,
+      incidentsFound: incidents.length,
+      globalIncidentsFound: globalIncidents.length,
+      estimatedImpact: summarizeImpact(incidents),
       loadErrors: [],
       executionTimeMs: Date.now() - startTime,
     },
   };
 }
+
+function summarizeImpact(incidents: Incident[]): ImpactTotals {
+  const totals: ImpactTotals = { lostRevenue: 0, lostConversions: {} };
+  for (const { root } of incidents) {
+    if (!root.impact) continue;
+    totals.lostRevenue += root.impact.lostRevenue ?? 0;
+    const stages = Object.keys(root.impact.lostByStage);
+    const finalStage = stages[stages.length - 1];
+    totals.lostConversions[finalStage] = (totals.lostConversions[finalStage] ?? 0) + finalStageLoss(root.impact);
+  }
+  return totals;
+}
+
+/** Settings from the file first, then the ones passed in; override maps are replaced, not merged. */
+function withConfigFile(config: PipelineConfig, configPath: string): PipelineConfig {
+  const file = loadConfigFile(configPath);
+  return {
+    ...config,
+    breakDetectorConfig: { ...file.breakDetector, ...config.breakDetectorConfig },
+    volumeDetectorConfig: { ...file.volumeDetector, ...config.volumeDetectorConfig },
+    causeAnalyzerConfig: { ...file.causeAnalyzer, ...config.causeAnalyzerConfig },
+    impactConfig: { ...file.impact, ...config.impactConfig },
+  };
+}
+
+/**
+ * Snapshots -> rates -> data-quality findings -> conversion and volume breaks -> impact
+ * -> global and per-funnel incidents -> diagnoses, ranked as configured.
+ */
+function runPipeline(
+  events: Event[],
+  changes: Change[],
+  funnelDefinitions: FunnelDefinition[],
+  config: PipelineConfig
+): {
+  diagnoses: Diagnosis[];
+  incidents: Incident[];
+  globalIncidents: GlobalIncident[];
+  dataQualityFindings: DataQualityFinding[];
+} {
+  const snapshots = buildSnapshots(events, funnelDefinitions);
+  const conversionRates = calculateConversionRates(snapshots, funnelDefinitions, config.transitionConfig);
+  const dataQualityFindings = checkDataQuality(events, snapshots, conversionRates, config.dataQualityConfig);
+  const breaks = detectBreaks(conversionRates, config.breakDetectorConfig, dataQualityFindings);
+
+  if (config.detectVolume !== false) {
+    breaks.push(...detectVolumeBreaks(snapshots, config.volumeDetectorConfig, dataQualityFindings));
+  }
+
+  const withImpact = estimateImpact(breaks, snapshots, funnelDefinitions, config.impactConfig);
+  const { breaks: globallyTagged, globalIncidents } = correlateAcrossFunnels(withImpact, config.incidentConfig);
+  const incidents = correlateBreaks(globallyTagged, funnelDefinitions, config.incidentConfig);
+  const taggedBreaks = incidents
+    .flatMap((incident) => [incident.root, ...incident.symptoms])
+    .sort((a, b) => a.detectedDate.localeCompare(b.detectedDate));
+
+  // Causes are ranked once per incident, on its root; symptoms refer to the root's diagnosis
+  const rootDiagnoses = new Map(
+    analyzeCauses(
+      taggedBreaks.filter((brk) => brk.incidentRole === IncidentRole.ROOT),
+      changes,
+      config.causeAnalyzerConfig,
+      funnelDefinitions,
+      globalIncidents,
+      { conversionRates, snapshots }
+    ).map((diagnosis) => [diagnosis.break.incidentId, diagnosis])
+  );
+  const diagnoses = taggedBreaks.map((brk) => {
+    const rootDiagnosis = rootDiagnoses.get(brk.incidentId)!;
+    return brk.incidentRole === IncidentRole.ROOT ? rootDiagnosis : diagnoseSymptom(brk, rootDiagnosis);
+  });
+
+  if (config.rankBy && config.rankBy !== "detected") {
+    const compare = compareBreaks(config.rankBy);
+    diagnoses.sort((a, b) => compare(a.break, b.break));
+    incidents.sort((a, b) => compare(a.root, b.root));
+  }
+  return { diagnoses, incidents, globalIncidents, dataQualityFindings };
+}
@@ -0,0 +1,86 @@
+import Database from "better-sqlite3";
+import { CauseFeedback, Diagnosis, FeedbackVerdict, IncidentRole, LabeledCause } from "../core/entities";
+import { createBreakRepository } from "../storage/BreakRepository";
+import { createDiagnosisRepository } from "../storage/DiagnosisRepository";
+import { createFeedbackRepository } from "../storage/FeedbackRepository";
+
+export interface FeedbackInput {
+  diagnosisId: string;
+  /** 1-based position of the cause in the diagnosis ranking. */
+  rank: number;
+  verdict: FeedbackVerdict;
+  note?: string;
+}
+
+/**
+ * Store diagnoses and their breaks. Candidates naming a change that was already reviewed
+ * for the same break, in an earlier diagnosis, carry that feedback. Root diagnoses are
+ * stored first, so symptoms can refer to the stored diagnosis of their incident's root.
+ */
+export function saveDiagnoses(db: Database.Database, diagnoses: Diagnosis[]): Diagnosis[] {
+  const breakRepo = createBreakRepository(db);
+  const diagnosisRepo = createDiagnosisRepository(db);
+  const feedbackRepo = createFeedbackRepository(db);
+
+  const storedBreaks = breakRepo.upsertMany(diagnoses.map((d) => d.break));
+  const saved = new Map<Diagnosis, Diagnosis>();
+  const rootIds = new Map<string, string>();
+  const isSymptom = (diagnosis: Diagnosis) => diagnosis.break.incidentRole === IncidentRole.SYMPTOM;
+
+  const save = (diagnosis: Diagnosis, i: number): Diagnosis => {
+    const rootDiagnosisId = isSymptom(diagnosis) ? rootIds.get(diagnosis.break.incidentId!) : undefined;
+    const stored = diagnosisRepo.insert({ ...diagnosis, break: storedBreaks[i], ...(rootDiagnosisId && { rootDiagnosisId }) });
+
+    const latest = new Map<string, CauseFeedback>();
+    for (const given of feedbackRepo.findByBreak(stored.break.id!)) {
+      latest.set(changeKey(given.changeDate, given.changeCategory, given.changeDescription), given.feedback);
+    }
+    if (latest.size === 0) return stored;
+
+    return {
+      ...stored,
+      causes: stored.causes.map((cause) => {
+        const feedback = latest.get(changeKey(cause.changeDate, cause.changeCategory, cause.changeDescription));
+        return feedback ? { ...cause, feedback } : cause;
+      }),
+    };
+  };
+
+  diagnoses.forEach((diagnosis, i) => {
+    if (isSymptom(diagnosis)) return;
+    const stored = save(diagnosis, i);
+    saved.set(diagnosis, stored);
+    if (diagnosis.break.incidentId) rootIds.set(diagnosis.break.incidentId, stored.id!);
+  });
+  diagnoses.forEach((diagnosis, i) => {
+    if (isSymptom(diagnosis)) saved.set(diagnosis, save(diagnosis, i));
+  });
+  return diagnoses.map((diagnosis) => saved.get(diagnosis)!);
+}
+
+export function findDiagnosis(db: Database.Database, diagnosisId: string): Diagnosis | undefined {
+  return createDiagnosisRepository(db).findById(diagnosisId);
+}
+
+/**
+ * Confirm or reject one ranked cause of a stored diagnosis, replacing earlier feedback on
+ * it. Returns the updated diagnosis, or undefined if the diagnosis or rank does not exist.
+ */
+export function recordFeedback(db: Database.Database, input: FeedbackInput): Diagnosis | undefined {
+  const diagnosisRepo = createDiagnosisRepository(db);
+  const diagnosis = diagnosisRepo.findById(input.diagnosisId);
+  const cause = diagnosis?.causes[input.rank - 1];
+  if (!cause) return undefined;
+
+  createFeedbackRepository(db).record(cause.id!, input.verdict, input.note);
+  return diagnosisRepo.findById(input.diagnosisId);
+}
+
+/** Reviewed causes as a training/evaluation dataset; see LabeledCause. */
+export function exportLabels(db: Database.Database): LabeledCause[] {
+  return createFeedbackRepository(db).findLabeledCauses();
+}
+
+function changeKey(date: string, category: string, description: string): string {
+  return `${date}|${category}|${description}`;
+}
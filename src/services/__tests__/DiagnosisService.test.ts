@@ -2,8 +2,10 @@ import fs from "fs";
 import path from "path";
 import os from "os";
 import { runDiagnosis, runDiagnosisFromData } from "../DiagnosisService";
-import { Diagnosis } from "../../core/entities/Diagnosis";
-import { FunnelStage, ChangeCategory } from "../../core/entities";
+import { BreakType, Diagnosis } from "../../core/entities/Diagnosis";
+import { FunnelStage, ChangeCategory, DataQualityIssue, IncidentRole } from "../../core/entities";
+import { initializeDatabase } from "../../storage/Database";
+import { findDiagnosis } from "../FeedbackService";
 
 describe("DiagnosisService", () => {
   let tmpDir: string;
@@ -71,6 +73,80 @@ describe("DiagnosisService", () => {
     expect(clickToLanding!.break.relativeDrop).toBeGreaterThan(0.15);
   });
 
+  it("should group the landing cascade into one incident rooted at click -> landing", () => {
+    const eventsPath = writeFile("events.csv", generateEventsCsv(18, 5, 900, 400));
+    const changesPath = writeFile("changes.csv", "date,funnel_id,category,description,severity,affected_stages\n");
+
+    const result = runDiagnosis({ eventsPath, changesPath });
+
+    expect(result.incidents).toHaveLength(1);
+    expect(result.metadata.incidentsFound).toBe(1);
+    const [incident] = result.incidents;
+    expect(incident.root.fromStage).toBe(FunnelStage.CLICK);
+    expect(incident.root.toStage).toBe(FunnelStage.LANDING);
+    expect(incident.symptoms.length).toBe(result.metadata.breaksDetected - 1);
+    expect(result.diagnoses.every((d: Diagnosis) => d.break.incidentId === incident.id)).toBe(true);
+  });
+
+  it("should rank causes on the incident root only and point symptoms at its diagnosis", () => {
+    const eventsPath = writeFile("events.csv", generateEventsCsv(18, 5, 900, 400));
+    const changesPath = writeFile(
+      "changes.csv",
+      `date,funnel_id,category,description,severity,affected_stages
+2025-01-17,test-funnel,site,Redesigned landing page,4,landing;lead`
+    );
+    const databasePath = path.join(tmpDir, "diagnoses.db");
+
+    const result = runDiagnosis({ eventsPath, changesPath, databasePath });
+
+    const root = result.diagnoses.find((d: Diagnosis) => d.break.incidentRole === IncidentRole.ROOT)!;
+    const symptoms = result.diagnoses.filter((d: Diagnosis) => d.break.incidentRole === IncidentRole.SYMPTOM);
+    expect(root.causes[0].changeDescription).toBe("Redesigned landing page");
+    expect(root.rootDiagnosisId).toBeUndefined();
+    expect(symptoms.length).toBeGreaterThan(0);
+    for (const symptom of symptoms) {
+      expect(symptom.causes).toEqual([]);
+      expect(symptom.diagnosisStatus).toBe(root.diagnosisStatus);
+      expect(symptom.rootDiagnosisId).toBe(root.id);
+      expect(JSON.stringify(symptom)).not.toContain("Redesigned landing page");
+      expect(symptom.summary).toMatch(/Downstream symptom of the click -> landing drop on 2025-01-\d\d; see its diagnosis for causes\.$/);
+    }
+
+    const db = initializeDatabase(databasePath);
+    try {
+      const storedSymptom = findDiagnosis(db, symptoms[0].id!)!;
+      expect(storedSymptom.rootDiagnosisId).toBe(root.id);
+      expect(findDiagnosis(db, storedSymptom.rootDiagnosisId!)!.causes).toEqual([
+        expect.objectContaining({ changeDescription: "Redesigned landing page" }),
+      ]);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("should store diagnoses whose changes carry CSV ids", () => {
+    const eventsPath = writeFile("events.csv", generateEventsCsv(18, 5, 900, 400));
+    const changesPath = writeFile(
+      "changes.csv",
+      `id,date,funnel_id,category,description,severity,affected_stages,reverts
+c1,2025-01-10,test-funnel,tracking,Pixel update,2,,
+c2,2025-01-17,test-funnel,site,Redesigned landing page,4,landing;lead,
+c3,2025-01-18,test-funnel,tracking,Roll back pixel update,2,,c1`
+    );
+    const databasePath = path.join(tmpDir, "diagnoses.db");
+
+    const result = runDiagnosis({ eventsPath, changesPath, databasePath });
+
+    const root = result.diagnoses.find((d: Diagnosis) => d.break.incidentRole === IncidentRole.ROOT)!;
+    expect(root.causes.map((c) => c.changeId)).toContain("c2");
+    const db = initializeDatabase(databasePath);
+    try {
+      expect(findDiagnosis(db, root.id!)!.causes).toEqual(root.causes);
+    } finally {
+      db.close();
+    }
+  });
+
   it("should populate metadata correctly", () => {
     const eventsPath = writeFile("events.csv", generateEventsCsv(18, 5, 900, 400));
     const changesPath = writeFile(
@@ -83,9 +159,32 @@ describe("DiagnosisService", () => {
 
     expect(result.metadata.eventsLoaded).toBe(115);
     expect(result.metadata.changesLoaded).toBe(1);
+    // The drop runs through the last day, so every break is still active
+    expect(result.metadata.activeBreaks).toBe(result.metadata.breaksDetected);
     expect(typeof result.metadata.executionTimeMs).toBe("number");
   });
 
+  it("should diagnose against changes passed in without a changes CSV", () => {
+    const eventsPath = writeFile("events.csv", generateEventsCsv(18, 5, 900, 400));
+    const deploy = {
+      id: "git:0123456789ab:*",
+      date: "2025-01-17",
+      funnelId: "*",
+      category: ChangeCategory.SITE,
+      description: "Release v1.1.0 (3 commits, 240 lines in 4 files)",
+      severity: 3,
+      affectedStages: ["landing"],
+    };
+
+    const result = runDiagnosis({ eventsPath, changes: [deploy] });
+
+    expect(result.metadata.changesLoaded).toBe(1);
+    const clickToLanding = result.diagnoses.find(
+      (d: Diagnosis) => d.break.fromStage === FunnelStage.CLICK && d.break.toStage === FunnelStage.LANDING
+    );
+    expect(clickToLanding!.causes[0].changeId).toBe(deploy.id);
+  });
+
   it("should propagate load errors in metadata", () => {
     const eventsPath = writeFile(
       "events.csv",
@@ -146,6 +245,94 @@ bad-date,test-funnel,impression,1000,meta
     );
   });
 
+  it("should layer a config file under the settings passed in", () => {
+    const eventsPath = writeFile("events.csv", generateEventsCsv(18, 5, 900, 800));
+    const changesPath = writeFile("changes.csv", "date,funnel_id,category,description,severity,affected_stages\n");
+    const configPath = writeFile("config.json", JSON.stringify({
+      breakDetector: {
+        minRelativeDrop: 0.5,
+        funnels: { "test-funnel": { transitions: { "click->landing": { minRelativeDrop: 0.05 } } } },
+      },
+    }));
+
+    const fromFile = runDiagnosis({ eventsPath, changesPath, configPath, detectVolume: false });
+    const clickToLanding = fromFile.diagnoses.map((d) => d.break);
+    expect(clickToLanding.length).toBeGreaterThan(0);
+    expect(clickToLanding.every((b) => b.fromStage === FunnelStage.CLICK && b.toStage === FunnelStage.LANDING)).toBe(true);
+    expect(clickToLanding[0].detectorConfig!.layers).toEqual([
+      "funnels.test-funnel",
+      "funnels.test-funnel.transitions.click->landing",
+    ]);
+
+    const overridden = runDiagnosis({
+      eventsPath,
+      changesPath,
+      configPath,
+      detectVolume: false,
+      breakDetectorConfig: { funnels: {} },
+    });
+    expect(overridden.diagnoses).toHaveLength(0);
+  });
+
+  it("should estimate impact and rank diagnoses by it", () => {
+    const eventsPath = writeFile("events.csv", generateEventsCsv(18, 5, 900, 400));
+    const changesPath = writeFile("changes.csv", "date,funnel_id,category,description,severity,affected_stages\n");
+
+    const result = runDiagnosis({
+      eventsPath,
+      changesPath,
+      impactConfig: { stageValues: { purchase: 50 } },
+      rankBy: "impact",
+    });
+
+    const drops = result.diagnoses.map((d) => d.break).filter((b) => b.impact);
+    expect(drops.length).toBeGreaterThan(0);
+    const revenues = result.diagnoses.map((d) => d.break.impact?.lostRevenue ?? 0);
+    expect(revenues).toEqual([...revenues].sort((a, b) => b - a));
+
+    const [incident] = result.incidents;
+    expect(result.metadata.estimatedImpact.lostRevenue).toBeCloseTo(incident.root.impact!.lostRevenue!);
+    expect(result.metadata.estimatedImpact.lostConversions.purchase).toBeGreaterThan(0);
+  });
+
+  it("should include stage volume breaks unless disabled", () => {
+    const eventsPath = writeFile("events.csv", generateEventsCsv(18, 5, 900, 400));
+    const changesPath = writeFile(
+      "changes.csv",
+      `date,funnel_id,category,description,severity,affected_stages
+2025-01-17,test-funnel,site,Change,3,`
+    );
+
+    const withVolume = runDiagnosis({ eventsPath, changesPath });
+    const withoutVolume = runDiagnosis({ eventsPath, changesPath, detectVolume: false });
+
+    const landingVolume = withVolume.diagnoses.find(
+      (d: Diagnosis) => d.break.breakType === BreakType.VOLUME && d.break.fromStage === FunnelStage.LANDING
+    );
+    expect(landingVolume).toBeDefined();
+    expect(withoutVolume.diagnoses.every((d: Diagnosis) => d.break.breakType === BreakType.CONVERSION)).toBe(true);
+    expect(withVolume.metadata.breaksDetected).toBeGreaterThan(withoutVolume.metadata.breaksDetected);
+  });
+
+  it("should report data-quality findings alongside diagnoses", () => {
+    const csv = generateEventsCsv(18, 5, 900, 400)
+      .split("\n")
+      .filter((row) => !row.startsWith("2025-01-05") && !row.startsWith("2025-01-06"))
+      .join("\n");
+    const eventsPath = writeFile("events.csv", csv);
+    const changesPath = writeFile(
+      "changes.csv",
+      `date,funnel_id,category,description,severity,affected_stages
+2025-01-17,test-funnel,site,Change,3,`
+    );
+
+    const result = runDiagnosis({ eventsPath, changesPath });
+
+    expect(result.dataQualityFindings).toHaveLength(1);
+    expect(result.dataQualityFindings[0].issue).toBe(DataQualityIssue.MISSING_DATES);
+    expect(result.dataQualityFindings[0].startDate).toBe("2025-01-05");
+  });
+
   describe("runFromData", () => {
     it("should run the pipeline from in-memory data", () => {
       const events = [];
@@ -181,5 +368,36 @@ bad-date,test-funnel,impression,1000,meta
       expect(result.metadata.changesLoaded).toBe(1);
       expect(result.diagnoses.length).toBeGreaterThan(0);
     });
+
+    it("should raise a global incident when several funnels break together", () => {
+      const events = [];
+      const base = new Date("2025-01-01");
+
+      for (const funnelId of ["f1", "f2", "f3"]) {
+        for (let d = 0; d < 20; d++) {
+          const date = new Date(base);
+          date.setDate(base.getDate() + d);
+          const dateStr = date.toISOString().split("T")[0];
+          const landing = d < 15 ? 900 : 400;
+
+          events.push({ date: dateStr, funnelId, stage: FunnelStage.CLICK, count: 1200 });
+          events.push({ date: dateStr, funnelId, stage: FunnelStage.LANDING, count: landing });
+        }
+      }
+
+      const changes = [
+        { date: "2025-01-14", funnelId: "*", category: ChangeCategory.SITE, description: "Site-wide CDN migration", severity: 3 },
+      ];
+
+      const result = runDiagnosisFromData(events, changes, { detectVolume: false });
+
+      expect(result.globalIncidents).toHaveLength(1);
+      expect(result.globalIncidents[0].funnelIds).toEqual(["f1", "f2", "f3"]);
+      expect(result.metadata.globalIncidentsFound).toBe(1);
+      for (const diagnosis of result.diagnoses) {
+        expect(diagnosis.break.globalIncidentId).toBe(result.globalIncidents[0].id);
+        expect(diagnosis.causes[0].scoreBreakdown.wildcardBoost).toBeCloseTo(0.1);
+      }
+    });
   });
 });
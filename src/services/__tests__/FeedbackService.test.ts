@@ -0,0 +1,87 @@
+import { initializeDatabase } from "../../storage/Database";
+import { exportLabels, findDiagnosis, recordFeedback, saveDiagnoses } from "../FeedbackService";
+import { runDiagnosisFromData } from "../DiagnosisService";
+import { ChangeCategory, Diagnosis, FeedbackVerdict, FunnelStage } from "../../core/entities";
+import type Database from "better-sqlite3";
+
+describe("FeedbackService", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = initializeDatabase(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  /** Landing rate falls from 75% to 33% on day 18, right after a site and an ad change. */
+  function diagnose(): Diagnosis[] {
+    const events = [];
+    for (let d = 0; d < 23; d++) {
+      const date = new Date(Date.UTC(2025, 0, 1 + d)).toISOString().slice(0, 10);
+      events.push({ date, funnelId: "f", stage: FunnelStage.CLICK, count: 1200 });
+      events.push({ date, funnelId: "f", stage: FunnelStage.LANDING, count: d < 18 ? 900 : 400 });
+    }
+    const changes = [
+      { date: "2025-01-18", funnelId: "f", category: ChangeCategory.SITE, description: "New landing page", severity: 4 },
+      { date: "2025-01-17", funnelId: "f", category: ChangeCategory.AD, description: "New ad creative", severity: 3 },
+    ];
+    return runDiagnosisFromData(events, changes, { detectVolume: false }).diagnoses;
+  }
+
+  it("should store diagnoses with ids", () => {
+    const [saved] = saveDiagnoses(db, diagnose());
+
+    expect(saved.id).toBeDefined();
+    expect(saved.break.id).toBeDefined();
+    expect(findDiagnosis(db, saved.id!)!.causes.map((c) => c.changeDescription)).toEqual(
+      saved.causes.map((c) => c.changeDescription)
+    );
+  });
+
+  it("should record feedback by rank and show it in later diagnoses of the same break", () => {
+    const [first] = saveDiagnoses(db, diagnose());
+    const confirmedCause = first.causes[1];
+
+    const updated = recordFeedback(db, {
+      diagnosisId: first.id!,
+      rank: 2,
+      verdict: FeedbackVerdict.CONFIRMED,
+      note: "Ad went live with a broken URL",
+    });
+    expect(updated!.causes[1].feedback!.verdict).toBe(FeedbackVerdict.CONFIRMED);
+
+    const [later] = saveDiagnoses(db, diagnose());
+    expect(later.id).not.toBe(first.id);
+    expect(later.break.id).toBe(first.break.id);
+    const verified = later.causes.find((c) => c.feedback?.verdict === FeedbackVerdict.CONFIRMED);
+    expect(verified!.changeDescription).toBe(confirmedCause.changeDescription);
+    expect(verified!.feedback!.note).toBe("Ad went live with a broken URL");
+  });
+
+  it("should return undefined for an unknown diagnosis or rank", () => {
+    const [saved] = saveDiagnoses(db, diagnose());
+
+    expect(recordFeedback(db, { diagnosisId: "999", rank: 1, verdict: FeedbackVerdict.REJECTED })).toBeUndefined();
+    expect(recordFeedback(db, { diagnosisId: saved.id!, rank: 9, verdict: FeedbackVerdict.REJECTED })).toBeUndefined();
+    expect(exportLabels(db)).toEqual([]);
+  });
+
+  it("should export confirmed labels with the scores they were ranked by", () => {
+    const [saved] = saveDiagnoses(db, diagnose());
+    recordFeedback(db, { diagnosisId: saved.id!, rank: 1, verdict: FeedbackVerdict.CONFIRMED });
+
+    const labels = exportLabels(db);
+
+    expect(labels).toHaveLength(saved.causes.length);
+    expect(labels[0]).toMatchObject({
+      diagnosisId: saved.id,
+      rank: 1,
+      confidence: saved.causes[0].confidence,
+      temporalScore: saved.causes[0].scoreBreakdown.temporalScore,
+      label: 1,
+    });
+    expect(labels.slice(1).every((l) => l.label === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import Database from "better-sqlite3";
+import { Break, BreakDirection, BreakSeverity, BreakType, TransitionKind } from "../core/entities";
+
+export interface BreakRepository {
+  upsertMany(breaks: Break[]): Break[];
+  findActive(): Break[];
+  findByFunnel(funnelId: string): Break[];
+  findById(id: string): Break | undefined;
+}
+
+export function createBreakRepository(db: Database.Database): BreakRepository {
+  // A break is identified by its onset; later runs refresh its stats and lifecycle
+  const upsertStmt = db.prepare(`
+    INSERT INTO breaks (
+      break_type, funnel_id, from_stage, to_stage, transition_kind, direction,
+      detected_date, onset_date, last_seen_date, recovery_date, duration_days, active,
+      baseline_rate, expected_rate, current_rate, absolute_drop, relative_drop,
+      z_score, p_value, ci_lower, ci_upper, severity
+    ) VALUES (
+      @breakType, @funnelId, @fromStage, @toStage, @transitionKind, @direction,
+      @detectedDate, @onsetDate, @lastSeenDate, @recoveryDate, @durationDays, @active,
+      @baselineRate, @expectedRate, @currentRate, @absoluteDrop, @relativeDrop,
+      @zScore, @pValue, @ciLower, @ciUpper, @severity
+    )
+    ON CONFLICT(break_type, funnel_id, from_stage, to_stage, direction, onset_date) DO UPDATE SET
+      transition_kind = excluded.transition_kind,
+      detected_date   = excluded.detected_date,
+      last_seen_date  = excluded.last_seen_date,
+      recovery_date   = excluded.recovery_date,
+      duration_days   = excluded.duration_days,
+      active          = excluded.active,
+      baseline_rate   = excluded.baseline_rate,
+      expected_rate   = excluded.expected_rate,
+      current_rate    = excluded.current_rate,
+      absolute_drop   = excluded.absolute_drop,
+      relative_drop   = excluded.relative_drop,
+      z_score         = excluded.z_score,
+      p_value         = excluded.p_value,
+      ci_lower        = excluded.ci_lower,
+      ci_upper        = excluded.ci_upper,
+      severity        = excluded.severity
+    RETURNING id
+  `);
+  const selectActiveStmt = db.prepare(`
+    SELECT * FROM breaks WHERE active = 1 ORDER BY onset_date, funnel_id
+  `);
+  const selectByFunnelStmt = db.prepare(`
+    SELECT * FROM breaks WHERE funnel_id = ? ORDER BY onset_date
+  `);
+  const selectByIdStmt = db.prepare(`
+    SELECT * FROM breaks WHERE id = ?
+  `);
+
+  /**
+   * Insert new breaks; update lifecycle and stats of breaks already stored for the same
+   * onset. Returns the breaks with their stored ids.
+   */
+  const upsertMany = db.transaction((breaks: Break[]): Break[] => {
+    return breaks.map((brk) => {
+      const { id } = upsertStmt.get({
+        breakType: brk.breakType,
+        funnelId: brk.funnelId,
+        fromStage: brk.fromStage,
+        toStage: brk.toStage,
+        transitionKind: brk.transitionKind,
+        direction: brk.direction,
+        detectedDate: brk.detectedDate,
+        onsetDate: brk.onsetDate,
+        lastSeenDate: brk.lastSeenDate,
+        recoveryDate: brk.recoveryDate ?? null,
+        durationDays: brk.durationDays,
+        active: brk.active ? 1 : 0,
+        baselineRate: brk.baselineRate,
+        expectedRate: brk.expectedRate,
+        currentRate: brk.currentRate,
+        absoluteDrop: brk.absoluteDrop,
+        relativeDrop: brk.relativeDrop,
+        zScore: brk.zScore,
+        pValue: brk.pValue ?? null,
+        ciLower: brk.confidenceInterval?.lower ?? null,
+        ciUpper: brk.confidenceInterval?.upper ?? null,
+        severity: brk.severity,
+      }) as { id: number };
+      return { ...brk, id: String(id) };
+    });
+  });
+
+  function findActive(): Break[] {
+    return mapRows(selectActiveStmt.all() as any[]);
+  }
+
+  function findByFunnel(funnelId: string): Break[] {
+    return mapRows(selectByFunnelStmt.all(funnelId) as any[]);
+  }
+
+  function findById(id: string): Break | undefined {
+    const row = selectByIdStmt.get(id);
+    return row ? mapRows([row])[0] : undefined;
+  }
+
+  return { upsertMany, findActive, findByFunnel, findById };
+}
+
+function mapRows(rows: any[]): Break[] {
+  return rows.map((r) => ({
+    id: String(r.id),
+    breakType: r.break_type as BreakType,
+    funnelId: r.funnel_id,
+    fromStage: r.from_stage,
+    toStage: r.to_stage,
+    transitionKind: r.transition_kind as TransitionKind,
+    direction: r.direction as BreakDirection,
+    detectedDate: r.detected_date,
+    onsetDate: r.onset_date,
+    lastSeenDate: r.last_seen_date,
+    ...(r.recovery_date !== null && { recoveryDate: r.recovery_date }),
+    durationDays: r.duration_days,
+    active: r.active === 1,
+    baselineRate: r.baseline_rate,
+    expectedRate: r.expected_rate,
+    currentRate: r.current_rate,
+    absoluteDrop: r.absolute_drop,
+    relativeDrop: r.relative_drop,
+    zScore: r.z_score,
+    severity: r.severity as BreakSeverity,
+    ...(r.p_value !== null && { pValue: r.p_value }),
+    ...(r.ci_lower !== null && { confidenceInterval: { lower: r.ci_lower, upper: r.ci_upper } }),
+  }));
+}
@@ -1,39 +1,83 @@
 import Database from "better-sqlite3";
-import { Change, ChangeCategory } from "../core/entities";
+import { Change } from "../core/entities";
 
-export function createChangeRepository(db: Database.Database) {
+export interface ChangeRepository {
+  insertMany(changes: Change[]): Change[];
+  findByFunnel(funnelId: string): Change[];
+  findByDateRange(funnelId: string, startDate: string, endDate: string): Change[];
+}
+
+export function createChangeRepository(db: Database.Database): ChangeRepository {
   const insertStmt = db.prepare(`
-    INSERT INTO changes (date, funnel_id, category, description, severity, affected_stages)
-    VALUES (@date, @funnelId, @category, @description, @severity, @affectedStages)
+    INSERT INTO changes (
+      date, funnel_id, category, description, severity, affected_stages,
+      end_date, rollout_percent, reverts_change_id, external_id, reverts_ref
+    ) VALUES (
+      @date, @funnelId, @category, @description, @severity, @affectedStages,
+      @endDate, @rolloutPercent, @revertsChangeId, @externalId, @revertsRef
+    )
+  `);
+  const selectByExternalIdStmt = db.prepare(`
+    SELECT id FROM changes WHERE external_id = ? ORDER BY id DESC LIMIT 1
+  `);
+  const selectByIdStmt = db.prepare(`
+    SELECT id FROM changes WHERE id = ?
   `);
   const selectByFunnelStmt = db.prepare(`
     SELECT * FROM changes WHERE funnel_id = ? OR funnel_id = '*' ORDER BY date
   `);
   const selectByDateRangeStmt = db.prepare(`
     SELECT * FROM changes
-    WHERE (funnel_id = ? OR funnel_id = '*') AND date BETWEEN ? AND ?
+    WHERE (funnel_id = ? OR funnel_id = '*') AND date <= ? AND COALESCE(end_date, date) >= ?
     ORDER BY date
   `);
 
-  const insertMany = db.transaction((changes: Change[]) => {
-    for (const chg of changes) {
-      insertStmt.run({
+  /** Stored id of the change a loader id (or stored id) names, if it was stored. */
+  function resolveStoredId(changeId: string, batchIds: Map<string, string>): string | undefined {
+    const inBatch = batchIds.get(changeId);
+    if (inBatch !== undefined) return inBatch;
+    const byExternalId = selectByExternalIdStmt.get(changeId) as { id: number } | undefined;
+    if (byExternalId) return String(byExternalId.id);
+    const byId = /^\d+$/.test(changeId) ? selectByIdStmt.get(Number(changeId)) as { id: number } | undefined : undefined;
+    return byId ? String(byId.id) : undefined;
+  }
+
+  /**
+   * Returns the changes with their stored ids; their loader ids (e.g. from the CSV id column)
+   * are kept as external ids. A revertsChangeId is pointed at the stored id of the change it
+   * names, in the batch or stored before; a target that was never stored keeps its raw id.
+   */
+  const insertMany = db.transaction((changes: Change[]): Change[] => {
+    const storedIds = new Map<string, string>();
+    return changes.map((chg) => {
+      const revertsStoredId = chg.revertsChangeId !== undefined ? resolveStoredId(chg.revertsChangeId, storedIds) : undefined;
+      const revertsChangeId = revertsStoredId ?? chg.revertsChangeId;
+      const { lastInsertRowid } = insertStmt.run({
         date: chg.date,
         funnelId: chg.funnelId,
         category: chg.category,
         description: chg.description,
         severity: chg.severity,
         affectedStages: chg.affectedStages ? chg.affectedStages.join(";") : null,
+        endDate: chg.endDate ?? null,
+        rolloutPercent: chg.rolloutPercent ?? null,
+        revertsChangeId: revertsStoredId ?? null,
+        externalId: chg.id ?? null,
+        revertsRef: revertsStoredId === undefined ? chg.revertsChangeId ?? null : null,
       });
-    }
+      const id = String(lastInsertRowid);
+      if (chg.id !== undefined) storedIds.set(chg.id, id);
+      return { ...chg, id, ...(revertsChangeId !== undefined && { revertsChangeId }) };
+    });
   });
 
   function findByFunnel(funnelId: string): Change[] {
     return mapRows(selectByFunnelStmt.all(funnelId) as any[]);
   }
 
+  /** Changes in effect at any point of the range, including ranged changes that started before it. */
   function findByDateRange(funnelId: string, startDate: string, endDate: string): Change[] {
-    return mapRows(selectByDateRangeStmt.all(funnelId, startDate, endDate) as any[]);
+    return mapRows(selectByDateRangeStmt.all(funnelId, endDate, startDate) as any[]);
   }
 
   return { insertMany, findByFunnel, findByDateRange };
@@ -44,11 +88,15 @@ function mapRows(rows: any[]): Change[] {
     id: String(r.id),
     date: r.date,
     funnelId: r.funnel_id,
-    category: r.category as ChangeCategory,
+    category: r.category,
     description: r.description,
     severity: r.severity,
     affectedStages: r.affected_stages
       ? r.affected_stages.split(";").filter(Boolean)
       : undefined,
+    ...(r.end_date !== null && { endDate: r.end_date }),
+    ...(r.rollout_percent !== null && { rolloutPercent: r.rollout_percent }),
+    ...(r.reverts_change_id !== null && { revertsChangeId: String(r.reverts_change_id) }),
+    ...(r.reverts_ref !== null && { revertsChangeId: r.reverts_ref }),
   }));
 }
@@ -1,16 +1,165 @@
 import Database from "better-sqlite3";
+import { STAGE_ORDER, WILDCARD_FUNNEL_ID } from "../core/entities";
+
+/**
+ * Steps bringing a database created by an earlier version up to the current schema, in
+ * order; PRAGMA user_version counts the steps applied. Steps must tolerate databases that
+ * already have some of their columns, since user_version was not set before the first one.
+ */
+const MIGRATIONS: ((db: Database.Database) => void)[] = [
+  // Break lifecycle and the change snapshot on cause candidates
+  (db) => {
+    addMissingColumns(db, "breaks", {
+      break_type: "TEXT NOT NULL DEFAULT 'conversion' CHECK(break_type IN ('conversion','volume'))",
+      transition_kind: "TEXT NOT NULL DEFAULT 'adjacent' CHECK(transition_kind IN ('adjacent','skip','end_to_end','stage'))",
+      direction: "TEXT NOT NULL DEFAULT 'drop' CHECK(direction IN ('drop','increase'))",
+      onset_date: "TEXT NOT NULL DEFAULT ''",
+      last_seen_date: "TEXT NOT NULL DEFAULT ''",
+      recovery_date: "TEXT",
+      duration_days: "INTEGER NOT NULL DEFAULT 1 CHECK(duration_days >= 0)",
+      // Breaks stored before lifecycle tracking have no recovery to go by; runs re-detect the ongoing ones
+      active: "INTEGER NOT NULL DEFAULT 0 CHECK(active IN (0,1))",
+      expected_rate: "REAL",
+      p_value: "REAL",
+      ci_lower: "REAL",
+      ci_upper: "REAL",
+    });
+    db.exec(`
+      UPDATE breaks SET onset_date = detected_date WHERE onset_date = '';
+      UPDATE breaks SET last_seen_date = detected_date WHERE last_seen_date = '';
+      UPDATE breaks SET expected_rate = baseline_rate WHERE expected_rate IS NULL;
+
+      -- Breaks are now identified by their onset, which upserts rely on
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_breaks_onset
+        ON breaks(break_type, funnel_id, from_stage, to_stage, direction, onset_date);
+    `);
+
+    addMissingColumns(db, "cause_candidates", {
+      change_date: "TEXT NOT NULL DEFAULT ''",
+      change_category: "TEXT NOT NULL DEFAULT ''",
+      change_description: "TEXT NOT NULL DEFAULT ''",
+      change_severity: "INTEGER NOT NULL DEFAULT 0",
+      wildcard_boost: "REAL NOT NULL DEFAULT 0",
+      causal_score: "REAL",
+    });
+    db.exec(`
+      UPDATE cause_candidates SET
+        change_date        = (SELECT date FROM changes WHERE id = change_id),
+        change_category    = (SELECT category FROM changes WHERE id = change_id),
+        change_description = (SELECT description FROM changes WHERE id = change_id),
+        change_severity    = (SELECT severity FROM changes WHERE id = change_id)
+      WHERE change_date = '' AND change_id IN (SELECT id FROM changes);
+    `);
+  },
+  // Ranged, partial and reverting changes
+  (db) => {
+    addMissingColumns(db, "changes", {
+      end_date: "TEXT CHECK(end_date IS NULL OR end_date >= date)",
+      rollout_percent: "REAL CHECK(rollout_percent IS NULL OR (rollout_percent > 0 AND rollout_percent <= 100))",
+      reverts_change_id: "INTEGER REFERENCES changes(id)",
+    });
+    addMissingColumns(db, "cause_candidates", {
+      revert_boost: "REAL",
+      rollout_factor: "REAL",
+      revert_date: "TEXT",
+    });
+  },
+  // Categories and stages are open-ended; drop the CHECKs of the first release's fixed lists
+  (db) => {
+    rebuildTable(db, "changes", `
+      id                INTEGER PRIMARY KEY AUTOINCREMENT,
+      date              TEXT    NOT NULL,
+      funnel_id         TEXT    NOT NULL,
+      category          TEXT    NOT NULL,
+      description       TEXT    NOT NULL,
+      severity          INTEGER NOT NULL CHECK(severity BETWEEN 1 AND 5),
+      affected_stages   TEXT,
+      end_date          TEXT    CHECK(end_date IS NULL OR end_date >= date),
+      rollout_percent   REAL    CHECK(rollout_percent IS NULL OR (rollout_percent > 0 AND rollout_percent <= 100)),
+      reverts_change_id INTEGER REFERENCES changes(id),
+      created_at        TEXT    NOT NULL DEFAULT (datetime('now'))
+    `);
+    rebuildTable(db, "events", `
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      date        TEXT    NOT NULL,
+      funnel_id   TEXT    NOT NULL,
+      stage       TEXT    NOT NULL,
+      count       INTEGER NOT NULL CHECK(count >= 0),
+      source      TEXT    DEFAULT '',
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(date, funnel_id, stage, source)
+    `);
+  },
+  // Symptom diagnoses point at their incident root's instead of ranking causes
+  (db) => {
+    addMissingColumns(db, "diagnoses", {
+      root_diagnosis_id: "INTEGER REFERENCES diagnoses(id)",
+    });
+  },
+  // Candidates keep the change id their loader gave, e.g. a CSV id or "git:<sha>:<funnel>"
+  (db) => {
+    addMissingColumns(db, "cause_candidates", { change_ref: "TEXT" });
+    db.exec("UPDATE cause_candidates SET change_ref = CAST(change_id AS TEXT) WHERE change_id IS NOT NULL AND change_ref IS NULL");
+  },
+  // Changes keep their loader id, and the loader id of a revert target that was never stored
+  (db) => {
+    addMissingColumns(db, "changes", { external_id: "TEXT", reverts_ref: "TEXT" });
+  },
+  // Breaks are identified by their onset; drop the first release's UNIQUE on the detected date,
+  // which rejects a volume and a conversion break, or a drop and an increase, found the same day
+  (db) => {
+    rebuildTable(db, "breaks", `
+      id              INTEGER PRIMARY KEY AUTOINCREMENT,
+      break_type      TEXT    NOT NULL DEFAULT 'conversion' CHECK(break_type IN ('conversion','volume')),
+      funnel_id       TEXT    NOT NULL,
+      from_stage      TEXT    NOT NULL,
+      to_stage        TEXT    NOT NULL,
+      transition_kind TEXT    NOT NULL DEFAULT 'adjacent' CHECK(transition_kind IN ('adjacent','skip','end_to_end','stage')),
+      direction       TEXT    NOT NULL DEFAULT 'drop' CHECK(direction IN ('drop','increase')),
+      detected_date   TEXT    NOT NULL,
+      onset_date      TEXT    NOT NULL,
+      last_seen_date  TEXT    NOT NULL,
+      recovery_date   TEXT,
+      duration_days   INTEGER NOT NULL CHECK(duration_days >= 0),
+      active          INTEGER NOT NULL DEFAULT 1 CHECK(active IN (0,1)),
+      baseline_rate   REAL    NOT NULL,
+      expected_rate   REAL    NOT NULL,
+      current_rate    REAL    NOT NULL,
+      absolute_drop   REAL    NOT NULL,
+      relative_drop   REAL    NOT NULL,
+      z_score         REAL    NOT NULL,
+      p_value         REAL,
+      ci_lower        REAL,
+      ci_upper        REAL,
+      severity        TEXT    NOT NULL CHECK(severity IN ('warning','significant','critical')),
+      created_at      TEXT    NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(break_type, funnel_id, from_stage, to_stage, direction, onset_date)
+    `);
+  },
+];
 
 export function initializeDatabase(dbPath: string): Database.Database {
   const db = new Database(dbPath);
 
   db.pragma("journal_mode = WAL");
 
+  const isNew = !db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'breaks'").get();
+  if (!isNew) migrate(db);
+
   db.exec(`
+    CREATE TABLE IF NOT EXISTS funnel_stages (
+      funnel_id   TEXT    NOT NULL,
+      stage       TEXT    NOT NULL,
+      position    INTEGER NOT NULL CHECK(position >= 0),
+      PRIMARY KEY(funnel_id, stage),
+      UNIQUE(funnel_id, position)
+    );
+
     CREATE TABLE IF NOT EXISTS events (
       id          INTEGER PRIMARY KEY AUTOINCREMENT,
       date        TEXT    NOT NULL,
       funnel_id   TEXT    NOT NULL,
-      stage       TEXT    NOT NULL CHECK(stage IN ('impression','click','landing','lead','purchase')),
+      stage       TEXT    NOT NULL,
       count       INTEGER NOT NULL CHECK(count >= 0),
       source      TEXT    DEFAULT '',
       created_at  TEXT    NOT NULL DEFAULT (datetime('now')),
@@ -23,15 +172,35 @@ export function initializeDatabase(dbPath: string): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_events_date
       ON events(date);
 
+    -- Stage must belong to the funnel's definition, or to the '*' default when it has none
+    CREATE TRIGGER IF NOT EXISTS trg_events_stage_check
+    BEFORE INSERT ON events
+    WHEN NOT EXISTS (
+      SELECT 1 FROM funnel_stages
+      WHERE stage = NEW.stage
+        AND funnel_id = COALESCE(
+          (SELECT funnel_id FROM funnel_stages WHERE funnel_id = NEW.funnel_id LIMIT 1),
+          '*'
+        )
+    )
+    BEGIN
+      SELECT RAISE(ABORT, 'stage is not defined for this funnel');
+    END;
+
     CREATE TABLE IF NOT EXISTS changes (
-      id              INTEGER PRIMARY KEY AUTOINCREMENT,
-      date            TEXT    NOT NULL,
-      funnel_id       TEXT    NOT NULL,
-      category        TEXT    NOT NULL CHECK(category IN ('ad','site','external','tracking','pricing','audience')),
-      description     TEXT    NOT NULL,
-      severity        INTEGER NOT NULL CHECK(severity BETWEEN 1 AND 5),
-      affected_stages TEXT,
-      created_at      TEXT    NOT NULL DEFAULT (datetime('now'))
+      id                INTEGER PRIMARY KEY AUTOINCREMENT,
+      date              TEXT    NOT NULL,
+      funnel_id         TEXT    NOT NULL,
+      category          TEXT    NOT NULL,
+      description       TEXT    NOT NULL,
+      severity          INTEGER NOT NULL CHECK(severity BETWEEN 1 AND 5),
+      affected_stages   TEXT,
+      end_date          TEXT    CHECK(end_date IS NULL OR end_date >= date),
+      rollout_percent   REAL    CHECK(rollout_percent IS NULL OR (rollout_percent > 0 AND rollout_percent <= 100)),
+      reverts_change_id INTEGER REFERENCES changes(id),
+      external_id       TEXT,
+      reverts_ref       TEXT,
+      created_at        TEXT    NOT NULL DEFAULT (datetime('now'))
     );
 
     CREATE INDEX IF NOT EXISTS idx_changes_funnel_date
@@ -39,44 +208,139 @@ export function initializeDatabase(dbPath: string): Database.Database {
 
     CREATE TABLE IF NOT EXISTS breaks (
       id              INTEGER PRIMARY KEY AUTOINCREMENT,
+      break_type      TEXT    NOT NULL DEFAULT 'conversion' CHECK(break_type IN ('conversion','volume')),
       funnel_id       TEXT    NOT NULL,
       from_stage      TEXT    NOT NULL,
       to_stage        TEXT    NOT NULL,
+      transition_kind TEXT    NOT NULL DEFAULT 'adjacent' CHECK(transition_kind IN ('adjacent','skip','end_to_end','stage')),
+      direction       TEXT    NOT NULL DEFAULT 'drop' CHECK(direction IN ('drop','increase')),
       detected_date   TEXT    NOT NULL,
+      onset_date      TEXT    NOT NULL,
+      last_seen_date  TEXT    NOT NULL,
+      recovery_date   TEXT,
+      duration_days   INTEGER NOT NULL CHECK(duration_days >= 0),
+      active          INTEGER NOT NULL DEFAULT 1 CHECK(active IN (0,1)),
       baseline_rate   REAL    NOT NULL,
+      expected_rate   REAL    NOT NULL,
       current_rate    REAL    NOT NULL,
       absolute_drop   REAL    NOT NULL,
       relative_drop   REAL    NOT NULL,
       z_score         REAL    NOT NULL,
+      p_value         REAL,
+      ci_lower        REAL,
+      ci_upper        REAL,
       severity        TEXT    NOT NULL CHECK(severity IN ('warning','significant','critical')),
       created_at      TEXT    NOT NULL DEFAULT (datetime('now')),
-      UNIQUE(funnel_id, from_stage, to_stage, detected_date)
+      UNIQUE(break_type, funnel_id, from_stage, to_stage, direction, onset_date)
     );
 
+    CREATE INDEX IF NOT EXISTS idx_breaks_active
+      ON breaks(active, funnel_id);
+
     CREATE TABLE IF NOT EXISTS diagnoses (
       id                INTEGER PRIMARY KEY AUTOINCREMENT,
       break_id          INTEGER NOT NULL REFERENCES breaks(id),
+      root_diagnosis_id INTEGER REFERENCES diagnoses(id),
       diagnosis_status  TEXT    NOT NULL CHECK(diagnosis_status IN ('identified','uncertain','unknown')),
       summary           TEXT    NOT NULL,
       generated_at      TEXT    NOT NULL,
       created_at        TEXT    NOT NULL DEFAULT (datetime('now'))
     );
 
+    CREATE INDEX IF NOT EXISTS idx_diagnoses_break
+      ON diagnoses(break_id);
+
+    -- The change is copied onto the candidate: changes loaded from CSV, git or ad platforms are
+    -- never stored. change_ref holds the loader's id; change_id is set only for stored changes.
     CREATE TABLE IF NOT EXISTS cause_candidates (
-      id                INTEGER PRIMARY KEY AUTOINCREMENT,
-      diagnosis_id      INTEGER NOT NULL REFERENCES diagnoses(id),
-      change_id         INTEGER REFERENCES changes(id),
-      confidence        REAL    NOT NULL,
-      temporal_score    REAL    NOT NULL,
-      category_score    REAL    NOT NULL,
-      severity_score    REAL    NOT NULL,
-      stage_match_bonus REAL    NOT NULL,
-      rank_position     INTEGER NOT NULL
+      id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+      diagnosis_id       INTEGER NOT NULL REFERENCES diagnoses(id),
+      change_id          INTEGER REFERENCES changes(id),
+      change_ref         TEXT,
+      change_date        TEXT    NOT NULL,
+      change_category    TEXT    NOT NULL,
+      change_description TEXT    NOT NULL,
+      change_severity    INTEGER NOT NULL,
+      confidence         REAL    NOT NULL,
+      temporal_score     REAL    NOT NULL,
+      category_score     REAL    NOT NULL,
+      severity_score     REAL    NOT NULL,
+      stage_match_bonus  REAL    NOT NULL,
+      wildcard_boost     REAL    NOT NULL DEFAULT 0,
+      causal_score       REAL,
+      revert_boost       REAL,
+      rollout_factor     REAL,
+      revert_date        TEXT,
+      rank_position      INTEGER NOT NULL
     );
 
     CREATE INDEX IF NOT EXISTS idx_cause_candidates_diagnosis
       ON cause_candidates(diagnosis_id);
+
+    CREATE TABLE IF NOT EXISTS cause_feedback (
+      id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+      cause_candidate_id INTEGER NOT NULL UNIQUE REFERENCES cause_candidates(id),
+      verdict            TEXT    NOT NULL CHECK(verdict IN ('confirmed','rejected')),
+      note               TEXT,
+      recorded_at        TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
   `);
 
+  seedDefaultStages(db);
+  db.pragma(`user_version = ${MIGRATIONS.length}`);
+
   return db;
 }
+
+/** Foreign keys are off while migrating, so rebuilt tables can be dropped under their references. */
+function migrate(db: Database.Database): void {
+  const version = db.pragma("user_version", { simple: true }) as number;
+  if (version >= MIGRATIONS.length) return;
+
+  db.pragma("foreign_keys = OFF");
+  try {
+    for (let step = version; step < MIGRATIONS.length; step++) {
+      db.transaction(() => {
+        MIGRATIONS[step](db);
+        db.pragma(`user_version = ${step + 1}`);
+      })();
+    }
+  } finally {
+    db.pragma("foreign_keys = ON");
+  }
+}
+
+/**
+ * Recreate a table with a new definition, copying its rows: SQLite cannot change constraints
+ * in place. Its indexes and triggers are dropped with it; the schema creates them again.
+ */
+function rebuildTable(db: Database.Database, table: string, definition: string): void {
+  const columns = (db.pragma(`table_info(${table})`) as { name: string }[]).map((column) => column.name).join(", ");
+  db.exec(`
+    CREATE TABLE ${table}_rebuilt (${definition});
+    INSERT INTO ${table}_rebuilt (${columns}) SELECT ${columns} FROM ${table};
+    DROP TABLE ${table};
+    ALTER TABLE ${table}_rebuilt RENAME TO ${table};
+  `);
+}
+
+function addMissingColumns(db: Database.Database, table: string, columns: Record<string, string>): void {
+  const existing = new Set((db.pragma(`table_info(${table})`) as { name: string }[]).map((column) => column.name));
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!existing.has(name)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+  }
+}
+
+function seedDefaultStages(db: Database.Database): void {
+  const hasDefault = db
+    .prepare("SELECT 1 FROM funnel_stages WHERE funnel_id = ? LIMIT 1")
+    .get(WILDCARD_FUNNEL_ID);
+  if (hasDefault) return;
+
+  const insertStmt = db.prepare(
+    "INSERT INTO funnel_stages (funnel_id, stage, position) VALUES (?, ?, ?)"
+  );
+  db.transaction(() => {
+    STAGE_ORDER.forEach((stage, position) => insertStmt.run(WILDCARD_FUNNEL_ID, stage, position));
+  })();
+}
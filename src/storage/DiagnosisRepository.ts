@@ -0,0 +1,142 @@
+import Database from "better-sqlite3";
+import {
+  CauseCandidate,
+  Diagnosis,
+  DiagnosisStatus,
+  FeedbackVerdict,
+} from "../core/entities";
+import { createBreakRepository } from "./BreakRepository";
+
+export interface DiagnosisRepository {
+  insert(diagnosis: Diagnosis): Diagnosis;
+  findById(id: string): Diagnosis | undefined;
+}
+
+export function createDiagnosisRepository(db: Database.Database): DiagnosisRepository {
+  const breaks = createBreakRepository(db);
+  const insertDiagnosisStmt = db.prepare(`
+    INSERT INTO diagnoses (break_id, root_diagnosis_id, diagnosis_status, summary, generated_at)
+    VALUES (@breakId, @rootDiagnosisId, @diagnosisStatus, @summary, @generatedAt)
+  `);
+  const insertCandidateStmt = db.prepare(`
+    INSERT INTO cause_candidates (
+      diagnosis_id, change_id, change_ref, change_date, change_category, change_description, change_severity,
+      confidence, temporal_score, category_score, severity_score, stage_match_bonus, wildcard_boost,
+      causal_score, revert_boost, rollout_factor, revert_date, rank_position
+    ) VALUES (
+      @diagnosisId, @changeId, @changeRef, @changeDate, @changeCategory, @changeDescription, @changeSeverity,
+      @confidence, @temporalScore, @categoryScore, @severityScore, @stageMatchBonus, @wildcardBoost,
+      @causalScore, @revertBoost, @rolloutFactor, @revertDate, @rank
+    )
+  `);
+  const selectStoredChangeStmt = db.prepare(`
+    SELECT id FROM changes WHERE id = ?
+  `);
+  const selectByIdStmt = db.prepare(`
+    SELECT * FROM diagnoses WHERE id = ?
+  `);
+  const selectCandidatesStmt = db.prepare(`
+    SELECT c.*, f.verdict, f.note, f.recorded_at
+    FROM cause_candidates c
+    LEFT JOIN cause_feedback f ON f.cause_candidate_id = c.id
+    WHERE c.diagnosis_id = ?
+    ORDER BY c.rank_position
+  `);
+
+  /** Store a diagnosis of an already stored break; returns it with diagnosis and candidate ids. */
+  const insert = db.transaction((diagnosis: Diagnosis): Diagnosis => {
+    if (!diagnosis.break.id) throw new Error("Cannot store a diagnosis of a break without an id");
+
+    const { lastInsertRowid } = insertDiagnosisStmt.run({
+      breakId: diagnosis.break.id,
+      rootDiagnosisId: diagnosis.rootDiagnosisId ?? null,
+      diagnosisStatus: diagnosis.diagnosisStatus,
+      summary: diagnosis.summary,
+      generatedAt: diagnosis.generatedAt,
+    });
+    const diagnosisId = String(lastInsertRowid);
+
+    const causes = diagnosis.causes.map((cause, i) => {
+      const { lastInsertRowid: candidateId } = insertCandidateStmt.run({
+        diagnosisId,
+        changeId: storedChangeId(cause.changeId),
+        changeRef: cause.changeId || null,
+        changeDate: cause.changeDate,
+        changeCategory: cause.changeCategory,
+        changeDescription: cause.changeDescription,
+        changeSeverity: cause.changeSeverity,
+        confidence: cause.confidence,
+        temporalScore: cause.scoreBreakdown.temporalScore,
+        categoryScore: cause.scoreBreakdown.categoryRelevanceScore,
+        severityScore: cause.scoreBreakdown.severityScore,
+        stageMatchBonus: cause.scoreBreakdown.stageMatchBonus,
+        wildcardBoost: cause.scoreBreakdown.wildcardBoost,
+        causalScore: cause.scoreBreakdown.causalScore ?? null,
+        revertBoost: cause.scoreBreakdown.revertBoost ?? null,
+        rolloutFactor: cause.scoreBreakdown.rolloutFactor ?? null,
+        revertDate: cause.revertDate ?? null,
+        rank: i + 1,
+      });
+      return { ...cause, id: String(candidateId) };
+    });
+
+    return { ...diagnosis, id: diagnosisId, causes };
+  });
+
+  /** The changes row a candidate's change id names, if the change was stored; loader ids such as "git:…" are not. */
+  function storedChangeId(changeId: string): number | null {
+    if (!/^\d+$/.test(changeId)) return null;
+    const row = selectStoredChangeStmt.get(Number(changeId)) as { id: number } | undefined;
+    return row?.id ?? null;
+  }
+
+  /** A stored diagnosis with its break, ranked candidates and any feedback on them. */
+  function findById(id: string): Diagnosis | undefined {
+    const row = selectByIdStmt.get(id) as any;
+    if (!row) return undefined;
+    const brk = breaks.findById(String(row.break_id));
+    if (!brk) return undefined;
+
+    return {
+      id: String(row.id),
+      generatedAt: row.generated_at,
+      break: brk,
+      causes: mapCandidates(selectCandidatesStmt.all(id) as any[]),
+      diagnosisStatus: row.diagnosis_status as DiagnosisStatus,
+      summary: row.summary,
+      ...(row.root_diagnosis_id !== null && { rootDiagnosisId: String(row.root_diagnosis_id) }),
+    };
+  }
+
+  return { insert, findById };
+}
+
+function mapCandidates(rows: any[]): CauseCandidate[] {
+  return rows.map((r) => ({
+    id: String(r.id),
+    changeId: r.change_ref ?? (r.change_id !== null ? String(r.change_id) : ""),
+    changeDescription: r.change_description,
+    changeCategory: r.change_category,
+    changeDate: r.change_date,
+    changeSeverity: r.change_severity,
+    confidence: r.confidence,
+    scoreBreakdown: {
+      temporalScore: r.temporal_score,
+      categoryRelevanceScore: r.category_score,
+      severityScore: r.severity_score,
+      stageMatchBonus: r.stage_match_bonus,
+      wildcardBoost: r.wildcard_boost,
+      ...(r.causal_score !== null && { causalScore: r.causal_score }),
+      ...(r.revert_boost !== null && { revertBoost: r.revert_boost }),
+      ...(r.rollout_factor !== null && { rolloutFactor: r.rollout_factor }),
+    },
+    ...(r.revert_date !== null && { revertDate: r.revert_date }),
+    ...(r.verdict !== null && {
+      feedback: {
+        verdict: r.verdict as FeedbackVerdict,
+        ...(r.note !== null && { note: r.note }),
+        recordedAt: r.recorded_at,
+      },
+    }),
+  }));
+}
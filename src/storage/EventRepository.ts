@@ -1,7 +1,13 @@
 import Database from "better-sqlite3";
-import { Event, FunnelStage } from "../core/entities";
+import { Event } from "../core/entities";
 
-export function createEventRepository(db: Database.Database) {
+export interface EventRepository {
+  insertMany(events: Event[]): void;
+  findByFunnel(funnelId: string): Event[];
+  findByDateRange(funnelId: string, startDate: string, endDate: string): Event[];
+}
+
+export function createEventRepository(db: Database.Database): EventRepository {
   const insertStmt = db.prepare(`
     INSERT OR REPLACE INTO events (date, funnel_id, stage, count, source)
     VALUES (@date, @funnelId, @stage, @count, @source)
@@ -43,7 +49,7 @@ function mapRows(rows: any[]): Event[] {
     id: String(r.id),
     date: r.date,
     funnelId: r.funnel_id,
-    stage: r.stage as FunnelStage,
+    stage: r.stage,
     count: r.count,
     source: r.source || undefined,
   }));
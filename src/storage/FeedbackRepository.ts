@@ -0,0 +1,105 @@
+import Database from "better-sqlite3";
+import {
+  BreakDirection,
+  BreakType,
+  CauseFeedback,
+  FeedbackVerdict,
+  LabeledCause,
+} from "../core/entities";
+
+/** Feedback given on a break's candidate in any of its diagnoses, keyed by the change it names. */
+export interface BreakFeedback {
+  changeDate: string;
+  changeCategory: string;
+  changeDescription: string;
+  feedback: CauseFeedback;
+}
+
+export function createFeedbackRepository(db: Database.Database) {
+  // A candidate has at most one verdict; giving feedback again replaces it
+  const upsertStmt = db.prepare(`
+    INSERT INTO cause_feedback (cause_candidate_id, verdict, note)
+    VALUES (@causeCandidateId, @verdict, @note)
+    ON CONFLICT(cause_candidate_id) DO UPDATE SET
+      verdict     = excluded.verdict,
+      note        = excluded.note,
+      recorded_at = datetime('now')
+    RETURNING verdict, note, recorded_at
+  `);
+  const selectByBreakStmt = db.prepare(`
+    SELECT c.change_date, c.change_category, c.change_description, f.verdict, f.note, f.recorded_at
+    FROM cause_feedback f
+    JOIN cause_candidates c ON c.id = f.cause_candidate_id
+    JOIN diagnoses d ON d.id = c.diagnosis_id
+    WHERE d.break_id = ?
+    ORDER BY f.recorded_at, f.id
+  `);
+  // Reviewed candidates, plus the unreviewed ones of diagnoses whose cause was confirmed
+  const selectLabeledStmt = db.prepare(`
+    WITH confirmed AS (
+      SELECT DISTINCT c.diagnosis_id
+      FROM cause_candidates c
+      JOIN cause_feedback f ON f.cause_candidate_id = c.id
+      WHERE f.verdict = 'confirmed'
+    )
+    SELECT c.*, d.break_id, b.funnel_id, b.break_type, b.direction, b.from_stage, b.to_stage,
+           b.onset_date, f.verdict
+    FROM cause_candidates c
+    JOIN diagnoses d ON d.id = c.diagnosis_id
+    JOIN breaks b ON b.id = d.break_id
+    LEFT JOIN cause_feedback f ON f.cause_candidate_id = c.id
+    WHERE f.verdict IS NOT NULL OR c.diagnosis_id IN (SELECT diagnosis_id FROM confirmed)
+    ORDER BY c.diagnosis_id, c.rank_position
+  `);
+
+  function record(causeCandidateId: string, verdict: FeedbackVerdict, note?: string): CauseFeedback {
+    const row = upsertStmt.get({ causeCandidateId, verdict, note: note ?? null }) as any;
+    return mapFeedback(row);
+  }
+
+  /** Oldest first, so later verdicts on the same change come last. */
+  function findByBreak(breakId: string): BreakFeedback[] {
+    return (selectByBreakStmt.all(breakId) as any[]).map((r) => ({
+      changeDate: r.change_date,
+      changeCategory: r.change_category,
+      changeDescription: r.change_description,
+      feedback: mapFeedback(r),
+    }));
+  }
+
+  function findLabeledCauses(): LabeledCause[] {
+    return (selectLabeledStmt.all() as any[]).map((r) => ({
+      diagnosisId: String(r.diagnosis_id),
+      breakId: String(r.break_id),
+      funnelId: r.funnel_id,
+      breakType: r.break_type as BreakType,
+      direction: r.direction as BreakDirection,
+      fromStage: r.from_stage,
+      toStage: r.to_stage,
+      onsetDate: r.onset_date,
+      changeDate: r.change_date,
+      changeCategory: r.change_category,
+      changeDescription: r.change_description,
+      changeSeverity: r.change_severity,
+      rank: r.rank_position,
+      confidence: r.confidence,
+      temporalScore: r.temporal_score,
+      categoryRelevanceScore: r.category_score,
+      severityScore: r.severity_score,
+      stageMatchBonus: r.stage_match_bonus,
+      wildcardBoost: r.wildcard_boost,
+      ...(r.verdict !== null && { verdict: r.verdict as FeedbackVerdict }),
+      label: r.verdict === FeedbackVerdict.CONFIRMED ? 1 : 0,
+    }));
+  }
+
+  return { record, findByBreak, findLabeledCauses };
+}
+
+function mapFeedback(r: any): CauseFeedback {
+  return {
+    verdict: r.verdict as FeedbackVerdict,
+    ...(r.note !== null && { note: r.note }),
+    recordedAt: r.recorded_at,
+  };
+}
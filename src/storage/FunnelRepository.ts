@@ -0,0 +1,53 @@
+import Database from "better-sqlite3";
+import { FunnelDefinition } from "../core/entities";
+
+export interface FunnelRepository {
+  insertMany(definitions: FunnelDefinition[]): void;
+  findAll(): FunnelDefinition[];
+  findByFunnel(funnelId: string): FunnelDefinition | undefined;
+}
+
+export function createFunnelRepository(db: Database.Database): FunnelRepository {
+  const deleteStagesStmt = db.prepare(`
+    DELETE FROM funnel_stages WHERE funnel_id = ?
+  `);
+  const insertStageStmt = db.prepare(`
+    INSERT INTO funnel_stages (funnel_id, stage, position)
+    VALUES (@funnelId, @stage, @position)
+  `);
+  const selectAllStmt = db.prepare(`
+    SELECT * FROM funnel_stages ORDER BY funnel_id, position
+  `);
+  const selectByFunnelStmt = db.prepare(`
+    SELECT * FROM funnel_stages WHERE funnel_id = ? ORDER BY position
+  `);
+
+  /** Replace the stage list of each given funnel. */
+  const insertMany = db.transaction((definitions: FunnelDefinition[]) => {
+    for (const def of definitions) {
+      deleteStagesStmt.run(def.funnelId);
+      def.stages.forEach((stage, position) => {
+        insertStageStmt.run({ funnelId: def.funnelId, stage, position });
+      });
+    }
+  });
+
+  function findAll(): FunnelDefinition[] {
+    return mapRows(selectAllStmt.all() as any[]);
+  }
+
+  function findByFunnel(funnelId: string): FunnelDefinition | undefined {
+    return mapRows(selectByFunnelStmt.all(funnelId) as any[])[0];
+  }
+
+  return { insertMany, findAll, findByFunnel };
+}
+
+function mapRows(rows: any[]): FunnelDefinition[] {
+  const byFunnel = new Map<string, string[]>();
+  for (const r of rows) {
+    if (!byFunnel.has(r.funnel_id)) byFunnel.set(r.funnel_id, []);
+    byFunnel.get(r.funnel_id)!.push(r.stage);
+  }
+  return [...byFunnel].map(([funnelId, stages]) => ({ funnelId, stages }));
+}
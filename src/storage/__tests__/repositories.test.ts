@@ -1,8 +1,29 @@
 import { initializeDatabase } from "../Database";
 import { createEventRepository } from "../EventRepository";
 import { createChangeRepository } from "../ChangeRepository";
-import { Event, FunnelStage, ChangeCategory } from "../../core/entities";
+import { createFunnelRepository } from "../FunnelRepository";
+import { createBreakRepository } from "../BreakRepository";
+import { createDiagnosisRepository } from "../DiagnosisRepository";
+import { createFeedbackRepository } from "../FeedbackRepository";
+import { loadChangesFromCsv } from "../../data/csv/CsvChangeLoader";
+import {
+  Event,
+  FunnelStage,
+  ChangeCategory,
+  Break,
+  BreakDirection,
+  BreakSeverity,
+  BreakType,
+  TransitionKind,
+  Diagnosis,
+  DiagnosisStatus,
+  FeedbackVerdict,
+} from "../../core/entities";
+import BetterSqlite3 from "better-sqlite3";
 import type Database from "better-sqlite3";
+import fs from "fs";
+import os from "os";
+import path from "path";
 
 describe("Storage Layer", () => {
   let db: Database.Database;
@@ -15,6 +36,27 @@ describe("Storage Layer", () => {
     db.close();
   });
 
+  const activeBreak: Break = {
+    breakType: BreakType.CONVERSION,
+    funnelId: "camp-a",
+    fromStage: FunnelStage.CLICK,
+    toStage: FunnelStage.LANDING,
+    transitionKind: TransitionKind.ADJACENT,
+    direction: BreakDirection.DROP,
+    detectedDate: "2025-01-12",
+    onsetDate: "2025-01-10",
+    lastSeenDate: "2025-01-14",
+    durationDays: 5,
+    active: true,
+    baselineRate: 0.8,
+    expectedRate: 0.8,
+    currentRate: 0.5,
+    absoluteDrop: 0.3,
+    relativeDrop: 0.375,
+    zScore: 6.2,
+    severity: BreakSeverity.CRITICAL,
+  };
+
   describe("initializeDatabase", () => {
     it("should create all required tables", () => {
       const tables = db
@@ -27,6 +69,201 @@ describe("Storage Layer", () => {
       expect(tableNames).toContain("breaks");
       expect(tableNames).toContain("diagnoses");
       expect(tableNames).toContain("cause_candidates");
+      expect(tableNames).toContain("funnel_stages");
+      expect(tableNames).toContain("cause_feedback");
+    });
+  });
+
+  describe("migrations", () => {
+    let tmpDir: string;
+    let dbPath: string;
+
+    /** A database as created by the first release, with one stored break. */
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fg-db-"));
+      dbPath = path.join(tmpDir, "funnel.db");
+      const old = new BetterSqlite3(dbPath);
+      old.exec(fs.readFileSync(path.join(__dirname, "fixtures/baseline-schema.sql"), "utf-8"));
+      old.prepare(`
+        INSERT INTO breaks (funnel_id, from_stage, to_stage, detected_date, baseline_rate, current_rate,
+          absolute_drop, relative_drop, z_score, severity)
+        VALUES ('camp-a', 'click', 'landing', '2024-12-02', 0.8, 0.5, 0.3, 0.375, 6.2, 'critical')
+      `).run();
+      old.close();
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should bring a database from the first release up to date", () => {
+      const migrated = initializeDatabase(dbPath);
+      try {
+        expect(migrated.pragma("user_version", { simple: true })).toBeGreaterThan(0);
+
+        const breaks = createBreakRepository(migrated);
+        expect(breaks.findByFunnel("camp-a")[0]).toMatchObject({
+          breakType: BreakType.CONVERSION,
+          onsetDate: "2024-12-02",
+          lastSeenDate: "2024-12-02",
+          expectedRate: 0.8,
+          active: false,
+        });
+
+        const [stored] = breaks.upsertMany([activeBreak]);
+        const [updated] = breaks.upsertMany([{ ...activeBreak, lastSeenDate: "2025-01-15" }]);
+        expect(updated.id).toBe(stored.id);
+        expect(breaks.findActive().map((b) => b.lastSeenDate)).toEqual(["2025-01-15"]);
+      } finally {
+        migrated.close();
+      }
+    });
+
+    it("should store breaks of both directions detected the same day in a migrated database", () => {
+      const migrated = initializeDatabase(dbPath);
+      try {
+        const increase: Break = {
+          ...activeBreak,
+          direction: BreakDirection.INCREASE,
+          onsetDate: "2025-01-12",
+          currentRate: 1.1,
+          absoluteDrop: -0.3,
+          relativeDrop: -0.375,
+          zScore: -6.2,
+        };
+        const breaks = createBreakRepository(migrated);
+        breaks.upsertMany([activeBreak, increase]);
+
+        expect(breaks.findByFunnel("camp-a").map((b) => [b.detectedDate, b.direction])).toEqual([
+          ["2024-12-02", BreakDirection.DROP],
+          ["2025-01-12", BreakDirection.DROP],
+          ["2025-01-12", BreakDirection.INCREASE],
+        ]);
+      } finally {
+        migrated.close();
+      }
+    });
+
+    it("should store ranged and reverting changes and their diagnoses in a migrated database", () => {
+      const migrated = initializeDatabase(dbPath);
+      try {
+        const [campaign, revert] = createChangeRepository(migrated).insertMany([
+          { id: "c1", date: "2025-01-05", endDate: "2025-01-20", rolloutPercent: 50, funnelId: "camp-a", category: ChangeCategory.AD, description: "Spring campaign", severity: 3 },
+          { date: "2025-01-12", funnelId: "camp-a", category: ChangeCategory.AD, description: "Stop spring campaign", severity: 3, revertsChangeId: "c1" },
+        ]);
+        expect(createChangeRepository(migrated).findByFunnel("camp-a")[1]).toMatchObject({ revertsChangeId: campaign.id });
+
+        const [brk] = createBreakRepository(migrated).upsertMany([activeBreak]);
+        const diagnoses = createDiagnosisRepository(migrated);
+        const inserted = diagnoses.insert({
+          generatedAt: "2025-01-15T00:00:00.000Z",
+          break: brk,
+          causes: [{
+            changeId: campaign.id!,
+            changeDescription: campaign.description,
+            changeCategory: campaign.category,
+            changeDate: campaign.date,
+            changeSeverity: campaign.severity,
+            confidence: 0.7,
+            scoreBreakdown: {
+              temporalScore: 0.6,
+              categoryRelevanceScore: 0.9,
+              severityScore: 0.5,
+              stageMatchBonus: 0,
+              wildcardBoost: 0,
+              rolloutFactor: 0.5,
+            },
+            revertDate: revert.date,
+          }],
+          diagnosisStatus: DiagnosisStatus.IDENTIFIED,
+          summary: "Spring campaign",
+        });
+        expect(diagnoses.findById(inserted.id!)).toEqual(inserted);
+      } finally {
+        migrated.close();
+      }
+    });
+
+    it("should drop the fixed category and stage lists, keeping stored rows and references", () => {
+      const old = new BetterSqlite3(dbPath);
+      old.exec(`
+        INSERT INTO changes (date, funnel_id, category, description, severity) VALUES ('2024-12-01', 'camp-a', 'site', 'Redesign', 4);
+        INSERT INTO events (date, funnel_id, stage, count) VALUES ('2024-12-01', 'camp-a', 'click', 120);
+        INSERT INTO diagnoses (break_id, diagnosis_status, summary, generated_at) VALUES (1, 'identified', 'Redesign', '2024-12-02');
+        INSERT INTO cause_candidates (diagnosis_id, change_id, confidence, temporal_score, category_score, severity_score, stage_match_bonus, rank_position)
+          VALUES (1, 1, 0.8, 0.9, 0.9, 0.75, 0, 1);
+      `);
+      old.close();
+
+      const migrated = initializeDatabase(dbPath);
+      try {
+        const changes = createChangeRepository(migrated);
+        changes.insertMany([{ date: "2025-01-10", funnelId: "camp-a", category: "site/checkout", description: "New payment form", severity: 4 }]);
+        expect(changes.findByFunnel("camp-a").map((c) => [c.id, c.category])).toEqual([["1", "site"], ["2", "site/checkout"]]);
+
+        createFunnelRepository(migrated).insertMany([{ funnelId: "app", stages: ["install", "open"] }]);
+        const events = createEventRepository(migrated);
+        events.insertMany([{ date: "2025-01-01", funnelId: "app", stage: "install", count: 500 }]);
+        expect(events.findByFunnel("app")).toHaveLength(1);
+        expect(() =>
+          events.insertMany([{ date: "2025-01-01", funnelId: "camp-a", stage: "install", count: 10 }])
+        ).toThrow(/stage is not defined/);
+
+        const [candidate] = createDiagnosisRepository(migrated).findById("1")!.causes;
+        expect(candidate).toMatchObject({ changeId: "1", changeDescription: "Redesign", changeCategory: "site" });
+        expect(migrated.pragma("foreign_key_check")).toEqual([]);
+        expect(migrated.pragma("foreign_keys", { simple: true })).toBe(1);
+      } finally {
+        migrated.close();
+      }
+    });
+
+    it("should leave a migrated database alone when opened again", () => {
+      initializeDatabase(dbPath).close();
+      const reopened = initializeDatabase(dbPath);
+      try {
+        expect(createBreakRepository(reopened).findByFunnel("camp-a")).toHaveLength(1);
+      } finally {
+        reopened.close();
+      }
+    });
+  });
+
+  describe("FunnelRepository", () => {
+    let repo: ReturnType<typeof createFunnelRepository>;
+
+    beforeEach(() => {
+      repo = createFunnelRepository(db);
+    });
+
+    it("should seed the default stage order under the wildcard funnel", () => {
+      expect(repo.findByFunnel("*")).toEqual({
+        funnelId: "*",
+        stages: ["impression", "click", "landing", "lead", "purchase"],
+      });
+    });
+
+    it("should replace stages when a definition is saved again", () => {
+      repo.insertMany([{ funnelId: "saas", stages: ["visit", "signup", "paid"] }]);
+      repo.insertMany([{ funnelId: "saas", stages: ["visit", "signup", "trial", "paid"] }]);
+
+      expect(repo.findByFunnel("saas")!.stages).toEqual(["visit", "signup", "trial", "paid"]);
+      expect(repo.findAll().map((d) => d.funnelId)).toEqual(["*", "saas"]);
+    });
+
+    it("should accept custom stages for defined funnels and reject unknown ones", () => {
+      const events = createEventRepository(db);
+      repo.insertMany([{ funnelId: "app", stages: ["install", "open", "register", "subscribe"] }]);
+
+      events.insertMany([{ date: "2025-01-01", funnelId: "app", stage: "install", count: 500 }]);
+      expect(events.findByFunnel("app")).toHaveLength(1);
+
+      expect(() =>
+        events.insertMany([{ date: "2025-01-01", funnelId: "app", stage: FunnelStage.CLICK, count: 10 }])
+      ).toThrow(/stage is not defined/);
+      expect(() =>
+        events.insertMany([{ date: "2025-01-01", funnelId: "camp-a", stage: "install", count: 10 }])
+      ).toThrow(/stage is not defined/);
     });
   });
 
@@ -168,5 +405,215 @@ describe("Storage Layer", () => {
       const changes = repo.findByFunnel("camp-a");
       expect(changes[0].affectedStages).toBeUndefined();
     });
+
+    it("should store end dates and rollouts, and link reverts to stored ids", () => {
+      const stored = repo.insertMany([
+        { id: "deploy-1", date: "2025-01-10", funnelId: "camp-a", category: ChangeCategory.SITE, description: "New checkout", severity: 4, rolloutPercent: 5 },
+        { date: "2025-01-12", funnelId: "camp-a", category: ChangeCategory.SITE, description: "Revert", severity: 3, revertsChangeId: "deploy-1" },
+        { date: "2025-01-01", funnelId: "camp-a", category: ChangeCategory.AD, description: "Campaign", severity: 3, endDate: "2025-01-31" },
+      ]);
+
+      expect(stored[1].revertsChangeId).toBe(stored[0].id);
+      const changes = repo.findByFunnel("camp-a");
+      expect(changes.find((c) => c.description === "New checkout")).toMatchObject({ id: stored[0].id, rolloutPercent: 5 });
+      expect(changes.find((c) => c.description === "Revert")!.revertsChangeId).toBe(stored[0].id);
+      expect(changes.find((c) => c.description === "Campaign")!.endDate).toBe("2025-01-31");
+    });
+
+    it("should link reverts of CSV changes across batches and keep unstored targets as raw ids", () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fg-csv-"));
+      const csvPath = path.join(tmpDir, "changes.csv");
+      fs.writeFileSync(csvPath, `id,date,funnel_id,category,description,severity,reverts
+c1,2025-01-10,camp-a,site,New checkout,4,
+c2,2025-01-12,camp-a,site,Revert new checkout,3,c1
+`);
+      try {
+        const [checkout, revert] = repo.insertMany(loadChangesFromCsv(csvPath).changes);
+        const [later, orphan] = repo.insertMany([
+          { id: "c3", date: "2025-01-20", funnelId: "camp-a", category: ChangeCategory.SITE, description: "Revert the revert", severity: 3, revertsChangeId: "c2" },
+          { id: "git:0123456789ab:*", date: "2025-01-21", funnelId: "camp-a", category: ChangeCategory.SITE, description: "Revert deploy", severity: 3, revertsChangeId: "git:ba9876543210:*" },
+        ]);
+
+        expect([revert.revertsChangeId, later.revertsChangeId, orphan.revertsChangeId]).toEqual([checkout.id, revert.id, "git:ba9876543210:*"]);
+        expect(repo.findByFunnel("camp-a").map((c) => c.revertsChangeId)).toEqual([undefined, checkout.id, revert.id, "git:ba9876543210:*"]);
+        const rows = db.prepare("SELECT reverts_change_id, external_id FROM changes ORDER BY id").all();
+        expect(rows).toEqual([
+          { reverts_change_id: null, external_id: "c1" },
+          { reverts_change_id: Number(checkout.id), external_id: "c2" },
+          { reverts_change_id: Number(revert.id), external_id: "c3" },
+          { reverts_change_id: null, external_id: "git:0123456789ab:*" },
+        ]);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should find ranged changes still in effect during a date range", () => {
+      repo.insertMany([
+        { date: "2025-01-01", funnelId: "camp-a", category: ChangeCategory.AD, description: "Running campaign", severity: 3, endDate: "2025-01-31" },
+        { date: "2025-01-01", funnelId: "camp-a", category: ChangeCategory.AD, description: "Ended campaign", severity: 3, endDate: "2025-01-05" },
+      ]);
+
+      const changes = repo.findByDateRange("camp-a", "2025-01-10", "2025-01-15");
+      expect(changes.map((c) => c.description)).toEqual(["Running campaign"]);
+    });
+
+    it("should store custom categories and subcategories", () => {
+      repo.insertMany([
+        { date: "2025-01-10", funnelId: "camp-a", category: "site/checkout", description: "New payment form", severity: 4 },
+        { date: "2025-01-11", funnelId: "camp-a", category: "email", description: "Newsletter", severity: 2 },
+      ]);
+
+      expect(repo.findByFunnel("camp-a").map((c) => c.category).sort()).toEqual(["email", "site/checkout"]);
+    });
+  });
+
+  describe("BreakRepository", () => {
+    let repo: ReturnType<typeof createBreakRepository>;
+
+    beforeEach(() => {
+      repo = createBreakRepository(db);
+    });
+
+    it("should store a break with its lifecycle", () => {
+      repo.upsertMany([activeBreak]);
+
+      const [stored] = repo.findByFunnel("camp-a");
+      expect(stored.id).toBeDefined();
+      expect({ ...stored, id: undefined }).toEqual({ ...activeBreak, id: undefined });
+    });
+
+    it("should update the lifecycle of a break with the same onset", () => {
+      repo.upsertMany([activeBreak]);
+      repo.upsertMany([{
+        ...activeBreak,
+        lastSeenDate: "2025-01-15",
+        recoveryDate: "2025-01-16",
+        durationDays: 6,
+        active: false,
+        pValue: 0.001,
+        confidenceInterval: { lower: 0.2, upper: 0.4 },
+      }]);
+
+      const stored = repo.findByFunnel("camp-a");
+      expect(stored).toHaveLength(1);
+      expect(stored[0].recoveryDate).toBe("2025-01-16");
+      expect(stored[0].active).toBe(false);
+      expect(stored[0].confidenceInterval).toEqual({ lower: 0.2, upper: 0.4 });
+      expect(repo.findActive()).toHaveLength(0);
+    });
+
+    it("should list only active breaks", () => {
+      repo.upsertMany([
+        activeBreak,
+        { ...activeBreak, funnelId: "camp-b", recoveryDate: "2025-01-15", active: false },
+      ]);
+
+      expect(repo.findActive().map((b) => b.funnelId)).toEqual(["camp-a"]);
+    });
+
+    it("should return stored ids that survive updates", () => {
+      const [inserted] = repo.upsertMany([activeBreak]);
+      const [updated] = repo.upsertMany([{ ...activeBreak, lastSeenDate: "2025-01-15" }]);
+
+      expect(updated.id).toBe(inserted.id);
+      expect(repo.findById(inserted.id!)!.lastSeenDate).toBe("2025-01-15");
+      expect(repo.findById("999")).toBeUndefined();
+    });
+  });
+
+  describe("DiagnosisRepository and FeedbackRepository", () => {
+    let diagnoses: ReturnType<typeof createDiagnosisRepository>;
+    let feedback: ReturnType<typeof createFeedbackRepository>;
+
+    function makeDiagnosis(descriptions: string[]): Diagnosis {
+      const [brk] = createBreakRepository(db).upsertMany([activeBreak]);
+      return {
+        generatedAt: "2025-01-15T00:00:00.000Z",
+        break: brk,
+        causes: descriptions.map((description, i) => ({
+          changeId: "",
+          changeDescription: description,
+          changeCategory: ChangeCategory.SITE,
+          changeDate: "2025-01-09",
+          changeSeverity: 4,
+          confidence: 0.8 - i * 0.2,
+          scoreBreakdown: {
+            temporalScore: 0.6,
+            categoryRelevanceScore: 0.9,
+            severityScore: 0.75,
+            stageMatchBonus: 0,
+            wildcardBoost: 0,
+          },
+        })),
+        diagnosisStatus: DiagnosisStatus.IDENTIFIED,
+        summary: "Landing page redesign",
+      };
+    }
+
+    beforeEach(() => {
+      diagnoses = createDiagnosisRepository(db);
+      feedback = createFeedbackRepository(db);
+    });
+
+    it("should store a diagnosis with its ranked candidates", () => {
+      const diagnosis = makeDiagnosis(["Redesign", "Form change"]);
+      const inserted = diagnoses.insert(diagnosis);
+
+      expect(inserted.causes.every((c) => c.id !== undefined)).toBe(true);
+      expect(diagnoses.findById(inserted.id!)).toEqual(inserted);
+      expect(diagnoses.findById("999")).toBeUndefined();
+    });
+
+    it("should keep loader change ids and link only stored changes", () => {
+      const [stored] = createChangeRepository(db).insertMany([
+        { date: "2025-01-09", funnelId: "camp-a", category: ChangeCategory.SITE, description: "Redesign", severity: 4 },
+      ]);
+      const diagnosis = makeDiagnosis(["Redesign", "Checkout release", "Bid change", "Pixel update", "Manual note"]);
+      const changeIds = [stored.id!, "git:0123456789ab:*", "google-ads:customers/1/changeEvents/2", "c1", "999"];
+      diagnosis.causes.forEach((cause, i) => (cause.changeId = changeIds[i]));
+
+      const inserted = diagnoses.insert(diagnosis);
+
+      expect(diagnoses.findById(inserted.id!)!.causes.map((c) => c.changeId)).toEqual(changeIds);
+      const linked = db.prepare("SELECT change_id FROM cause_candidates ORDER BY rank_position").all() as { change_id: number | null }[];
+      expect(linked.map((row) => row.change_id)).toEqual([Number(stored.id), null, null, null, null]);
+    });
+
+    it("should keep a causal score when one was computed", () => {
+      const diagnosis = makeDiagnosis(["Redesign"]);
+      diagnosis.causes[0].scoreBreakdown.causalScore = 0.85;
+
+      const stored = diagnoses.findById(diagnoses.insert(diagnosis).id!)!;
+      expect(stored.causes[0].scoreBreakdown.causalScore).toBe(0.85);
+    });
+
+    it("should attach the latest verdict to a candidate", () => {
+      const inserted = diagnoses.insert(makeDiagnosis(["Redesign", "Form change"]));
+      feedback.record(inserted.causes[0].id!, FeedbackVerdict.REJECTED);
+      feedback.record(inserted.causes[0].id!, FeedbackVerdict.CONFIRMED, "Rolled back on the 16th");
+
+      const stored = diagnoses.findById(inserted.id!)!;
+      expect(stored.causes[0].feedback).toMatchObject({ verdict: FeedbackVerdict.CONFIRMED, note: "Rolled back on the 16th" });
+      expect(stored.causes[1].feedback).toBeUndefined();
+      expect(feedback.findByBreak(inserted.break.id!)).toHaveLength(1);
+    });
+
+    it("should export reviewed candidates, with unreviewed ones of confirmed diagnoses as negatives", () => {
+      const confirmed = diagnoses.insert(makeDiagnosis(["Redesign", "Form change"]));
+      const rejectedOnly = diagnoses.insert(makeDiagnosis(["Pixel update", "Price test"]));
+      diagnoses.insert(makeDiagnosis(["Unreviewed"]));
+      feedback.record(confirmed.causes[1].id!, FeedbackVerdict.CONFIRMED);
+      feedback.record(rejectedOnly.causes[0].id!, FeedbackVerdict.REJECTED);
+
+      const labels = feedback.findLabeledCauses();
+
+      expect(labels.map((l) => [l.changeDescription, l.rank, l.verdict, l.label])).toEqual([
+        ["Redesign", 1, undefined, 0],
+        ["Form change", 2, FeedbackVerdict.CONFIRMED, 1],
+        ["Pixel update", 1, FeedbackVerdict.REJECTED, 0],
+      ]);
+      expect(labels[1]).toMatchObject({ funnelId: "camp-a", fromStage: "click", toStage: "landing", temporalScore: 0.6 });
+    });
   });
 });
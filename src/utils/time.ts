@@ -19,3 +19,13 @@ export function addDays(date: string, days: number): string {
 export function now(): string {
   return dayjs().toISOString();
 }
+
+/** Whole days since 1970-01-01; a cheap, parse-once index for date arithmetic on sorted series. */
+export function dayNumber(date: string): number {
+  return Math.round(Date.parse(date) / 86_400_000);
+}
+
+/** Day-of-week of a dayNumber, 0 = Sunday ... 6 = Saturday. */
+export function weekdayOfDayNumber(day: number): number {
+  return (((day + 4) % 7) + 7) % 7;
+}